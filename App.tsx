@@ -1,12 +1,25 @@
 import { Analytics } from '@vercel/analytics/react';
-import { BookOpen, Check, Compass, Edit3, Info, KeyRound, Link, MessageCircle, Settings } from 'lucide-react';
-import { useCallback, useEffect, useState } from 'react';
-import { ApiKeyModal, ApiProvider } from './components/ApiKeyModal';
+import { BarChart3, BookMarked, BookOpen, Check, Compass, DatabaseBackup, Edit3, GraduationCap, Info, KeyRound, Link, MessageCircle, Settings, Target } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ApiKeyModal } from './components/ApiKeyModal';
+import { BackupModal } from './components/BackupModal';
 import { Button } from './components/Button';
 import { LanguageSelector } from './components/LanguageSelector';
+import { PlacementTest } from './components/PlacementTest';
 import { Reader } from './components/Reader';
+import { ReviewSession } from './components/ReviewSession';
+import { SentenceWriting } from './components/SentenceWriting';
+import { StatsDashboard } from './components/StatsDashboard';
+import { VocabularyPage } from './components/VocabularyPage';
 import { LanguageProvider, useLanguage } from './i18n/LanguageContext';
-import { LLMProvider, ViewMode } from './types';
+import { loadKnownWords } from './services/knownWordsService';
+import { getErrorMessage, LLMError } from './services/llmErrors';
+import { getPlacement } from './services/placementTest';
+import { isCapabilityConfigured, loadRouting, ProviderRouting, saveRouting } from './services/providerSettings';
+import { trackStudyTime } from './services/statsService';
+import { inputTextItem, readItem, textHistoryItem, writeItem } from './services/storage';
+import { loadVocabulary } from './services/wordMasteryService';
+import { ViewMode } from './types';
 
 // Compress text using base64 encoding (works for most text)
 const encodeTextForUrl = (text: string): string => {
@@ -51,14 +64,36 @@ Simply paste any English text you want to practice, or generate custom content u
 
 Start your English learning journey today with Philingo - where technology meets language education to create an immersive, personalized learning experience. Practice reading, improve pronunciation, and master English vocabulary at your own pace.`;
 
-const STORAGE_KEY_TEXT = 'vocabflow_input_text';
-const STORAGE_KEY_HISTORY = 'philingo_text_history';
-const STORAGE_KEY_API_KEY_GEMINI = 'philingo_api_key_gemini';
-const STORAGE_KEY_API_KEY_OPENAI = 'philingo_api_key_openai';
-const STORAGE_KEY_CURRENT_PROVIDER = 'philingo_current_provider';
+// Add a text to the saved history (shown on the explore page), most recent first
+const saveToHistory = (text: string) => {
+  if (!text.trim() || text === DEFAULT_TEXT) return;
+
+  const history = readItem(textHistoryItem) || [];
+
+  // Create preview (first 100 chars)
+  const preview = text.substring(0, 100) + (text.length > 100 ? '...' : '');
+
+  // Check if this exact text already exists in history
+  const existingIndex = history.findIndex(item => item.text === text);
+  if (existingIndex !== -1) {
+    // Update timestamp and preview of existing entry
+    history[existingIndex].timestamp = Date.now();
+    history[existingIndex].preview = preview;
+  } else {
+    // Add new entry at the beginning
+    history.unshift({
+      text,
+      timestamp: Date.now(),
+      preview
+    });
+  }
+
+  // Keep only the last 50 entries
+  writeItem(textHistoryItem, history.slice(0, 50));
+};
 
 function AppContent() {
-  // Track if text came from URL (should not be saved to localStorage)
+  // Track if text came from URL (should not be saved to storage)
   const [isFromUrl, setIsFromUrl] = useState(false);
   const [linkCopied, setLinkCopied] = useState(false);
   const { t } = useLanguage();
@@ -73,9 +108,8 @@ function AppContent() {
         return decoded;
       }
     }
-    // Fall back to localStorage
-    const cached = localStorage.getItem(STORAGE_KEY_TEXT);
-    return cached || DEFAULT_TEXT;
+    // Fall back to the saved text
+    return readItem(inputTextItem) || DEFAULT_TEXT;
   });
   const [mode, setMode] = useState<ViewMode>('read');
   const [inputText, setInputText] = useState<string>(() => {
@@ -88,15 +122,27 @@ function AppContent() {
         return decoded;
       }
     }
-    // Fall back to localStorage
-    const cached = localStorage.getItem(STORAGE_KEY_TEXT);
-    return cached || DEFAULT_TEXT;
+    // Fall back to the saved text
+    return readItem(inputTextItem) || DEFAULT_TEXT;
   });
 
-  // API Key State
-  const [apiKey, setApiKey] = useState<string>('');
-  const [apiProvider, setApiProvider] = useState<ApiProvider>('gemini');
+  // Provider routing state (which provider handles each capability)
+  const [routing, setRouting] = useState<ProviderRouting>(() => loadRouting());
   const [isKeyModalOpen, setIsKeyModalOpen] = useState(false);
+  const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+  // Word lookup is the core reading feature, so it drives the key prompt
+  const isKeyConfigured = isCapabilityConfigured('annotation', routing);
+
+  // New learners (no placement result, known words or vocabulary) are offered the placement test
+  const showPlacementPrompt = useMemo(
+    () => mode === 'read' && !getPlacement() && loadKnownWords().size === 0 && loadVocabulary().length === 0,
+    [mode]
+  );
+
+  // Time spent on the study pages, for the statistics (the reader tracks its own modes)
+  useEffect(() => {
+    if (mode === 'review' || mode === 'vocabulary' || mode === 'placement' || mode === 'sentences') return trackStudyTime(mode);
+  }, [mode]);
 
   // API Status State
   const [apiStatus, setApiStatus] = useState<{
@@ -114,34 +160,11 @@ function AppContent() {
       if (decoded) {
         setIsFromUrl(true);
         
-        // Save to localStorage immediately so it persists on refresh
-        localStorage.setItem(STORAGE_KEY_TEXT, decoded);
+        // Save immediately so it persists on refresh
+        writeItem(inputTextItem, decoded);
         
         // Also save to history with duplicate check
-        if (decoded.trim() && decoded !== DEFAULT_TEXT) {
-          try {
-            const historyStr = localStorage.getItem(STORAGE_KEY_HISTORY);
-            const history: Array<{text: string, timestamp: number, preview: string}> = historyStr ? JSON.parse(historyStr) : [];
-            const preview = decoded.substring(0, 100) + (decoded.length > 100 ? '...' : '');
-            
-            const existingIndex = history.findIndex(item => item.text === decoded);
-            if (existingIndex !== -1) {
-              history[existingIndex].timestamp = Date.now();
-              history[existingIndex].preview = preview;
-            } else {
-              history.unshift({
-                text: decoded,
-                timestamp: Date.now(),
-                preview
-              });
-            }
-            
-            const trimmedHistory = history.slice(0, 50);
-            localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(trimmedHistory));
-          } catch (error) {
-            console.error('Failed to save to history:', error);
-          }
-        }
+        saveToHistory(decoded);
         
         // Clear URL parameter after reading (optional, keeps URL clean)
         window.history.replaceState({}, '', window.location.pathname);
@@ -149,30 +172,6 @@ function AppContent() {
     }
   }, []);
 
-  // Load key and provider from localStorage on mount
-  useEffect(() => {
-    const storedProvider = localStorage.getItem(STORAGE_KEY_CURRENT_PROVIDER) as ApiProvider | null;
-    const provider = storedProvider || 'gemini';
-    setApiProvider(provider);
-    
-    // Load the key for the current provider
-    const keyToLoad = provider === 'gemini'
-      ? localStorage.getItem(STORAGE_KEY_API_KEY_GEMINI)
-      : localStorage.getItem(STORAGE_KEY_API_KEY_OPENAI);
-    
-    if (keyToLoad) {
-      setApiKey(keyToLoad);
-    }
-  }, []);
-
-  // Load corresponding API key when provider changes (user switches in modal)
-  useEffect(() => {
-    const keyToLoad = apiProvider === 'gemini'
-      ? localStorage.getItem(STORAGE_KEY_API_KEY_GEMINI)
-      : localStorage.getItem(STORAGE_KEY_API_KEY_OPENAI);
-    setApiKey(keyToLoad || '');
-  }, [apiProvider]);
-
   // Create share link
   const handleCreateLink = useCallback(async () => {
     const encoded = encodeTextForUrl(text);
@@ -190,54 +189,19 @@ function AppContent() {
     }
   }, [text]);
 
-  const handleSaveKey = (key: string, provider: ApiProvider) => {
-    // Save to provider-specific key
-    if (provider === 'gemini') {
-      localStorage.setItem(STORAGE_KEY_API_KEY_GEMINI, key);
-    } else {
-      localStorage.setItem(STORAGE_KEY_API_KEY_OPENAI, key);
-    }
-    localStorage.setItem(STORAGE_KEY_CURRENT_PROVIDER, provider);
-    setApiKey(key);
-    setApiProvider(provider);
+  const handleSaveRouting = (newRouting: ProviderRouting) => {
+    // Keys and provider settings are saved by the modal itself
+    saveRouting(newRouting);
+    setRouting(newRouting);
   };
 
   const handleSaveText = () => {
     setText(inputText);
     // Always persist current practice text, including texts loaded via URL
-    localStorage.setItem(STORAGE_KEY_TEXT, inputText);
+    writeItem(inputTextItem, inputText);
     
     // Save to history (independent of URL status)
-    if (inputText.trim() && inputText !== DEFAULT_TEXT) {
-      try {
-        const historyStr = localStorage.getItem(STORAGE_KEY_HISTORY);
-        const history: Array<{text: string, timestamp: number, preview: string}> = historyStr ? JSON.parse(historyStr) : [];
-        
-        // Create preview (first 100 chars)
-        const preview = inputText.substring(0, 100) + (inputText.length > 100 ? '...' : '');
-        
-        // Check if this exact text already exists in history
-        const existingIndex = history.findIndex(item => item.text === inputText);
-        if (existingIndex !== -1) {
-          // Update timestamp and preview of existing entry
-          history[existingIndex].timestamp = Date.now();
-          history[existingIndex].preview = preview;
-        } else {
-          // Add new entry at the beginning
-          history.unshift({
-            text: inputText,
-            timestamp: Date.now(),
-            preview
-          });
-        }
-        
-        // Keep only the last 50 entries
-        const trimmedHistory = history.slice(0, 50);
-        localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(trimmedHistory));
-      } catch (error) {
-        console.error('Failed to save to history:', error);
-      }
-    }
+    saveToHistory(inputText);
     
     setIsFromUrl(false); // After saving, treat as local content
     setMode('read');
@@ -256,8 +220,13 @@ function AppContent() {
     setApiStatus({ isLoading: false, error: null, operation: null });
   };
 
-  const handleApiError = (error: string) => {
-    setApiStatus({ isLoading: false, error, operation: null });
+  const handleApiError = (error: unknown) => {
+    // Show a localized message rather than the raw SDK error
+    setApiStatus({ isLoading: false, error: getErrorMessage(error, t), operation: null });
+    // Key problems can only be fixed in settings, so take the user there
+    if (error instanceof LLMError && (error.kind === 'configuration' || error.kind === 'invalidKey')) {
+      setIsKeyModalOpen(true);
+    }
     // Auto-clear error after 5 seconds
     setTimeout(() => {
       setApiStatus(prev => ({ ...prev, error: null }));
@@ -269,9 +238,12 @@ function AppContent() {
       <ApiKeyModal 
         isOpen={isKeyModalOpen} 
         onClose={() => setIsKeyModalOpen(false)} 
-        onSave={handleSaveKey}
-        existingKey={apiKey}
-        existingProvider={apiProvider}
+        onSave={handleSaveRouting}
+        existingRouting={routing}
+      />
+      <BackupModal
+        isOpen={isBackupModalOpen}
+        onClose={() => setIsBackupModalOpen(false)}
       />
 
       {/* Header */}
@@ -287,6 +259,33 @@ function AppContent() {
           </a>
           
           <div className="flex items-center space-x-3">
+             {/* Review Button */}
+             <button
+                onClick={() => setMode('review')}
+                className={`p-2 rounded-full transition-colors ${mode === 'review' ? 'bg-brand-100 text-brand-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                title={t.app.review}
+             >
+                <GraduationCap size={20} />
+             </button>
+
+             {/* Vocabulary Button */}
+             <button
+                onClick={() => setMode('vocabulary')}
+                className={`p-2 rounded-full transition-colors ${mode === 'vocabulary' ? 'bg-brand-100 text-brand-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                title={t.app.vocabulary}
+             >
+                <BookMarked size={20} />
+             </button>
+
+             {/* Statistics Button */}
+             <button
+                onClick={() => setMode('stats')}
+                className={`p-2 rounded-full transition-colors ${mode === 'stats' ? 'bg-brand-100 text-brand-700' : 'text-slate-500 hover:bg-slate-100'}`}
+                title={t.app.stats}
+             >
+                <BarChart3 size={20} />
+             </button>
+
              {/* Explore Button */}
              <a
                 href="/explore.html"
@@ -306,13 +305,22 @@ function AppContent() {
                 <Info size={20} />
              </a>
 
+             {/* Backup Button */}
+             <button
+                onClick={() => setIsBackupModalOpen(true)}
+                className="p-2 rounded-full text-slate-500 hover:bg-slate-100 transition-colors"
+                title={t.app.backup}
+             >
+                <DatabaseBackup size={20} />
+             </button>
+
              {/* API Key Button */}
              <button
                 onClick={() => setIsKeyModalOpen(true)}
-                className={`p-2 rounded-full transition-colors ${!apiKey ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'text-slate-500 hover:bg-slate-100'}`}
+                className={`p-2 rounded-full transition-colors ${!isKeyConfigured ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'text-slate-500 hover:bg-slate-100'}`}
                 title={t.app.configureApiKey}
              >
-                {!apiKey ? <KeyRound size={20} className="animate-pulse" /> : <Settings size={20} />}
+                {!isKeyConfigured ? <KeyRound size={20} className="animate-pulse" /> : <Settings size={20} />}
              </button>
 
              {/* Create Link Button */}
@@ -344,6 +352,11 @@ function AppContent() {
               >
                 <Edit3 className="w-4 h-4" />
               </Button>
+            ) : mode === 'vocabulary' || mode === 'review' || mode === 'placement' || mode === 'stats' || mode === 'sentences' ? (
+               <Button variant="secondary" size="sm" onClick={() => setMode('read')}>
+                 <BookOpen className="w-4 h-4 mr-2" />
+                 {t.app.backToReading}
+               </Button>
             ) : (
                 <div className="flex space-x-2">
                      <Button variant="ghost" size="sm" onClick={handleCancelEdit}>
@@ -379,7 +392,7 @@ function AppContent() {
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto">
         <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-            {!apiKey && mode === 'read' && (
+            {!isKeyConfigured && mode === 'read' && (
                 <div className="mb-6 bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-center justify-between animate-in slide-in-from-top-2">
                     <div className="flex items-center gap-3">
                         <KeyRound className="text-amber-500" />
@@ -394,6 +407,21 @@ function AppContent() {
                 </div>
             )}
 
+            {showPlacementPrompt && (
+                <div className="mb-6 bg-brand-50 border border-brand-200 rounded-lg p-4 flex items-center justify-between animate-in slide-in-from-top-2">
+                    <div className="flex items-center gap-3">
+                        <Target className="text-brand-500" />
+                        <div>
+                            <p className="text-sm font-medium text-brand-900">{t.placement.promptTitle}</p>
+                            <p className="text-xs text-brand-700">{t.placement.promptMessage}</p>
+                        </div>
+                    </div>
+                    <Button size="sm" variant="secondary" onClick={() => setMode('placement')}>
+                        {t.placement.start}
+                    </Button>
+                </div>
+            )}
+
             {mode === 'edit' ? (
                 <div className="bg-white rounded-xl shadow-sm p-6 max-w-3xl mx-auto animate-in fade-in duration-300">
                     <div className="flex justify-between items-center mb-4">
@@ -435,12 +463,37 @@ function AppContent() {
                         <span>{inputText.length} {t.app.chars}</span>
                     </div>
                 </div>
+            ) : mode === 'vocabulary' ? (
+                <VocabularyPage
+                    onStartReview={() => setMode('review')}
+                    onStartPlacement={() => setMode('placement')}
+                    onStartSentences={() => setMode('sentences')}
+                />
+            ) : mode === 'stats' ? (
+                <StatsDashboard />
+            ) : mode === 'placement' ? (
+                <PlacementTest onExit={() => setMode('read')} />
+            ) : mode === 'sentences' ? (
+                <SentenceWriting
+                    routing={routing}
+                    onMissingKey={() => setIsKeyModalOpen(true)}
+                    onApiStart={handleApiStart}
+                    onApiSuccess={handleApiSuccess}
+                    onApiError={handleApiError}
+                />
+            ) : mode === 'review' ? (
+                <ReviewSession
+                    routing={routing}
+                    onExit={() => setMode('read')}
+                    onApiStart={handleApiStart}
+                    onApiSuccess={handleApiSuccess}
+                    onApiError={handleApiError}
+                />
             ) : (
                 <div className="animate-in slide-in-from-bottom-2 duration-500">
                     <Reader 
                         rawText={text} 
-                        apiKey={apiKey}
-                        provider={apiProvider}
+                        routing={routing}
                         onMissingKey={() => setIsKeyModalOpen(true)}
                         onApiStart={handleApiStart}
                         onApiSuccess={handleApiSuccess}
@@ -0,0 +1,190 @@
+import { Download, Loader2, X } from 'lucide-react';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { AnkiExportFilter, createAnkiExport, filterVocabulary, MasteryFilter } from '../services/ankiExport';
+import { VocabularyEntry } from '../types';
+import { Button } from './Button';
+
+interface AnkiExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: VocabularyEntry[];
+}
+
+// "YYYY-MM-DD" from a date input as a local timestamp (start or end of that day)
+function parseDate(value: string, endOfDay: boolean): number | null {
+  if (!value) return null;
+  const date = new Date(`${value}T00:00:00`);
+  if (isNaN(date.getTime())) return null;
+  if (endOfDay) date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+export const AnkiExportModal: React.FC<AnkiExportModalProps> = ({ isOpen, onClose, entries }) => {
+  const { t } = useLanguage();
+  const [textHash, setTextHash] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [mastery, setMastery] = useState<MasteryFilter>('all');
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setMessage(null);
+      setIsExporting(false);
+    }
+  }, [isOpen]);
+
+  // Texts the vocabulary was looked up in, most recent first
+  const texts = useMemo(() => {
+    const byHash = new Map<string, { preview: string; addedAt: number }>();
+    for (const entry of entries) {
+      for (const source of entry.sources) {
+        const existing = byHash.get(source.textHash);
+        if (!existing || source.addedAt > existing.addedAt) {
+          byHash.set(source.textHash, { preview: source.preview, addedAt: source.addedAt });
+        }
+      }
+    }
+    return [...byHash.entries()].sort((a, b) => b[1].addedAt - a[1].addedAt);
+  }, [entries]);
+
+  const filter: AnkiExportFilter = {
+    textHash: textHash || null,
+    from: parseDate(from, false),
+    to: parseDate(to, true),
+    mastery,
+  };
+  const matching = filterVocabulary(entries, filter);
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const result = await createAnkiExport(matching, { includeAudio });
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `philingo-anki-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setMessage({
+        type: 'success',
+        text: t.ankiExport.success
+          .replace('{notes}', String(result.notes))
+          .replace('{audio}', String(result.audioFiles)),
+      });
+    } catch (error) {
+      console.error("Failed to export to Anki:", error);
+      setMessage({ type: 'error', text: t.ankiExport.failed + String(error) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <Download className="w-5 h-5 text-brand-600" />
+            <h2 className="font-semibold text-lg">{t.ankiExport.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-slate-500">{t.ankiExport.description}</p>
+
+          {/* Text */}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">{t.ankiExport.text}</label>
+            <select
+              value={textHash}
+              onChange={(e) => setTextHash(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+            >
+              <option value="">{t.ankiExport.allTexts}</option>
+              {texts.map(([hash, { preview }]) => (
+                <option key={hash} value={hash}>
+                  {preview ? (preview.length > 60 ? preview.substring(0, 60) + '…' : preview) : hash}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Date range */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">{t.ankiExport.from}</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-slate-700">{t.ankiExport.to}</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          {/* Mastery */}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-slate-700">{t.ankiExport.mastery}</label>
+            <select
+              value={mastery}
+              onChange={(e) => setMastery(e.target.value as MasteryFilter)}
+              className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+            >
+              <option value="all">{t.ankiExport.masteryAll}</option>
+              <option value="learning">{t.ankiExport.masteryLearning}</option>
+              <option value="mastered">{t.ankiExport.masteryMastered}</option>
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeAudio}
+              onChange={(e) => setIncludeAudio(e.target.checked)}
+              className="rounded text-brand-600 focus:ring-brand-500"
+            />
+            {t.ankiExport.includeAudio}
+          </label>
+
+          {message && (
+            <div className={`text-xs p-3 rounded-lg ${
+              message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-slate-500">
+              {t.ankiExport.matching.replace('{count}', String(matching.length))}
+            </span>
+            <Button onClick={handleExport} disabled={matching.length === 0 || isExporting}>
+              {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+              {t.ankiExport.exportButton}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,52 +1,95 @@
 import { ExternalLink, Eye, EyeOff, Key, X } from 'lucide-react';
 import React, { useEffect, useState } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
-import { LLMProvider } from '../types';
+import { Translations } from '../i18n/translations';
+import { findProvider, getProvider, listProviders } from '../services/providerRegistry';
+import { loadApiKey, ProviderRouting, ROUTED_CAPABILITIES, saveApiKey } from '../services/providerSettings';
+import { LLMProvider, ProviderCapability } from '../types';
 import { Button } from './Button';
 
-export type ApiProvider = 'gemini' | 'openai';
-
-const STORAGE_KEY_API_KEY_GEMINI = 'philingo_api_key_gemini';
-const STORAGE_KEY_API_KEY_OPENAI = 'philingo_api_key_openai';
-
 interface ApiKeyModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (key: string, provider: ApiProvider) => void;
-  existingKey?: string;
-  existingProvider?: ApiProvider;
+  onSave: (routing: ProviderRouting) => void;
+  existingRouting: ProviderRouting;
 }
 
-export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, existingKey = '', existingProvider = 'gemini' }) => {
-  // Separate key states for each provider
-  const [geminiKey, setGeminiKey] = useState('');
-  const [openaiKey, setOpenaiKey] = useState('');
-  const [provider, setProvider] = useState<ApiProvider>(existingProvider);
+// Label for each routed capability
+const getCapabilityLabel = (t: Translations, capability: ProviderCapability): string => {
+  const labels: Record<ProviderCapability, string> = {
+    annotation: t.apiKeyModal.capabilityAnnotation,
+    tts: t.apiKeyModal.capabilityTts,
+    pronunciation: t.apiKeyModal.capabilityPronunciation,
+    textGeneration: t.apiKeyModal.capabilityTextGeneration,
+  };
+  return labels[capability];
+};
+
+export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, existingRouting }) => {
+  // Keys and settings are kept for every provider, so several can be active at once
+  const [keys, setKeys] = useState<Record<LLMProvider, string>>({});
+  // Provider-specific settings (e.g. custom endpoint base URL and models)
+  const [settings, setSettings] = useState<Record<LLMProvider, Record<string, string>>>({});
+  const [routing, setRouting] = useState<ProviderRouting>(existingRouting);
+  // Provider whose key/settings are being edited
+  const [provider, setProvider] = useState<LLMProvider>(existingRouting.annotation);
   const [showKey, setShowKey] = useState(false);
   const { t } = useLanguage();
 
   // Load keys from localStorage when modal opens
   useEffect(() => {
     if (isOpen) {
-      setProvider(existingProvider);
-      // Load both keys from localStorage
-      const storedGeminiKey = localStorage.getItem(STORAGE_KEY_API_KEY_GEMINI) || '';
-      const storedOpenaiKey = localStorage.getItem(STORAGE_KEY_API_KEY_OPENAI) || '';
-      setGeminiKey(storedGeminiKey);
-      setOpenaiKey(storedOpenaiKey);
+      setRouting(existingRouting);
+      setProvider(existingRouting.annotation);
+      // Load every provider's key from localStorage
+      const storedKeys: Record<LLMProvider, string> = {};
+      const storedSettings: Record<LLMProvider, Record<string, string>> = {};
+      listProviders().forEach(p => {
+        storedKeys[p.id] = loadApiKey(p.id);
+        if (p.loadSettings) {
+          storedSettings[p.id] = p.loadSettings();
+        }
+      });
+      setKeys(storedKeys);
+      setSettings(storedSettings);
     }
-  }, [existingProvider, isOpen]);
+  }, [existingRouting, isOpen]);
 
   if (!isOpen) return null;
 
   // Get current key based on selected provider
-  const currentKey = provider === 'gemini' ? geminiKey : openaiKey;
-  const setCurrentKey = provider === 'gemini' ? setGeminiKey : setOpenaiKey;
+  const definition = getProvider(provider);
+  const currentKey = keys[provider] || '';
+  const setCurrentKey = (key: string) => setKeys(prev => ({ ...prev, [provider]: key }));
+  const currentSettings = settings[provider] || {};
+  const setSetting = (id: string, value: string) => setSettings(prev => ({
+    ...prev,
+    [provider]: { ...prev[provider], [id]: value }
+  }));
+
+  // A provider is ready when its key (if required) and required settings are filled in
+  const isProviderReady = (id: LLMProvider): boolean => {
+    const p = findProvider(id);
+    if (!p) return false;
+    const hasKey = p.keyMode !== 'required' || !!(keys[id] || '').trim();
+    const hasSettings = (p.settingFields || [])
+      .every(field => !field.required || (settings[id]?.[field.id] || '').trim());
+    return hasKey && hasSettings;
+  };
+
+  // Every provider in use must be ready before saving
+  const canSave = ROUTED_CAPABILITIES.every(capability => isProviderReady(routing[capability]));
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (currentKey.trim()) {
-      onSave(currentKey.trim(), provider);
+    if (canSave) {
+      listProviders().forEach(p => {
+        saveApiKey(p.id, (keys[p.id] || '').trim());
+        if (p.saveSettings && settings[p.id]) {
+          p.saveSettings(settings[p.id]);
+        }
+      });
+      onSave(routing);
       onClose();
     }
   };
@@ -64,89 +107,125 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-slate-700">
               API Provider
             </label>
-            <div className="flex gap-2">
-              <button
-                type="button"
-                onClick={() => setProvider('gemini')}
-                className={`flex-1 py-2 px-3 rounded-lg border text-sm font-medium transition-all ${
-                  provider === 'gemini'
-                    ? 'border-brand-500 bg-brand-50 text-brand-700'
-                    : 'border-slate-300 text-slate-600 hover:bg-slate-50'
-                }`}
-              >
-                Google Gemini
-              </button>
-              <button
-                type="button"
-                onClick={() => setProvider('openai')}
-                className={`flex-1 py-2 px-3 rounded-lg border text-sm font-medium transition-all ${
-                  provider === 'openai'
-                    ? 'border-brand-500 bg-brand-50 text-brand-700'
-                    : 'border-slate-300 text-slate-600 hover:bg-slate-50'
-                }`}
-              >
-                OpenAI
-              </button>
+            <div className="grid grid-cols-2 gap-2">
+              {listProviders().map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => setProvider(p.id)}
+                  className={`py-2 px-3 rounded-lg border text-sm font-medium transition-all ${
+                    provider === p.id
+                      ? 'border-brand-500 bg-brand-50 text-brand-700'
+                      : 'border-slate-300 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {p.name}
+                </button>
+              ))}
             </div>
           </div>
 
-          <div className="space-y-2">
-            <label htmlFor="apiKey" className="block text-sm font-medium text-slate-700">
-              {provider === 'gemini' ? 'Google Gemini API Key' : 'OpenAI API Key'}
-            </label>
-            <div className="relative">
-              <input
-                id="apiKey"
-                type={showKey ? "text" : "password"}
-                value={currentKey}
-                onChange={(e) => setCurrentKey(e.target.value)}
-                placeholder={provider === 'gemini' ? 'AIzaSy...' : 'sk-...'}
-                className="w-full pl-4 pr-10 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all outline-none font-mono text-sm"
-                autoFocus
-              />
-              <button
-                type="button"
-                onClick={() => setShowKey(!showKey)}
-                className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
-              >
-                {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
-              </button>
+          {definition.keyMode !== 'none' && (
+            <div className="space-y-2">
+              <label htmlFor="apiKey" className="block text-sm font-medium text-slate-700">
+                {definition.name} API Key{definition.keyMode === 'optional' ? ' (optional)' : ''}
+              </label>
+              <div className="relative">
+                <input
+                  id="apiKey"
+                  type={showKey ? "text" : "password"}
+                  value={currentKey}
+                  onChange={(e) => setCurrentKey(e.target.value)}
+                  placeholder={definition.keyPlaceholder}
+                  className="w-full pl-4 pr-10 py-2.5 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all outline-none font-mono text-sm"
+                  autoFocus
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowKey(!showKey)}
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 hover:text-slate-600"
+                >
+                  {showKey ? <EyeOff size={16} /> : <Eye size={16} />}
+                </button>
+              </div>
+              <p className="text-xs text-slate-500">
+                Your key is stored locally in your browser and sent directly to {definition.vendor} servers.
+              </p>
             </div>
+          )}
+
+          {definition.keyMode === 'none' && (
             <p className="text-xs text-slate-500">
-              Your key is stored locally in your browser and sent directly to {provider === 'gemini' ? 'Google' : 'OpenAI'} servers.
+              {definition.name} runs entirely in your browser. No API key is needed.
             </p>
-          </div>
+          )}
+
+          {/* Provider-specific settings */}
+          {definition.settingFields?.map(field => (
+            <div key={field.id} className="space-y-1">
+              <label htmlFor={`setting-${field.id}`} className="block text-sm font-medium text-slate-700">
+                {field.label}
+              </label>
+              <input
+                id={`setting-${field.id}`}
+                type="text"
+                value={currentSettings[field.id] || ''}
+                onChange={(e) => setSetting(field.id, e.target.value)}
+                placeholder={field.placeholder}
+                className="w-full px-4 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 transition-all outline-none font-mono text-sm"
+              />
+            </div>
+          ))}
 
           {/* Provider-specific help */}
-          <div className="bg-blue-50 text-blue-800 text-xs p-3 rounded-lg flex items-start gap-2">
-            <ExternalLink className="w-4 h-4 mt-0.5 flex-shrink-0" />
-            <p>
-              Don't have a key? Get one at{' '}
-              {provider === 'gemini' ? (
+          {definition.keyUrl && (
+            <div className="bg-blue-50 text-blue-800 text-xs p-3 rounded-lg flex items-start gap-2">
+              <ExternalLink className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <p>
+                Don't have a key? Get one at{' '}
                 <a
-                  href="https://aistudio.google.com/app/apikey"
+                  href={definition.keyUrl}
                   target="_blank"
                   rel="noreferrer"
                   className="underline hover:text-blue-900 font-medium"
                 >
-                  Google AI Studio
+                  {definition.keyUrlLabel}
                 </a>
-              ) : (
-                <a
-                  href="https://platform.openai.com/api-keys"
-                  target="_blank"
-                  rel="noreferrer"
-                  className="underline hover:text-blue-900 font-medium"
+              </p>
+            </div>
+          )}
+
+          {/* Per-capability routing */}
+          <div className="space-y-2 pt-2 border-t border-slate-100">
+            <label className="block text-sm font-medium text-slate-700">
+              {t.apiKeyModal.routingTitle}
+            </label>
+            {ROUTED_CAPABILITIES.map(capability => (
+              <div key={capability} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-slate-600">{getCapabilityLabel(t, capability)}</span>
+                <select
+                  value={routing[capability]}
+                  onChange={(e) => setRouting(prev => ({ ...prev, [capability]: e.target.value }))}
+                  className={`text-sm bg-slate-50 border rounded-md px-2 py-1 text-slate-700 focus:outline-none focus:ring-1 focus:ring-brand-500 ${
+                    isProviderReady(routing[capability]) ? 'border-slate-200' : 'border-amber-400'
+                  }`}
                 >
-                  OpenAI Platform
-                </a>
-              )}
-            </p>
+                  {listProviders()
+                    .filter(p => p.capabilities.includes(capability) || p.id === routing[capability])
+                    .map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                </select>
+              </div>
+            ))}
+            {!canSave && (
+              <p className="text-xs text-amber-700">{t.apiKeyModal.routingIncomplete}</p>
+            )}
           </div>
 
           <div className="bg-amber-50 text-amber-800 text-xs p-3 rounded-lg">
@@ -166,7 +245,7 @@ export const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSav
           </div>
 
           <div className="flex justify-end pt-2">
-            <Button type="submit" disabled={!currentKey.trim()}>
+            <Button type="submit" disabled={!canSave}>
               {t.apiKeyModal.saveButton}
             </Button>
           </div>
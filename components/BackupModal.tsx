@@ -0,0 +1,165 @@
+import { DatabaseBackup, Download, Upload, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { BackupArchive, BackupFormatError, createBackup, importBackup, ImportMode, parseBackup } from '../services/backupService';
+import { Button } from './Button';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setArchive(null);
+      setFileName('');
+      setMode('merge');
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleExport = () => {
+    const backup = createBackup();
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `philingo-backup-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    setMessage(null);
+    setFileName(file.name);
+    try {
+      setArchive(parseBackup(await file.text()));
+    } catch (error) {
+      setArchive(null);
+      const reason = error instanceof BackupFormatError ? error.message : String(error);
+      setMessage({ type: 'error', text: t.backup.importFailed + reason });
+    }
+  };
+
+  const handleImport = () => {
+    if (!archive) return;
+    if (mode === 'replace' && !window.confirm(t.backup.replaceConfirm)) return;
+
+    try {
+      const summary = importBackup(archive, mode);
+      setMessage({
+        type: 'success',
+        text: t.backup.importSuccess
+          .replace('{words}', String(summary.words))
+          .replace('{known}', String(summary.knownWords))
+          .replace('{history}', String(summary.historyEntries))
+          .replace('{annotations}', String(summary.annotations)),
+      });
+      setArchive(null);
+    } catch (error) {
+      console.error("Failed to import backup:", error);
+      setMessage({ type: 'error', text: t.backup.importFailed + String(error) });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <DatabaseBackup className="w-5 h-5 text-brand-600" />
+            <h2 className="font-semibold text-lg">{t.backup.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Export */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-700">{t.backup.exportTitle}</h3>
+            <p className="text-xs text-slate-500">{t.backup.exportDesc}</p>
+            <Button variant="secondary" size="sm" onClick={handleExport}>
+              <Download className="w-4 h-4 mr-2" />
+              {t.backup.exportButton}
+            </Button>
+          </div>
+
+          {/* Import */}
+          <div className="space-y-2 pt-4 border-t border-slate-100">
+            <h3 className="text-sm font-medium text-slate-700">{t.backup.importTitle}</h3>
+            <p className="text-xs text-slate-500">{t.backup.importDesc}</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <div className="flex items-center gap-3">
+              <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                {t.backup.chooseFile}
+              </Button>
+              {fileName && <span className="text-xs text-slate-500 truncate">{fileName}</span>}
+            </div>
+
+            {archive && (
+              <div className="space-y-2 pt-1">
+                {(['merge', 'replace'] as ImportMode[]).map(option => (
+                  <label key={option} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="importMode"
+                      checked={mode === option}
+                      onChange={() => setMode(option)}
+                      className="text-brand-600 focus:ring-brand-500"
+                    />
+                    {option === 'merge' ? t.backup.modeMerge : t.backup.modeReplace}
+                  </label>
+                ))}
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleImport}>
+                    {t.backup.importButton}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {message && (
+              <div className={`text-xs p-3 rounded-lg ${
+                message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-700'
+              }`}>
+                <p>{message.text}</p>
+                {message.type === 'success' && (
+                  <button
+                    onClick={() => window.location.reload()}
+                    className="mt-1 underline font-medium hover:text-green-900"
+                  >
+                    {t.backup.reload}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
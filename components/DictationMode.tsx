@@ -0,0 +1,276 @@
+import { ChevronLeft, ChevronRight, Headphones, Loader2, RotateCcw, Snail, Volume2 } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { diffWords, DiffToken, getDictationResult, saveDictationResult, scoreDiff } from '../services/dictationService';
+import { isAbortError } from '../services/llmErrors';
+import { fetchTTSAudio } from '../services/llmService';
+import { isCapabilityConfigured, ProviderRouting } from '../services/providerSettings';
+import { readItem, voiceItem } from '../services/storage';
+import { DictationResult } from '../types';
+import { Button } from './Button';
+
+interface DictationModeProps {
+  sentences: string[];
+  routing: ProviderRouting;
+  onApiStart?: (operation: string) => void;
+  onApiSuccess?: () => void;
+  onApiError?: (error: unknown) => void;
+}
+
+// Playback rate of the slow-down control
+const SLOW_RATE = 0.7;
+
+const DIFF_CLASSES: Record<DiffToken['kind'], string> = {
+  correct: 'text-green-700',
+  misspelled: 'text-amber-700 bg-amber-50',
+  missing: 'text-red-700 bg-red-50 underline decoration-dotted',
+  extra: 'text-slate-400 line-through',
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const DictationMode: React.FC<DictationModeProps> = ({ sentences, routing, onApiStart, onApiSuccess, onApiError }) => {
+  const { t } = useLanguage();
+  // Sentences with at least one word to type
+  const items = useMemo(() => sentences.map(s => s.trim()).filter(s => /[a-zA-Z]/.test(s)), [sentences]);
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [diff, setDiff] = useState<DiffToken[] | null>(null);
+  const [result, setResult] = useState<DictationResult | null>(null);
+  const [isSlow, setIsSlow] = useState(false);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const ttsAbortRef = useRef<AbortController | null>(null);
+  const canUseLLMTTS = isCapabilityConfigured('tts', routing);
+  const sentence = items[position];
+
+  const stopAudio = useCallback(() => {
+    ttsAbortRef.current?.abort();
+    ttsAbortRef.current = null;
+    window.speechSynthesis.cancel();
+    audioRef.current?.pause();
+    audioRef.current = null;
+  }, []);
+
+  const speakWithBrowserTTS = (text: string, rate: number) => {
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = rate;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  // Play the sentence with the configured TTS provider, falling back to browser TTS
+  const playSentence = async (slow: boolean = isSlow) => {
+    if (!sentence) return;
+    stopAudio();
+    const rate = slow ? SLOW_RATE : 1;
+    if (!canUseLLMTTS) {
+      speakWithBrowserTTS(sentence, rate);
+      return;
+    }
+
+    const controller = new AbortController();
+    ttsAbortRef.current = controller;
+    setIsLoadingAudio(true);
+    try {
+      onApiStart?.('Generating audio');
+      const { data, mimeType } = await fetchTTSAudio(sentence, readItem(voiceItem(routing.tts)) ?? undefined, controller.signal);
+      onApiSuccess?.();
+
+      const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+      const audio = new Audio(url);
+      audio.playbackRate = rate;
+      audio.onended = () => URL.revokeObjectURL(url);
+      audio.onerror = () => {
+        URL.revokeObjectURL(url);
+        speakWithBrowserTTS(sentence, rate);
+      };
+      audioRef.current = audio;
+      await audio.play();
+    } catch (error) {
+      if (isAbortError(error)) {
+        onApiSuccess?.();
+        return;
+      }
+      onApiError?.(error);
+      speakWithBrowserTTS(sentence, rate);
+    } finally {
+      if (ttsAbortRef.current === controller) {
+        ttsAbortRef.current = null;
+        setIsLoadingAudio(false);
+      }
+    }
+  };
+
+  // Each sentence is played as soon as it is shown (only when the sentence changes: the API
+  // callbacks change on every parent render)
+  useEffect(() => {
+    setAnswer('');
+    setDiff(null);
+    setResult(sentence ? getDictationResult(sentence) : null);
+    if (sentence) playSentence();
+  }, [sentence]);
+
+  // Stop audio when leaving dictation mode
+  useEffect(() => stopAudio, [stopAudio]);
+
+  // Keep the index valid when the text changes
+  useEffect(() => {
+    setPosition(0);
+  }, [items]);
+
+  const handleCheck = () => {
+    if (!sentence || !answer.trim() || diff) return;
+    const newDiff = diffWords(sentence, answer);
+    setDiff(newDiff);
+    setResult(saveDictationResult(sentence, scoreDiff(newDiff)));
+  };
+
+  const handleRetry = () => {
+    setAnswer('');
+    setDiff(null);
+    playSentence();
+  };
+
+  const handleToggleSlow = () => {
+    setIsSlow(!isSlow);
+    playSentence(!isSlow);
+  };
+
+  const goTo = (index: number) => {
+    stopAudio();
+    setPosition(Math.max(0, Math.min(items.length - 1, index)));
+  };
+
+  if (!sentence) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
+        <Headphones size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.dictation.emptyTitle}</h2>
+        <p className="text-slate-500 text-center max-w-md">{t.dictation.emptyMessage}</p>
+      </div>
+    );
+  }
+
+  const score = diff ? scoreDiff(diff) : null;
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.dictation.title}</h2>
+          <p className="text-sm text-slate-500">{t.dictation.description}</p>
+        </div>
+        <div className="flex items-center gap-1 text-sm text-slate-500">
+          <button
+            onClick={() => goTo(position - 1)}
+            disabled={position === 0}
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+            title={t.dictation.previous}
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <span>{position + 1} / {items.length}</span>
+          <button
+            onClick={() => goTo(position + 1)}
+            disabled={position === items.length - 1}
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-30"
+            title={t.dictation.next}
+          >
+            <ChevronRight size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Playback */}
+        <div className="flex items-center gap-2">
+          <Button variant="secondary" onClick={() => playSentence()} disabled={isLoadingAudio}>
+            {isLoadingAudio ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Volume2 className="w-4 h-4 mr-2" />}
+            {t.dictation.replay}
+          </Button>
+          <Button variant={isSlow ? 'primary' : 'secondary'} onClick={handleToggleSlow} disabled={isLoadingAudio}>
+            <Snail className="w-4 h-4 mr-2" />
+            {t.dictation.slow}
+          </Button>
+          {result && (
+            <span className="ml-auto text-xs text-slate-500">
+              {t.dictation.previousResult
+                .replace('{best}', percent(result.bestScore))
+                .replace('{count}', String(result.attempts))}
+            </span>
+          )}
+        </div>
+
+        {/* Answer */}
+        <textarea
+          key={position}
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleCheck();
+            }
+          }}
+          disabled={diff !== null}
+          placeholder={t.dictation.placeholder}
+          rows={3}
+          autoFocus
+          className="w-full px-4 py-2 font-serif text-lg border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-none disabled:bg-slate-50"
+        />
+
+        {!diff ? (
+          <div className="flex justify-end">
+            <Button onClick={handleCheck} disabled={!answer.trim()}>{t.dictation.check}</Button>
+          </div>
+        ) : (
+          <div className="space-y-4 animate-in fade-in duration-200">
+            <div className="p-4 bg-slate-50 rounded-lg space-y-3">
+              <div className="flex items-baseline justify-between">
+                <span className={`text-2xl font-semibold ${score === 1 ? 'text-green-600' : score !== null && score >= 0.7 ? 'text-amber-600' : 'text-red-600'}`}>
+                  {percent(score ?? 0)}
+                </span>
+                <div className="flex gap-3 text-xs">
+                  <span className={DIFF_CLASSES.misspelled}>{t.dictation.misspelled}</span>
+                  <span className={DIFF_CLASSES.missing}>{t.dictation.missing}</span>
+                  <span className={DIFF_CLASSES.extra}>{t.dictation.extra}</span>
+                </div>
+              </div>
+
+              {/* Word-level diff: misspelled words show what was typed, then the correct word */}
+              <p className="font-serif text-lg leading-relaxed">
+                {diff.map((token, i) => (
+                  <React.Fragment key={i}>
+                    {token.kind === 'misspelled' ? (
+                      <span className={`rounded px-0.5 ${DIFF_CLASSES.misspelled}`}>
+                        <span className="line-through opacity-60">{token.typed}</span> {token.expected}
+                      </span>
+                    ) : (
+                      <span className={`rounded px-0.5 ${DIFF_CLASSES[token.kind]}`}>
+                        {token.kind === 'extra' ? token.typed : token.expected}
+                      </span>
+                    )}{' '}
+                  </React.Fragment>
+                ))}
+              </p>
+              <p className="text-sm font-serif text-slate-500">{sentence}</p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={handleRetry}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {t.dictation.retry}
+              </Button>
+              {position < items.length - 1 && (
+                <Button onClick={() => goTo(position + 1)}>{t.dictation.next}</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import { AlertCircle, Play, Square, Trash2, TrendingUp } from 'lucide-react';
 import React, { useRef, useState } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
+import { getAudio } from '../services/audioCache';
 import { PronunciationFeedback } from '../types';
 
 interface FeedbackPanelProps {
@@ -46,8 +47,8 @@ export const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ feedbackList, onCl
     synth.speak(utterance);
   };
 
-  const handlePlayRecording = (feedback: PronunciationFeedback) => {
-    if (!feedback.audioUrl) return;
+  const handlePlayRecording = async (feedback: PronunciationFeedback) => {
+    if (!feedback.audioUrl && !feedback.recordingKey) return;
 
     // If already playing this one, stop it
     if (playingId === feedback.id) {
@@ -65,13 +66,26 @@ export const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ feedbackList, onCl
       audioRef.current = null;
     }
 
+    // Load stored recordings from the audio cache
+    let url = feedback.audioUrl;
+    if (!url) {
+      const blob = await getAudio(feedback.recordingKey!);
+      if (!blob) return;
+      url = URL.createObjectURL(blob);
+    }
+    const revoke = () => {
+      if (url !== feedback.audioUrl) URL.revokeObjectURL(url!);
+    };
+
     // Play the new audio
-    const audio = new Audio(feedback.audioUrl);
+    const audio = new Audio(url);
     audio.onended = () => {
+      revoke();
       setPlayingId(null);
       audioRef.current = null;
     };
     audio.onerror = () => {
+      revoke();
       setPlayingId(null);
       audioRef.current = null;
     };
@@ -120,7 +134,7 @@ export const FeedbackPanel: React.FC<FeedbackPanelProps> = ({ feedbackList, onCl
             <div className={`px-3 py-2 flex items-center justify-between ${getScoreColor(feedback.score)}`}>
               <div className="flex items-center gap-2">
                 <span className="text-2xl font-bold">{feedback.score}</span>
-                {feedback.audioUrl && (
+                {(feedback.audioUrl || feedback.recordingKey) && (
                   <button
                     onClick={() => handlePlayRecording(feedback)}
                     className={`p-1.5 rounded-full transition-colors ${
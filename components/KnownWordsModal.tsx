@@ -0,0 +1,116 @@
+import { Check, Trash2, Upload, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { clearKnownWords, importKnownWords, loadKnownWords } from '../services/knownWordsService';
+import { Button } from './Button';
+
+interface KnownWordsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const KnownWordsModal: React.FC<KnownWordsModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [list, setList] = useState('');
+  const [count, setCount] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setList('');
+      setCount(loadKnownWords().size);
+      setMessage(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleImport = () => {
+    const added = importKnownWords(list);
+    setList('');
+    setCount(loadKnownWords().size);
+    setMessage(t.knownWords.importSuccess.replace('{count}', String(added)));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+    setList(await file.text());
+    setMessage(null);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(t.knownWords.clearConfirm)) return;
+    clearKnownWords();
+    setCount(0);
+    setMessage(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+          <div className="flex items-center gap-2 text-slate-800">
+            <Check className="w-5 h-5 text-brand-600" />
+            <h2 className="font-semibold text-lg">{t.knownWords.title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-xs text-slate-500">{t.knownWords.description}</p>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-slate-700">
+              {t.knownWords.count.replace('{count}', String(count))}
+            </span>
+            {count > 0 && (
+              <button
+                onClick={handleClear}
+                className="flex items-center gap-1 text-xs text-slate-400 hover:text-red-500 transition-colors"
+              >
+                <Trash2 size={12} />
+                {t.knownWords.clear}
+              </button>
+            )}
+          </div>
+
+          <textarea
+            value={list}
+            onChange={(e) => setList(e.target.value)}
+            placeholder={t.knownWords.placeholder}
+            rows={6}
+            className="w-full px-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-none"
+          />
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="text/plain,.txt,.csv"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {message && (
+            <div className="text-xs p-3 rounded-lg bg-green-50 text-green-800">{message}</div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4 mr-2" />
+              {t.knownWords.uploadFile}
+            </Button>
+            <Button size="sm" onClick={handleImport} disabled={!list.trim()}>
+              {t.knownWords.importButton}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
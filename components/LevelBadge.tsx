@@ -0,0 +1,35 @@
+import React from 'react';
+import { CefrLevel } from '../types';
+
+// Colors for CEFR levels, shared by the reader's level coloring and the badges
+export const LEVEL_TEXT_COLORS: Record<CefrLevel, string> = {
+  A1: 'text-emerald-700',
+  A2: 'text-emerald-700',
+  B1: 'text-sky-700',
+  B2: 'text-violet-700',
+  C1: 'text-amber-700',
+  C2: 'text-rose-700',
+};
+
+const LEVEL_BADGE_COLORS: Record<CefrLevel, string> = {
+  A1: 'bg-emerald-100 text-emerald-800',
+  A2: 'bg-emerald-100 text-emerald-800',
+  B1: 'bg-sky-100 text-sky-800',
+  B2: 'bg-violet-100 text-violet-800',
+  C1: 'bg-amber-100 text-amber-800',
+  C2: 'bg-rose-100 text-rose-800',
+};
+
+interface LevelBadgeProps {
+  level: CefrLevel;
+  title?: string;
+}
+
+export const LevelBadge: React.FC<LevelBadgeProps> = ({ level, title }) => (
+  <span
+    className={`inline-block px-1.5 py-0.5 rounded text-[10px] font-semibold font-sans leading-none ${LEVEL_BADGE_COLORS[level]}`}
+    title={title}
+  >
+    {level}
+  </span>
+);
@@ -0,0 +1,197 @@
+import { Check, Loader2, Target, X } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import {
+  answerPlacementQuestion,
+  applyPlacement,
+  estimatePlacement,
+  getPlacement,
+  nextPlacementQuestion,
+  PlacementQuestion,
+  PlacementResult,
+  PlacementState,
+  startPlacement,
+} from '../services/placementTest';
+import { CEFR_LEVELS, loadWordLevels } from '../services/wordLevelService';
+import { Button } from './Button';
+import { LevelBadge } from './LevelBadge';
+
+interface PlacementTestProps {
+  onExit: () => void;
+}
+
+type Step = 'intro' | 'question' | 'result';
+
+export const PlacementTest: React.FC<PlacementTestProps> = ({ onExit }) => {
+  const { t } = useLanguage();
+  const [isReady, setIsReady] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [step, setStep] = useState<Step>('intro');
+  const [state, setState] = useState<PlacementState>(() => startPlacement());
+  const [question, setQuestion] = useState<PlacementQuestion | null>(null);
+  const [result, setResult] = useState<{ result: PlacementResult; added: number } | null>(null);
+  const previous = getPlacement();
+
+  // The test samples words from the word level data
+  useEffect(() => {
+    let isMounted = true;
+    loadWordLevels()
+      .then(() => isMounted && setIsReady(true))
+      .catch(error => {
+        console.error("Failed to load word levels:", error);
+        if (isMounted) setLoadFailed(true);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const finish = (finalState: PlacementState) => {
+    const estimate = estimatePlacement(finalState.answers);
+    const added = applyPlacement(estimate, finalState.answers);
+    setResult({ result: estimate, added });
+    setStep('result');
+  };
+
+  const handleStart = () => {
+    const initial = startPlacement();
+    setState(initial);
+    setQuestion(nextPlacementQuestion(initial));
+    setResult(null);
+    setStep('question');
+  };
+
+  const handleAnswer = (known: boolean) => {
+    if (!question) return;
+    const next = answerPlacementQuestion(state, question, known);
+    const nextQuestion = nextPlacementQuestion(next);
+    if (next.isFinished || !nextQuestion) {
+      finish(next);
+      return;
+    }
+    setState(next);
+    setQuestion(nextQuestion);
+  };
+
+  // Keyboard answers: Y / right arrow = yes, N / left arrow = no
+  useEffect(() => {
+    if (step !== 'question') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'y' || e.key === 'ArrowRight') handleAnswer(true);
+      else if (e.key === 'n' || e.key === 'ArrowLeft') handleAnswer(false);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (step === 'intro') {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <Target size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.placement.title}</h2>
+        <p className="text-slate-500 text-center max-w-md mb-2">{t.placement.description}</p>
+        <p className="text-sm text-slate-400 text-center max-w-md mb-6">{t.placement.pseudoWordNote}</p>
+        {previous && (
+          <p className="text-sm text-slate-500 mb-6">
+            {t.placement.previousResult
+              .replace('{level}', previous.level)
+              .replace('{count}', previous.vocabularySize.toLocaleString())}
+          </p>
+        )}
+        {loadFailed && <p className="text-sm text-red-600 mb-4">{t.placement.loadFailed}</p>}
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onExit}>{t.app.backToReading}</Button>
+          <Button onClick={handleStart} disabled={!isReady}>
+            {!isReady && !loadFailed && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t.placement.start}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'result' && result) {
+    const { result: estimate, added } = result;
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <Check size={64} className="text-green-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-6">{t.placement.resultTitle}</h2>
+
+        <div className="flex gap-8 mb-6 text-center">
+          <div>
+            <div className="text-3xl font-semibold text-brand-700">{estimate.level}</div>
+            <div className="text-xs text-slate-500">{t.placement.level}</div>
+          </div>
+          <div>
+            <div className="text-3xl font-semibold text-slate-800">≈ {estimate.vocabularySize.toLocaleString()}</div>
+            <div className="text-xs text-slate-500">{t.placement.vocabularySize}</div>
+          </div>
+        </div>
+
+        {/* Known share of each band */}
+        <div className="w-full max-w-sm space-y-2 mb-6">
+          {estimate.bandScores.map((score, band) => (
+            <div key={band} className="flex items-center gap-3">
+              <LevelBadge level={CEFR_LEVELS[band]} />
+              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-brand-500" style={{ width: `${Math.round(score * 100)}%` }} />
+              </div>
+              <span className="w-10 text-right text-xs text-slate-500">{Math.round(score * 100)}%</span>
+            </div>
+          ))}
+        </div>
+
+        {!estimate.isReliable && (
+          <p className="text-sm text-amber-700 bg-amber-50 rounded-lg px-4 py-2 mb-4 max-w-md text-center">
+            {t.placement.unreliable
+              .replace('{count}', String(estimate.falseAlarms))
+              .replace('{total}', String(estimate.pseudoWords))}
+          </p>
+        )}
+        <p className="text-sm text-slate-500 mb-6 max-w-md text-center">
+          {t.placement.applied.replace('{count}', String(added)).replace('{level}', estimate.level)}
+        </p>
+
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={handleStart}>{t.placement.retake}</Button>
+          <Button onClick={onExit}>{t.app.backToReading}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const asked = state.answers.length;
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.placement.title}</h2>
+          <p className="text-sm text-slate-500">{t.placement.keyboardHint}</p>
+        </div>
+        <span className="text-sm text-slate-500">{t.placement.questionCount.replace('{count}', String(asked + 1))}</span>
+      </div>
+
+      <div className="max-w-md mx-auto flex flex-col items-center gap-8 py-8">
+        <p className="text-sm text-slate-500">{t.placement.question}</p>
+        <p className="font-serif text-4xl font-semibold text-slate-800">{question?.word}</p>
+        <div className="grid grid-cols-2 gap-3 w-full">
+          <button
+            onClick={() => handleAnswer(false)}
+            className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg border border-slate-200 text-slate-700 font-medium hover:bg-slate-50 transition-colors"
+          >
+            <X size={18} />
+            {t.placement.no}
+          </button>
+          <button
+            onClick={() => handleAnswer(true)}
+            className="flex items-center justify-center gap-2 px-4 py-3 rounded-lg border border-brand-500 bg-brand-50 text-brand-700 font-medium hover:bg-brand-100 transition-colors"
+          >
+            <Check size={18} />
+            {t.placement.yes}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
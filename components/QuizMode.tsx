@@ -0,0 +1,192 @@
+import { Check, ListChecks, RotateCcw, X } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { createQuiz, QuizQuestion } from '../services/quizService';
+import { getDueWordsInText, getVocabularyEntry, loadVocabulary, reviewWord } from '../services/wordMasteryService';
+import { Button } from './Button';
+
+interface QuizModeProps {
+  rawText: string;
+}
+
+interface QuizResult {
+  word: string;
+  correct: boolean;
+  interval: number;    // Days until the next review
+}
+
+// Questions for the text's due words, with distractors from the whole vocabulary
+const createQuestions = (rawText: string) => createQuiz(getDueWordsInText(rawText), loadVocabulary());
+
+export const QuizMode: React.FC<QuizModeProps> = ({ rawText }) => {
+  const { t } = useLanguage();
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [position, setPosition] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [results, setResults] = useState<QuizResult[]>([]);
+
+  const handleRestart = useCallback(() => {
+    setQuestions(createQuestions(rawText));
+    setPosition(0);
+    setSelected(null);
+    setResults([]);
+  }, [rawText]);
+
+  useEffect(() => {
+    handleRestart();
+  }, [handleRestart]);
+
+  const question = questions[position];
+  const isFinished = questions.length > 0 && position >= questions.length;
+
+  // The answer is recorded as a review: recognizing the word counts as recalled, a wrong choice as forgotten
+  const handleAnswer = (option: number) => {
+    if (!question || selected !== null) return;
+    const correct = option === question.answer;
+    const entry = reviewWord(question.word, correct ? 'good' : 'again');
+    setSelected(option);
+    setResults([...results, { word: question.word, correct, interval: entry?.interval ?? 0 }]);
+  };
+
+  const handleNext = () => {
+    if (selected === null) return;
+    setSelected(null);
+    setPosition(position + 1);
+  };
+
+  // Keyboard: 1-4 pick an option, Enter moves on
+  useEffect(() => {
+    if (!question) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const option = Number(e.key) - 1;
+      if (option >= 0 && option < question.options.length) handleAnswer(option);
+      else if (e.key === 'Enter') handleNext();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (questions.length === 0) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
+        <ListChecks size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.quiz.noQuestionsTitle}</h2>
+        <p className="text-slate-500 text-center max-w-md whitespace-pre-line">{t.quiz.noQuestionsMessage}</p>
+      </div>
+    );
+  }
+
+  if (isFinished) {
+    const correctCount = results.filter(r => r.correct).length;
+    const missed = results.filter(r => !r.correct).map(r => r.word);
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <Check size={64} className="text-green-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.quiz.summaryTitle}</h2>
+        <p className="text-slate-500 mb-6">
+          {t.quiz.summaryScore.replace('{correct}', String(correctCount)).replace('{total}', String(results.length))}
+        </p>
+        {missed.length > 0 && (
+          <div className="mb-6 text-center">
+            <p className="text-sm text-slate-600 mb-2">{t.quiz.missed}</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {missed.map(word => (
+                <span key={word} className="px-3 py-1 rounded-full text-sm bg-red-100 text-red-700">{word}</span>
+              ))}
+            </div>
+          </div>
+        )}
+        <Button onClick={handleRestart}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          {t.quiz.restart}
+        </Button>
+      </div>
+    );
+  }
+
+  const result = selected !== null ? results[results.length - 1] : null;
+  const entry = result ? getVocabularyEntry(question.word) : null;
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.quiz.title}</h2>
+          <p className="text-sm text-slate-500">{t.quiz.keyboardHint}</p>
+        </div>
+        <span className="text-sm text-slate-500">{position + 1} / {questions.length}</span>
+      </div>
+
+      {/* Progress */}
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-8">
+        <div
+          className="h-full bg-brand-500 transition-all duration-300"
+          style={{ width: `${(position / questions.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="max-w-xl mx-auto space-y-6">
+        {/* Prompt */}
+        <div className="space-y-2">
+          <p className="text-sm text-slate-500">{t.quiz[question.type]}</p>
+          <p className={question.type === 'meaningToWord'
+            ? 'text-xl text-slate-800'
+            : 'font-serif text-3xl font-semibold text-slate-800'}
+          >
+            {question.prompt}
+          </p>
+        </div>
+
+        {/* Options */}
+        <div className="grid gap-2">
+          {question.options.map((option, i) => {
+            const isAnswer = i === question.answer;
+            const stateClass = selected === null
+              ? 'border-slate-200 text-slate-700 hover:bg-slate-50'
+              : isAnswer
+                ? 'border-green-500 bg-green-50 text-green-700'
+                : i === selected
+                  ? 'border-red-500 bg-red-50 text-red-700'
+                  : 'border-slate-200 text-slate-400';
+            return (
+              <button
+                key={i}
+                onClick={() => handleAnswer(i)}
+                disabled={selected !== null}
+                className={`flex items-center gap-3 px-4 py-3 rounded-lg border text-left transition-colors ${stateClass}`}
+              >
+                <span className="w-5 text-xs text-slate-400">{i + 1}</span>
+                <span className={`flex-1 ${question.type === 'wordToMeaning' ? '' : 'font-serif text-lg'}`}>{option}</span>
+                {selected !== null && isAnswer && <Check size={18} />}
+                {selected === i && !isAnswer && <X size={18} />}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Feedback */}
+        {result && (
+          <div className="space-y-4 animate-in fade-in duration-200">
+            <div className="p-4 bg-slate-50 rounded-lg space-y-1">
+              <div className="flex items-baseline gap-2">
+                <span className="font-serif text-2xl font-semibold text-slate-800">{question.word}</span>
+                {entry?.annotation.ipa && <span className="text-sm text-slate-500">{entry.annotation.ipa}</span>}
+              </div>
+              {entry && <p className="text-sm text-slate-600">{entry.annotation.definition}</p>}
+              <p className={`text-sm font-medium ${result.correct ? 'text-green-600' : 'text-red-600'}`}>
+                {result.correct ? t.quiz.correct : t.quiz.incorrect}
+                <span className="ml-2 font-normal text-slate-500">
+                  {t.quiz.nextReview.replace('{days}', String(result.interval))}
+                </span>
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleNext}>{t.quiz.next}</Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
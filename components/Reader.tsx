@@ -1,31 +1,52 @@
-import { Ear, FastForward, Languages, Loader2, Mic, Pause, PenLine, Play, Repeat, Rewind, SkipForward, Square, Volume2 } from 'lucide-react';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Ear, FastForward, Headphones, Languages, Layers, ListChecks, Loader2, Mic, Pause, PenLine, Play, Repeat, Rewind, SkipForward, Square, Volume2 } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
+import { clearRecordings, saveRecording } from '../services/audioCache';
 import { audioRecorder } from '../services/audioRecordingService';
-import { analyzePronunciation, fetchTTSAudio, fetchWordAnnotation } from '../services/llmService';
-import { addLookedUpWord } from '../services/wordMasteryService';
-import { GEMINI_VOICES, GeminiVoice, InteractionMode, LLMProvider, OPENAI_VOICES, OpenAIVoice, PronunciationFeedback, WordError, WordToken } from '../types';
+import { getTextCoverage, loadKnownWords, markWordKnown, unmarkWordKnown } from '../services/knownWordsService';
+import { lemmatize } from '../services/lemmatizer';
+import { CEFR_LEVELS, getWordLevel, loadWordLevels } from '../services/wordLevelService';
+import { isAbortError } from '../services/llmErrors';
+import { analyzePronunciation, chooseSense, fetchBatchAnnotations, fetchTTSAudio, fetchWordAnnotation, getKnownSenses } from '../services/llmService';
+import { findProvider } from '../services/providerRegistry';
+import { isCapabilityConfigured, ProviderRouting } from '../services/providerSettings';
+import { recordPronunciationScore, trackStudyTime } from '../services/statsService';
+import { readItem, voiceItem, writeItem } from '../services/storage';
+import { addLookedUpWord, loadVocabulary, updateWordAnnotation } from '../services/wordMasteryService';
+import { InteractionMode, LLMProvider, PronunciationFeedback, WordError, WordToken } from '../types';
+import { DictationMode } from './DictationMode';
 import { FeedbackPanel } from './FeedbackPanel';
+import { LevelBadge } from './LevelBadge';
+import { QuizMode } from './QuizMode';
 import { Word } from './Word';
 import { WritingMode } from './WritingMode';
 
-// Storage keys for voice preferences
-const STORAGE_KEY_GEMINI_VOICE = 'philingo_gemini_voice';
-const STORAGE_KEY_OPENAI_VOICE = 'philingo_openai_voice';
+// Text around a word (±15 tokens), sent as its context for lookups
+const getTokenContext = (tokens: WordToken[], tokenIndex: number) => {
+  const start = Math.max(0, tokenIndex - 15);
+  const end = Math.min(tokens.length, tokenIndex + 15);
+  return tokens.slice(start, end).map(t => t.text).join('');
+};
 
 interface ReaderProps {
   rawText: string;
-  apiKey: string;
-  provider: LLMProvider;
+  routing: ProviderRouting;
   onMissingKey: () => void;
   onApiStart?: (operation: string) => void;
   onApiSuccess?: () => void;
-  onApiError?: (error: string) => void;
+  onApiError?: (error: unknown) => void;
 }
 
-export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMissingKey, onApiStart, onApiSuccess, onApiError }) => {
+export const Reader: React.FC<ReaderProps> = ({ rawText, routing, onMissingKey, onApiStart, onApiSuccess, onApiError }) => {
   const [tokens, setTokens] = useState<WordToken[]>([]);
-  const { language } = useLanguage();
+  const { language, t } = useLanguage();
+
+  // Known and vocabulary lemmas, for highlighting unknown words
+  const [knownWords, setKnownWords] = useState<Set<string>>(() => loadKnownWords());
+  const [vocabularyWords, setVocabularyWords] = useState<Set<string>>(() => new Set(loadVocabulary().map(e => e.word)));
+
+  // Color words by CEFR level
+  const [colorByLevel, setColorByLevel] = useState(false);
   
   // Playback State
   const [isPlaying, setIsPlaying] = useState(false);
@@ -33,15 +54,14 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
   const [playbackRate, setPlaybackRate] = useState(1.0);
   const [sentences, setSentences] = useState<string[]>([]);
   
-  // Voice selection state
-  const [geminiVoice, setGeminiVoice] = useState<GeminiVoice>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY_GEMINI_VOICE);
-    return (stored as GeminiVoice) || 'Puck';
-  });
-  const [openaiVoice, setOpenaiVoice] = useState<OpenAIVoice>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY_OPENAI_VOICE);
-    return (stored as OpenAIVoice) || 'alloy';
-  });
+  // Voice selection state (per TTS provider)
+  const ttsProvider = routing.tts;
+  const ttsProviderDefinition = findProvider(ttsProvider);
+  const voices = ttsProviderDefinition?.voices ?? [];
+  const canUseLLMTTS = isCapabilityConfigured('tts', routing);
+  const canAnnotate = isCapabilityConfigured('annotation', routing);
+  const canAnalyzePronunciation = isCapabilityConfigured('pronunciation', routing);
+  const [voiceByProvider, setVoiceByProvider] = useState<Record<LLMProvider, string>>({});
   
   // Interaction Mode: 'read' (lookup word), 'listen' (start TTS), or 'pronounce' (pronunciation practice)
   const [interactionMode, setInteractionMode] = useState<InteractionMode>('read');
@@ -49,6 +69,9 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
   // Hover state for listen/pronounce mode
   const [hoveredSentenceIndex, setHoveredSentenceIndex] = useState<number | null>(null);
 
+  // Words selected with shift-click for batch annotation (token indices)
+  const [selectedTokenIndices, setSelectedTokenIndices] = useState<Set<number>>(new Set());
+
   // Playback settings
   const [autoPlay, setAutoPlay] = useState(true);  // Auto play next sentence
   const [repeatMode, setRepeatMode] = useState(false);  // Repeat mode
@@ -68,6 +91,12 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
   const autoPlayRef = useRef(autoPlay);
   const repeatModeRef = useRef(repeatMode);
 
+  // In-flight LLM requests, aborted when they are no longer needed
+  const ttsAbortRef = useRef<AbortController | null>(null);
+  const preloadAbortRef = useRef<AbortController | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const annotationAbortRefs = useRef(new Set<AbortController>());
+
   // Keep refs in sync with state
   useEffect(() => {
     autoPlayRef.current = autoPlay;
@@ -77,6 +106,9 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
     repeatModeRef.current = repeatMode;
   }, [repeatMode]);
 
+  // Time spent in each mode, for the statistics
+  useEffect(() => trackStudyTime(interactionMode), [interactionMode]);
+
   // Parse text into tokens and sentences on mount or when rawText changes
   useEffect(() => {
     // 1. Split into tokens
@@ -116,12 +148,68 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
 
     setTokens(newTokens);
     setSentences(finalSentences);
+    setSelectedTokenIndices(new Set());
     stopPlayback(); // Reset playback if text changes
-  }, [rawText, provider]);
+
+    // Results for the previous text are no longer needed
+    annotationAbortRefs.current.forEach(controller => controller.abort());
+    annotationAbortRefs.current.clear();
+    analysisAbortRef.current?.abort();
+
+    // Tag words with their CEFR level once the word list has loaded
+    let isCurrent = true;
+    loadWordLevels()
+      .then(() => {
+        if (!isCurrent) return;
+        setTokens(prev => prev.map(t => (t.isWord ? { ...t, level: getWordLevel(t.text) } : t)));
+      })
+      .catch(error => console.warn("Failed to load word levels:", error));
+    return () => {
+      isCurrent = false;
+    };
+  }, [rawText, routing.annotation]);
+
+  // Annotations are written in the UI language: drop the old ones so words are looked up again
+  useEffect(() => {
+    annotationAbortRefs.current.forEach(controller => controller.abort());
+    annotationAbortRefs.current.clear();
+    setTokens(prev => prev.map(t =>
+      t.status === 'idle' ? t : { ...t, status: 'idle', annotation: undefined, senses: undefined }
+    ));
+  }, [language]);
+
+  const tokenLemmas = useMemo(() => tokens.map(token => (token.isWord ? lemmatize(token.text) : '')), [tokens]);
+  const coverage = useMemo(
+    () => getTextCoverage(tokens.filter(token => token.isWord).map(token => token.text), knownWords, vocabularyWords),
+    [tokens, knownWords, vocabularyWords]
+  );
+
+  const refreshWordStatus = useCallback(() => {
+    setKnownWords(loadKnownWords());
+    setVocabularyWords(new Set(loadVocabulary().map(e => e.word)));
+  }, []);
+
+  // Mark a word (all its forms) as known, or unmark it
+  const handleToggleKnown = useCallback((tokenIndex: number) => {
+    const lemma = tokenLemmas[tokenIndex];
+    if (!lemma) return;
+    if (knownWords.has(lemma)) unmarkWordKnown(lemma);
+    else markWordKnown(lemma);
+    refreshWordStatus();
+  }, [tokenLemmas, knownWords, refreshWordStatus]);
 
   // --- Playback Logic ---
 
+  // Abort TTS requests for the current and preloaded sentences
+  const abortTTSRequests = useCallback(() => {
+    ttsAbortRef.current?.abort();
+    ttsAbortRef.current = null;
+    preloadAbortRef.current?.abort();
+    preloadAbortRef.current = null;
+  }, []);
+
   const stopPlayback = useCallback(() => {
+    abortTTSRequests();
     synthRef.current.cancel();
     if (audioRef.current) {
       audioRef.current.pause();
@@ -130,7 +218,12 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
     setIsPlaying(false);
     setCurrentSentenceIndex(-1);
     isPausedRef.current = false;
-  }, []);
+  }, [abortTTSRequests]);
+
+  // Dictation plays its own audio, and reading the text out would give the answers away
+  useEffect(() => {
+    if (interactionMode === 'dictate') stopPlayback();
+  }, [interactionMode, stopPlayback]);
 
   // Handle what happens after a sentence finishes playing
   const handlePlaybackEnd = useCallback((index: number) => {
@@ -185,20 +278,27 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
     synthRef.current.speak(utterance);
   }, [sentences, playbackRate, handlePlaybackEnd]);
 
-  // Get current voice based on provider
-  const currentVoice = provider === 'openai' ? openaiVoice : geminiVoice;
+  // Get current voice based on the TTS provider
+  const currentVoice = voiceByProvider[ttsProvider]
+    ?? readItem(voiceItem(ttsProvider))
+    ?? ttsProviderDefinition?.defaultVoice;
 
   // Preload next sentence audio
   const preloadNextSentence = useCallback((currentIndex: number) => {
-    if (!apiKey || !autoPlayRef.current) return;
+    if (!canUseLLMTTS || !autoPlayRef.current) return;
     const nextIndex = currentIndex + 1;
     if (nextIndex < sentences.length) {
+      // Only one preload at a time
+      preloadAbortRef.current?.abort();
+      const controller = new AbortController();
+      preloadAbortRef.current = controller;
+
       // Fire and forget - just populate the cache
-      fetchTTSAudio(sentences[nextIndex], apiKey, provider, currentVoice).catch(() => {
+      fetchTTSAudio(sentences[nextIndex], currentVoice, controller.signal).catch(() => {
         // Ignore preload errors
       });
     }
-  }, [apiKey, provider, sentences, currentVoice]);
+  }, [canUseLLMTTS, sentences, currentVoice]);
 
   // Play using LLM TTS with fallback to browser TTS
   const playSentenceInternal = useCallback(async (index: number) => {
@@ -207,7 +307,8 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
       return;
     }
 
-    // Cancel any previous playback
+    // Cancel any previous playback (including a pending audio request)
+    ttsAbortRef.current?.abort();
     synthRef.current.cancel();
     if (audioRef.current) {
       audioRef.current.pause();
@@ -219,11 +320,13 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
 
     const text = sentences[index];
 
-    // Try LLM TTS first if API key is available
-    if (apiKey) {
+    // Try LLM TTS first if a TTS provider is configured
+    if (canUseLLMTTS) {
+      const controller = new AbortController();
+      ttsAbortRef.current = controller;
       try {
         onApiStart?.('Generating audio');
-        const { data: audioData, mimeType } = await fetchTTSAudio(text, apiKey, provider, currentVoice);
+        const { data: audioData, mimeType } = await fetchTTSAudio(text, currentVoice, controller.signal);
         onApiSuccess?.();
 
         // Check if we were stopped during the fetch
@@ -257,8 +360,16 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
         await audio.play();
         return;
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to generate audio';
-        onApiError?.(errorMessage);
+        // Stopped or superseded by another sentence: don't fall back to browser TTS
+        if (isAbortError(error)) {
+          // A superseding request owns the loading state; only reset it after a stop
+          if (!ttsAbortRef.current) {
+            setIsLoadingAudio(false);
+            onApiSuccess?.();
+          }
+          return;
+        }
+        onApiError?.(error);
         console.warn("LLM TTS failed, falling back to browser TTS:", error);
         setIsLoadingAudio(false);
       }
@@ -267,7 +378,7 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
     // Fallback to browser TTS
     setIsLoadingAudio(false);
     playSentenceWithBrowserTTS(index);
-  }, [sentences, playbackRate, apiKey, provider, currentVoice, stopPlayback, handlePlaybackEnd, playSentenceWithBrowserTTS, preloadNextSentence, onApiStart, onApiSuccess, onApiError]);
+  }, [sentences, playbackRate, canUseLLMTTS, currentVoice, stopPlayback, handlePlaybackEnd, playSentenceWithBrowserTTS, preloadNextSentence, onApiStart, onApiSuccess, onApiError]);
 
   // Public playSentence function
   const playSentence = useCallback((index: number) => {
@@ -306,19 +417,18 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
 
   // Handle voice change
   const handleVoiceChange = (voice: string) => {
-    if (provider === 'openai') {
-      setOpenaiVoice(voice as OpenAIVoice);
-      localStorage.setItem(STORAGE_KEY_OPENAI_VOICE, voice);
-    } else {
-      setGeminiVoice(voice as GeminiVoice);
-      localStorage.setItem(STORAGE_KEY_GEMINI_VOICE, voice);
-    }
+    setVoiceByProvider(prev => ({ ...prev, [ttsProvider]: voice }));
+    writeItem(voiceItem(ttsProvider), voice);
   };
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       synthRef.current.cancel();
+      ttsAbortRef.current?.abort();
+      preloadAbortRef.current?.abort();
+      analysisAbortRef.current?.abort();
+      annotationAbortRefs.current.forEach(controller => controller.abort());
     };
   }, []);
 
@@ -329,10 +439,8 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
   }, []);
 
   // --- Pronounce Mode Handler ---
-  const cancelAnalysisRef = useRef(false);
-
   const handleTestModeClick = useCallback(async (sentenceIndex: number) => {
-    if (!apiKey) {
+    if (!canAnalyzePronunciation) {
       onMissingKey();
       return;
     }
@@ -355,27 +463,37 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
         () => setIsRecording(false)
       );
 
-      // 3. Create audio URL for playback
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      // 4. Analyze pronunciation
+      // 3. Analyze pronunciation
       setIsAnalyzing(true);
-      cancelAnalysisRef.current = false; // Reset cancel flag
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
 
       onApiStart?.('Analyzing pronunciation');
-      const feedback = await analyzePronunciation(audioBlob, sentenceText, apiKey, provider, language);
+      let feedback: PronunciationFeedback;
+      try {
+        feedback = await analyzePronunciation(audioBlob, sentenceText, language, controller.signal);
+      } catch (error) {
+        if (isAbortError(error)) {
+          console.log("Analysis cancelled, not adding feedback");
+          setIsAnalyzing(false);
+          onApiSuccess?.();
+          return;
+        }
+        throw error;
+      } finally {
+        if (analysisAbortRef.current === controller) {
+          analysisAbortRef.current = null;
+        }
+      }
       onApiSuccess?.();
+      recordPronunciationScore(feedback.score);
 
-      // Check if analysis was cancelled before adding feedback
-      if (cancelAnalysisRef.current) {
-        console.log("Analysis cancelled, not adding feedback");
-        URL.revokeObjectURL(audioUrl); // Clean up audio URL
-        setIsAnalyzing(false);
-        return;
-      }
+      // 4. Store the recording for playback (object URL only if the audio cache is unavailable)
+      const recordingKey = await saveRecording(feedback.id, audioBlob);
+      const playback = recordingKey ? { recordingKey } : { audioUrl: URL.createObjectURL(audioBlob) };
 
-      // 5. Add feedback to list with audio URL (newest first)
-      setFeedbackList(prev => [{ ...feedback, audioUrl }, ...prev]);
+      // 5. Add feedback to list (newest first)
+      setFeedbackList(prev => [{ ...feedback, ...playback }, ...prev]);
 
       // 6. Mark error words in the text
       if (feedback.errors.length > 0) {
@@ -399,17 +517,17 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
       setIsAnalyzing(false);
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to analyze pronunciation';
-      onApiError?.(errorMessage);
+      onApiError?.(error);
       console.error("Test mode error:", error);
       setIsRecording(false);
       setIsAnalyzing(false);
     }
-  }, [apiKey, onMissingKey, isRecording, isAnalyzing, sentences, tokens, pronunciationErrors, onApiStart, onApiSuccess, onApiError, provider]);
+  }, [canAnalyzePronunciation, onMissingKey, isRecording, isAnalyzing, sentences, tokens, pronunciationErrors, onApiStart, onApiSuccess, onApiError, language]);
 
   // Cancel analysis handler
   const handleCancelAnalysis = useCallback(() => {
-    cancelAnalysisRef.current = true;
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
     setIsAnalyzing(false);
   }, []);
 
@@ -455,7 +573,29 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
     // OTHERWISE -> Translate (Original Logic)
     if (!token.isWord) return;
 
-    if (!apiKey) {
+    // Alt+Click -> mark as known (or unmark)
+    if (e.altKey) {
+      handleToggleKnown(tokenIndex);
+      return;
+    }
+
+    // Shift+Click -> toggle selection for batch annotation
+    if (e.shiftKey) {
+      if (token.status === 'success' || token.status === 'loading') return;
+      window.getSelection()?.removeAllRanges(); // Shift+Click also extends the text selection
+      setSelectedTokenIndices(prev => {
+        const next = new Set(prev);
+        if (next.has(tokenIndex)) {
+          next.delete(tokenIndex);
+        } else {
+          next.add(tokenIndex);
+        }
+        return next;
+      });
+      return;
+    }
+
+    if (!canAnnotate) {
       onMissingKey();
       return;
     }
@@ -466,26 +606,33 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
       i === tokenIndex ? { ...t, status: 'loading' } : t
     ));
 
+    const controller = new AbortController();
+    annotationAbortRefs.current.add(controller);
+
     try {
-      const start = Math.max(0, tokenIndex - 15);
-      const end = Math.min(tokens.length, tokenIndex + 15);
-      const contextString = tokens.slice(start, end).map(t => t.text).join('');
+      const contextString = getTokenContext(tokens, tokenIndex);
 
       onApiStart?.('Looking up word definition');
-      const annotation = await fetchWordAnnotation(token.text, contextString, apiKey, provider, language);
+      const annotation = await fetchWordAnnotation(token.text, contextString, language, controller.signal);
       onApiSuccess?.();
 
-      // Save to word mastery for writing mode
-      addLookedUpWord(rawText, token.text, annotation);
+      // Save to the vocabulary notebook
+      addLookedUpWord(rawText, token.text, annotation, sentences[token.sentenceIndex] ?? '');
+      refreshWordStatus();
 
+      const senses = getKnownSenses(token.text, language);
       setTokens(prev => prev.map((t, i) =>
         i === tokenIndex
-          ? { ...t, status: 'success', annotation }
+          ? { ...t, status: 'success', annotation, senses }
           : t
       ));
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to fetch word definition';
-      onApiError?.(errorMessage);
+      // Aborted because the text changed: these tokens no longer exist
+      if (isAbortError(error)) {
+        onApiSuccess?.();
+        return;
+      }
+      onApiError?.(error);
       setTokens(prev => prev.map((t, i) =>
         i === tokenIndex ? { ...t, status: 'error' } : t
       ));
@@ -494,8 +641,90 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
             i === tokenIndex && t.status === 'error' ? { ...t, status: 'idle' } : t
           ));
       }, 3000);
+    } finally {
+      annotationAbortRefs.current.delete(controller);
     }
-  }, [tokens, apiKey, onMissingKey, interactionMode, sentences, playSentence, handleTestModeClick]);
+  }, [tokens, canAnnotate, onMissingKey, interactionMode, sentences, playSentence, handleTestModeClick, handleToggleKnown, rawText, language, onApiStart, onApiSuccess, onApiError, refreshWordStatus]);
+
+  // Switch a word to another known sense (from the tooltip) and remember the choice for this context
+  const handleSelectSense = useCallback((tokenIndex: number, senseIndex: number) => {
+    const token = tokens[tokenIndex];
+    const annotation = token?.senses?.[senseIndex];
+    if (!annotation) return;
+
+    chooseSense(token.text, language, senseIndex, getTokenContext(tokens, tokenIndex));
+    updateWordAnnotation(token.text, annotation);
+    setTokens(prev => prev.map((t, i) =>
+      i === tokenIndex ? { ...t, annotation } : t
+    ));
+  }, [tokens, language]);
+
+  // Annotate all selected words in one batch request
+  const handleAnnotateSelected = useCallback(async () => {
+    const indices = [...selectedTokenIndices]
+      .filter(i => tokens[i]?.isWord && tokens[i].status !== 'success' && tokens[i].status !== 'loading')
+      .sort((a, b) => a - b);
+    setSelectedTokenIndices(new Set());
+    if (indices.length === 0) return;
+
+    if (!canAnnotate) {
+      onMissingKey();
+      return;
+    }
+
+    const indexSet = new Set(indices);
+    setTokens(prev => prev.map((t, i) =>
+      indexSet.has(i) ? { ...t, status: 'loading' } : t
+    ));
+
+    // Send only the sentences containing the selected words as context
+    const sentenceIndices = [...new Set(indices.map(i => tokens[i].sentenceIndex))].sort((a, b) => a - b);
+    const passage = sentenceIndices.map(i => sentences[i]?.trim()).filter(Boolean).join(' ');
+
+    const controller = new AbortController();
+    annotationAbortRefs.current.add(controller);
+
+    try {
+      onApiStart?.('Looking up word definitions');
+      const annotations = await fetchBatchAnnotations(indices.map(i => tokens[i].text), passage, language, controller.signal);
+      onApiSuccess?.();
+
+      // Save to the vocabulary notebook
+      indices.forEach(i => {
+        const annotation = annotations[tokens[i].text.toLowerCase()];
+        if (annotation) {
+          addLookedUpWord(rawText, tokens[i].text, annotation, sentences[tokens[i].sentenceIndex] ?? '');
+        }
+      });
+
+      refreshWordStatus();
+
+      setTokens(prev => prev.map((t, i) => {
+        if (!indexSet.has(i)) return t;
+        const annotation = annotations[t.text.toLowerCase()];
+        return annotation
+          ? { ...t, status: 'success', annotation, senses: getKnownSenses(t.text, language) }
+          : { ...t, status: 'idle' };
+      }));
+    } catch (error) {
+      // Aborted because the text changed: these tokens no longer exist
+      if (isAbortError(error)) {
+        onApiSuccess?.();
+        return;
+      }
+      onApiError?.(error);
+      setTokens(prev => prev.map((t, i) =>
+        indexSet.has(i) ? { ...t, status: 'error' } : t
+      ));
+      setTimeout(() => {
+        setTokens(prev => prev.map((t, i) =>
+            indexSet.has(i) && t.status === 'error' ? { ...t, status: 'idle' } : t
+          ));
+      }, 3000);
+    } finally {
+      annotationAbortRefs.current.delete(controller);
+    }
+  }, [selectedTokenIndices, tokens, sentences, canAnnotate, onMissingKey, rawText, language, onApiStart, onApiSuccess, onApiError, refreshWordStatus]);
 
   if (!rawText.trim()) {
     return (
@@ -511,17 +740,31 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
 
   // Clear feedback when switching away from pronounce mode
   const handleClearFeedback = useCallback(() => {
+    feedbackList.forEach(feedback => feedback.audioUrl && URL.revokeObjectURL(feedback.audioUrl));
+    clearRecordings();
     setFeedbackList([]);
     setPronunciationErrors(new Map());
-  }, []);
+  }, [feedbackList]);
 
-  // Writing mode has its own component
-  if (interactionMode === 'write') {
+  // Writing, quiz and dictation modes have their own components
+  if (interactionMode === 'write' || interactionMode === 'quiz' || interactionMode === 'dictate') {
     return (
       <div className="w-full mx-auto pb-32 relative max-w-4xl">
-        <WritingMode rawText={rawText} tokens={tokens} />
+        {interactionMode === 'write' ? (
+          <WritingMode rawText={rawText} tokens={tokens} />
+        ) : interactionMode === 'quiz' ? (
+          <QuizMode rawText={rawText} />
+        ) : (
+          <DictationMode
+            sentences={sentences}
+            routing={routing}
+            onApiStart={onApiStart}
+            onApiSuccess={onApiSuccess}
+            onApiError={onApiError}
+          />
+        )}
 
-        {/* Floating Control Bar for Writing Mode */}
+        {/* Floating Control Bar for Writing, Quiz and Dictation Modes */}
         <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-40 w-full max-w-2xl px-4">
           <div className="bg-white/95 backdrop-blur-md border border-slate-200 shadow-2xl rounded-2xl p-2 md:p-3 flex items-center justify-center ring-1 ring-black/5 gap-4">
             {/* Mode Switcher */}
@@ -558,6 +801,22 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
                  <PenLine size={16} />
                  <span className="hidden sm:inline">Write</span>
                </button>
+               <button
+                 onClick={() => setInteractionMode('quiz')}
+                 className={`p-2 rounded-md flex items-center gap-2 text-xs font-semibold transition-all ${interactionMode === 'quiz' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 title="Quiz Mode - Multiple choice"
+               >
+                 <ListChecks size={16} />
+                 <span className="hidden sm:inline">Quiz</span>
+               </button>
+               <button
+                 onClick={() => setInteractionMode('dictate')}
+                 className={`p-2 rounded-md flex items-center gap-2 text-xs font-semibold transition-all ${interactionMode === 'dictate' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 title="Dictation Mode - Type what you hear"
+               >
+                 <Headphones size={16} />
+                 <span className="hidden sm:inline">Dictate</span>
+               </button>
             </div>
           </div>
         </div>
@@ -570,6 +829,29 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
       <div className={`flex gap-4 ${interactionMode === 'pronounce' ? 'flex-col lg:flex-row' : ''}`}>
         {/* Main Text Area */}
         <div className={`p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] relative ${interactionMode === 'pronounce' ? 'flex-1' : 'w-full'}`}>
+          {/* Vocabulary coverage */}
+          <div className="flex flex-wrap items-center justify-end gap-3 mb-4 text-xs font-sans text-slate-500">
+            {colorByLevel && (
+              <span className="inline-flex items-center gap-1">
+                {CEFR_LEVELS.map(level => <LevelBadge key={level} level={level} />)}
+              </span>
+            )}
+            <button
+              onClick={() => setColorByLevel(!colorByLevel)}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md transition-colors ${colorByLevel ? 'text-brand-600 bg-brand-50' : 'hover:text-slate-700 hover:bg-slate-100'}`}
+              title={t.reader.levelHint}
+            >
+              <Layers size={12} />
+              {t.reader.colorByLevel}
+            </button>
+            <span className="inline-flex items-center gap-1.5" title={t.reader.coverageHint}>
+              <span className="w-2.5 h-2.5 rounded-sm bg-sky-50 border border-dotted border-sky-300"></span>
+              {t.reader.unknownWords.replace('{count}', String(coverage.unknownWords.size))}
+            </span>
+            <span className="font-medium text-slate-600" title={t.reader.coverageHint}>
+              {t.reader.coverage.replace('{percent}', String(Math.floor(coverage.coverage * 100)))}
+            </span>
+          </div>
           <div className="prose prose-lg prose-slate max-w-none font-serif leading-loose text-slate-800">
             <div className="whitespace-pre-wrap">
             {tokens.map((token, index) => {
@@ -602,6 +884,12 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
                   interactionMode={interactionMode}
                   onHoverSentence={setHoveredSentenceIndex}
                   pronunciationError={tokenError}
+                  isSelected={selectedTokenIndices.has(index)}
+                  onSelectSense={(senseIndex) => handleSelectSense(index, senseIndex)}
+                  isUnknown={coverage.unknownWords.has(tokenLemmas[index])}
+                  isKnown={knownWords.has(tokenLemmas[index])}
+                  onToggleKnown={() => handleToggleKnown(index)}
+                  showLevel={colorByLevel && interactionMode === 'read'}
                 />
               );
             })}
@@ -637,10 +925,30 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
               </button>
             </span>
           )}
-          {!isRecording && !isAnalyzing && (
+          {!isRecording && !isAnalyzing && interactionMode === 'read' && selectedTokenIndices.size > 0 && (
+            <span className="inline-flex items-center gap-3 text-amber-700">
+              {t.reader.selectedCount.replace('{count}', String(selectedTokenIndices.size))}
+              <button
+                onClick={handleAnnotateSelected}
+                className="px-3 py-1 text-xs font-medium bg-brand-100 hover:bg-brand-200 text-brand-700 rounded-full transition-colors"
+              >
+                {t.reader.annotateSelected}
+              </button>
+              <button
+                onClick={() => setSelectedTokenIndices(new Set())}
+                className="px-3 py-1 text-xs font-medium bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-full transition-colors"
+              >
+                {t.reader.clearSelection}
+              </button>
+            </span>
+          )}
+          {!isRecording && !isAnalyzing && !(interactionMode === 'read' && selectedTokenIndices.size > 0) && (
             <>
               Click to {interactionMode === 'read' ? 'lookup words' : interactionMode === 'listen' ? 'listen' : 'pronounce'} •
               <span className="hidden md:inline ml-1">Hold {modifierKey}+Click to {interactionMode === 'listen' ? 'lookup words' : 'listen'}</span>
+              {interactionMode === 'read' && (
+                <span className="hidden md:inline ml-1">• {t.reader.shiftClickHint} • {t.reader.altClickHint}</span>
+              )}
             </>
           )}
         </div>
@@ -664,7 +972,7 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
             {/* 1. Playback Controls (Top Row) */}
             <div className="flex items-center justify-between gap-2">
                 {/* Voice Selector - only show when API key is configured */}
-                {apiKey && (
+                {canUseLLMTTS && voices.length > 0 && (
                     <div className="flex items-center gap-1">
                         <Volume2 size={14} className="text-slate-400" />
                         <select
@@ -673,14 +981,9 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
                             className="text-xs bg-slate-50 border border-slate-200 rounded-md px-1.5 py-1 text-slate-600 hover:bg-slate-100 focus:outline-none focus:ring-1 focus:ring-brand-500 cursor-pointer"
                             title="Select voice"
                         >
-                            {provider === 'openai' 
-                                ? OPENAI_VOICES.map(v => (
-                                    <option key={v.id} value={v.id}>{v.name}</option>
-                                  ))
-                                : GEMINI_VOICES.map(v => (
-                                    <option key={v.id} value={v.id}>{v.name}</option>
-                                  ))
-                            }
+                            {voices.map(v => (
+                                <option key={v.id} value={v.id}>{v.name}</option>
+                            ))}
                         </select>
                     </div>
                 )}
@@ -777,6 +1080,22 @@ export const Reader: React.FC<ReaderProps> = ({ rawText, apiKey, provider, onMis
                  <PenLine size={16} />
                  <span className="hidden sm:inline">Write</span>
                </button>
+               <button
+                 onClick={() => setInteractionMode('quiz')}
+                 className={`p-2 rounded-md flex items-center gap-2 text-xs font-semibold transition-all ${interactionMode === 'quiz' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 title="Quiz Mode - Multiple choice"
+               >
+                 <ListChecks size={16} />
+                 <span className="hidden sm:inline">Quiz</span>
+               </button>
+               <button
+                 onClick={() => setInteractionMode('dictate')}
+                 className={`p-2 rounded-md flex items-center gap-2 text-xs font-semibold transition-all ${interactionMode === 'dictate' ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                 title="Dictation Mode - Type what you hear"
+               >
+                 <Headphones size={16} />
+                 <span className="hidden sm:inline">Dictate</span>
+               </button>
             </div>
         </div>
       </div>
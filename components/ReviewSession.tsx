@@ -0,0 +1,392 @@
+import { Check, GraduationCap, Loader2, Volume2 } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { lemmatize, wordFormsPattern } from '../services/lemmatizer';
+import { isAbortError } from '../services/llmErrors';
+import { fetchTTSAudio } from '../services/llmService';
+import { isCapabilityConfigured, ProviderRouting } from '../services/providerSettings';
+import { isNearMiss, scheduleReview } from '../services/spacedRepetition';
+import { readItem, voiceItem } from '../services/storage';
+import { CEFR_LEVELS, getWordLevel, loadWordLevels } from '../services/wordLevelService';
+import { getDueWords, reviewWord } from '../services/wordMasteryService';
+import { CefrLevel, ReviewGrade, VocabularyEntry } from '../types';
+import { Button } from './Button';
+
+interface ReviewSessionProps {
+  routing: ProviderRouting;
+  onExit: () => void;
+  onApiStart?: (operation: string) => void;
+  onApiSuccess?: () => void;
+  onApiError?: (error: unknown) => void;
+}
+
+type CardType = 'cloze' | 'definition' | 'audio';
+
+interface ReviewCard {
+  entry: VocabularyEntry;
+  type: CardType;
+  sentence?: string;   // Source sentence with the word blanked out (cloze cards)
+  answer: string;      // Expected form: the one blanked out in cloze cards, otherwise the lemma
+  isRetry: boolean;    // Shown again after "again" in this session
+}
+
+const MAX_SESSION_CARDS = 50;
+const GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+const BLANK = '_____';
+
+// A source sentence with every form of the word blanked out, if any source has one
+function buildCloze(entry: VocabularyEntry): { sentence: string; answer: string } | undefined {
+  const pattern = wordFormsPattern([entry.word, ...entry.forms]);
+  for (const source of entry.sources) {
+    const match = source.context && new RegExp(pattern.source, 'i').exec(source.context);
+    if (match) {
+      return { sentence: source.context.replace(pattern, `$1${BLANK}`), answer: match[2].toLowerCase() };
+    }
+  }
+  return undefined;
+}
+
+// Alternate card types so a word isn't always asked the same way
+function createCard(entry: VocabularyEntry, index: number): ReviewCard {
+  const cloze = buildCloze(entry);
+  const types: CardType[] = cloze ? ['cloze', 'definition', 'audio'] : ['definition', 'audio'];
+  const type = types[(index + entry.reviews.length) % types.length];
+  return type === 'cloze' && cloze
+    ? { entry, type, sentence: cloze.sentence, answer: cloze.answer, isRetry: false }
+    : { entry, type, answer: entry.word, isRetry: false };
+}
+
+type LevelFilter = CefrLevel | 'all';
+
+// Due words, optionally only those of one CEFR level
+const getDueWordsAtLevel = (level: LevelFilter): VocabularyEntry[] =>
+  getDueWords().filter(entry => level === 'all' || getWordLevel(entry.word) === level);
+
+const createQueue = (level: LevelFilter): ReviewCard[] =>
+  getDueWordsAtLevel(level).slice(0, MAX_SESSION_CARDS).map(createCard);
+
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ routing, onExit, onApiStart, onApiSuccess, onApiError }) => {
+  const { t } = useLanguage();
+  const [levelFilter, setLevelFilter] = useState<LevelFilter>('all');
+  const [isLevelDataLoaded, setIsLevelDataLoaded] = useState(false);
+  const [queue, setQueue] = useState<ReviewCard[]>(() => createQueue('all'));
+  const [position, setPosition] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [results, setResults] = useState<{ word: string; grade: ReviewGrade }[]>([]);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const ttsAbortRef = useRef<AbortController | null>(null);
+  const canUseLLMTTS = isCapabilityConfigured('tts', routing);
+
+  const card = queue[position];
+  const isFinished = queue.length > 0 && position >= queue.length;
+
+  const stopAudio = useCallback(() => {
+    ttsAbortRef.current?.abort();
+    ttsAbortRef.current = null;
+    window.speechSynthesis.cancel();
+    audioRef.current?.pause();
+    audioRef.current = null;
+  }, []);
+
+  const speakWithBrowserTTS = (word: string) => {
+    const utterance = new SpeechSynthesisUtterance(word);
+    utterance.lang = 'en-US';
+    window.speechSynthesis.speak(utterance);
+  };
+
+  // Play the word with the configured TTS provider, falling back to browser TTS
+  const playWord = async (word: string) => {
+    stopAudio();
+    if (!canUseLLMTTS) {
+      speakWithBrowserTTS(word);
+      return;
+    }
+
+    const controller = new AbortController();
+    ttsAbortRef.current = controller;
+    setIsLoadingAudio(true);
+    try {
+      onApiStart?.('Generating audio');
+      const { data, mimeType } = await fetchTTSAudio(word, readItem(voiceItem(routing.tts)) ?? undefined, controller.signal);
+      onApiSuccess?.();
+
+      const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+      const audio = new Audio(url);
+      audio.onended = () => URL.revokeObjectURL(url);
+      audio.onerror = () => {
+        URL.revokeObjectURL(url);
+        speakWithBrowserTTS(word);
+      };
+      audioRef.current = audio;
+      await audio.play();
+    } catch (error) {
+      if (isAbortError(error)) {
+        onApiSuccess?.();
+        return;
+      }
+      onApiError?.(error);
+      speakWithBrowserTTS(word);
+    } finally {
+      if (ttsAbortRef.current === controller) {
+        ttsAbortRef.current = null;
+        setIsLoadingAudio(false);
+      }
+    }
+  };
+
+  // Audio cards play the word as soon as they are shown (only when the card changes: the API
+  // callbacks change on every parent render)
+  useEffect(() => {
+    if (card?.type === 'audio' && !isRevealed) {
+      playWord(card.entry.word);
+    }
+  }, [card, isRevealed]);
+
+  // Stop audio when leaving the session
+  useEffect(() => stopAudio, [stopAudio]);
+
+  // The level filter needs the word level data
+  useEffect(() => {
+    let isMounted = true;
+    loadWordLevels()
+      .then(() => isMounted && setIsLevelDataLoaded(true))
+      .catch(error => console.warn("Failed to load word levels:", error));
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const handleReveal = () => {
+    setIsRevealed(true);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    stopAudio();
+    const updated = reviewWord(card.entry.word, grade);
+    setResults(prev => [...prev, { word: card.entry.word, grade }]);
+
+    // Forgotten words come back once at the end of the session
+    if (grade === 'again' && !card.isRetry) {
+      setQueue(prev => [...prev, { ...card, entry: updated ?? card.entry, isRetry: true }]);
+    }
+    setPosition(position + 1);
+    setAnswer('');
+    setIsRevealed(false);
+  };
+
+  const handleRestart = (level: LevelFilter = levelFilter) => {
+    stopAudio();
+    setLevelFilter(level);
+    setQueue(createQueue(level));
+    setPosition(0);
+    setResults([]);
+    setAnswer('');
+    setIsRevealed(false);
+  };
+
+  // Suggested grade for a typed answer (outside cloze cards any form of the word counts)
+  const getSuggestedGrade = (): ReviewGrade | null => {
+    if (!card || !answer.trim()) return null;
+    const typed = answer.trim().toLowerCase();
+    if (typed === card.answer || (card.type !== 'cloze' && lemmatize(typed) === card.entry.word)) return 'good';
+    return isNearMiss(typed, card.answer) ? 'hard' : 'again';
+  };
+
+  const formatInterval = (days: number) =>
+    (days === 0 ? t.review.today : t.review.interval.replace('{days}', String(days)));
+
+  // Changing the level starts a new session with that level's due words
+  const levelSelect = (
+    <select
+      value={levelFilter}
+      onChange={(e) => handleRestart(e.target.value as LevelFilter)}
+      disabled={!isLevelDataLoaded}
+      title={t.review.levelFilter}
+      className="px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:opacity-50"
+    >
+      <option value="all">{t.review.allLevels}</option>
+      {CEFR_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+    </select>
+  );
+
+  // Nothing due
+  if (queue.length === 0) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
+        <GraduationCap size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.review.emptyTitle}</h2>
+        <p className="text-slate-500 text-center max-w-md mb-6">{t.review.emptyMessage}</p>
+        <div className="flex items-center gap-3">
+          {levelFilter !== 'all' && levelSelect}
+          <Button variant="secondary" onClick={onExit}>{t.app.backToReading}</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Session summary
+  if (isFinished) {
+    const counts = GRADES.map(grade => ({ grade, count: results.filter(r => r.grade === grade).length }));
+    const forgotten = [...new Set(results.filter(r => r.grade === 'again').map(r => r.word))];
+    const remaining = getDueWordsAtLevel(levelFilter).length;
+
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <Check size={64} className="text-green-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.review.summaryTitle}</h2>
+        <p className="text-slate-500 mb-6">
+          {t.review.summaryReviewed.replace('{count}', String(results.length))}
+        </p>
+        <div className="grid grid-cols-4 gap-3 mb-6">
+          {counts.map(({ grade, count }) => (
+            <div key={grade} className="text-center px-4 py-2 bg-slate-50 rounded-lg">
+              <div className="text-2xl font-semibold text-slate-800">{count}</div>
+              <div className="text-xs text-slate-500">{t.review[grade]}</div>
+            </div>
+          ))}
+        </div>
+        {forgotten.length > 0 && (
+          <div className="mb-6 text-center">
+            <p className="text-sm text-slate-600 mb-2">{t.review.forgotten}</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {forgotten.map(word => (
+                <span key={word} className="px-3 py-1 rounded-full text-sm bg-red-100 text-red-700">{word}</span>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="flex gap-3">
+          <Button variant="secondary" onClick={onExit}>{t.app.backToReading}</Button>
+          {remaining > 0 && (
+            <Button onClick={() => handleRestart()}>
+              {t.review.reviewMore.replace('{count}', String(remaining))}
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const { entry } = card;
+  const suggestedGrade = isRevealed ? getSuggestedGrade() : null;
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.review.title}</h2>
+          <p className="text-sm text-slate-500">
+            {{ cloze: t.review.cardCloze, definition: t.review.cardDefinition, audio: t.review.cardAudio }[card.type]}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {levelSelect}
+          <span className="text-sm text-slate-500">{position + 1} / {queue.length}</span>
+        </div>
+      </div>
+
+      {/* Progress */}
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-8">
+        <div
+          className="h-full bg-brand-500 transition-all duration-300"
+          style={{ width: `${(position / queue.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="max-w-xl mx-auto space-y-6">
+        {/* Prompt */}
+        {card.type === 'cloze' && (
+          <div className="space-y-2">
+            <p className="font-serif text-xl leading-relaxed text-slate-800">{card.sentence}</p>
+            <p className="text-sm text-slate-500">{entry.annotation.definition}</p>
+          </div>
+        )}
+        {card.type === 'definition' && (
+          <div className="space-y-1">
+            <p className="text-xl text-slate-800">{entry.annotation.definition}</p>
+            {entry.annotation.definitionEn && (
+              <p className="text-sm text-slate-500">{entry.annotation.definitionEn}</p>
+            )}
+          </div>
+        )}
+        {card.type === 'audio' && (
+          <Button variant="secondary" onClick={() => playWord(entry.word)} disabled={isLoadingAudio}>
+            {isLoadingAudio ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Volume2 className="w-4 h-4 mr-2" />}
+            {t.review.playAudio}
+          </Button>
+        )}
+
+        {/* Answer */}
+        <input
+          key={position}
+          type="text"
+          value={answer}
+          onChange={(e) => setAnswer(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !isRevealed && handleReveal()}
+          disabled={isRevealed}
+          placeholder={t.review.answerPlaceholder}
+          autoFocus
+          className="w-full px-4 py-2 font-serif text-lg border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent disabled:bg-slate-50"
+        />
+
+        {!isRevealed ? (
+          <div className="flex justify-end">
+            <Button onClick={handleReveal}>{t.review.showAnswer}</Button>
+          </div>
+        ) : (
+          <div className="space-y-6 animate-in fade-in duration-200">
+            <div className="p-4 bg-slate-50 rounded-lg space-y-1">
+              <div className="flex items-baseline gap-2">
+                <span className="font-serif text-2xl font-semibold text-slate-800">{entry.word}</span>
+                {entry.annotation.ipa && <span className="text-sm text-slate-500">{entry.annotation.ipa}</span>}
+                <button
+                  onClick={() => playWord(entry.word)}
+                  className="p-1 text-slate-400 hover:text-brand-600"
+                  title={t.review.playAudio}
+                >
+                  <Volume2 size={16} />
+                </button>
+              </div>
+              <p className="text-sm text-slate-600">{entry.annotation.definition}</p>
+              {entry.sources[0]?.context && card.type !== 'cloze' && (
+                <p className="text-sm font-serif text-slate-500">{entry.sources[0].context}</p>
+              )}
+              {suggestedGrade && (
+                <p className={`text-sm font-medium ${
+                  suggestedGrade === 'good' ? 'text-green-600' : suggestedGrade === 'hard' ? 'text-amber-600' : 'text-red-600'
+                }`}>
+                  {suggestedGrade === 'good' ? t.review.answerCorrect : suggestedGrade === 'hard' ? t.review.answerNear : t.review.answerWrong}
+                </p>
+              )}
+            </div>
+
+            {/* Self-grading, with the interval each grade would schedule */}
+            <div className="grid grid-cols-4 gap-2">
+              {GRADES.map(grade => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`flex flex-col items-center px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                    grade === suggestedGrade
+                      ? 'border-brand-500 bg-brand-50 text-brand-700'
+                      : 'border-slate-200 text-slate-700 hover:bg-slate-50'
+                  }`}
+                >
+                  {t.review[grade]}
+                  <span className="text-xs font-normal text-slate-400">
+                    {formatInterval(scheduleReview(entry, grade).interval)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import { ArrowRight, Check, Loader2, PenLine, RotateCcw, SkipForward, X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { isAbortError } from '../services/llmErrors';
+import { gradeSentence } from '../services/llmService';
+import { isCapabilityConfigured, ProviderRouting } from '../services/providerSettings';
+import { isDue } from '../services/spacedRepetition';
+import { addWrittenSentence, loadVocabulary } from '../services/wordMasteryService';
+import { SentenceFeedback, VocabularyEntry } from '../types';
+import { Button } from './Button';
+
+interface SentenceWritingProps {
+  routing: ProviderRouting;
+  onMissingKey: () => void;
+  onApiStart?: (operation: string) => void;
+  onApiSuccess?: () => void;
+  onApiError?: (error: unknown) => void;
+}
+
+const MAX_SESSION_WORDS = 20;
+
+// Due words first (most overdue first), then the words practiced in the fewest sentences
+const createQueue = (): VocabularyEntry[] => {
+  const now = Date.now();
+  return loadVocabulary()
+    .sort((a, b) =>
+      Number(isDue(b, now)) - Number(isDue(a, now)) ||
+      (isDue(a, now) ? a.dueAt - b.dueAt : a.writtenSentences.length - b.writtenSentences.length))
+    .slice(0, MAX_SESSION_WORDS);
+};
+
+const scoreClass = (score: number) =>
+  score >= 80 ? 'text-green-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+export const SentenceWriting: React.FC<SentenceWritingProps> = ({ routing, onMissingKey, onApiStart, onApiSuccess, onApiError }) => {
+  const { language, t } = useLanguage();
+  const [queue] = useState<VocabularyEntry[]>(() => createQueue());
+  const [position, setPosition] = useState(0);
+  const [sentence, setSentence] = useState('');
+  const [feedback, setFeedback] = useState<SentenceFeedback | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const entry = queue[position];
+  const canGrade = isCapabilityConfigured('textGeneration', routing);
+
+  // Cancel a pending grading when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleCheck = async () => {
+    if (!entry || !sentence.trim() || isGrading || feedback) return;
+    if (!canGrade) {
+      onMissingKey();
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGrading(true);
+    try {
+      onApiStart?.('Grading sentence');
+      const sense = entry.annotation.definitionEn || entry.annotation.definition;
+      const result = await gradeSentence(entry.word, sense, sentence.trim(), language, controller.signal);
+      onApiSuccess?.();
+      addWrittenSentence(entry.word, sentence, result);
+      setFeedback(result);
+    } catch (error) {
+      if (isAbortError(error)) {
+        onApiSuccess?.();
+        return;
+      }
+      onApiError?.(error);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsGrading(false);
+      }
+    }
+  };
+
+  const handleRetry = () => {
+    setFeedback(null);
+  };
+
+  const handleNext = () => {
+    abortRef.current?.abort();
+    setSentence('');
+    setFeedback(null);
+    setPosition(position + 1);
+  };
+
+  if (queue.length === 0) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
+        <PenLine size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.sentences.noWordsTitle}</h2>
+        <p className="text-slate-500 text-center max-w-md">{t.sentences.noWordsMessage}</p>
+      </div>
+    );
+  }
+
+  if (!entry) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center animate-in fade-in duration-300">
+        <Check size={64} className="text-green-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.sentences.summaryTitle}</h2>
+        <p className="text-slate-500">{t.sentences.summaryMessage.replace('{count}', String(queue.length))}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.sentences.title}</h2>
+          <p className="text-sm text-slate-500">{t.sentences.description}</p>
+        </div>
+        <span className="text-sm text-slate-500">{position + 1} / {queue.length}</span>
+      </div>
+
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Target word */}
+        <div className="space-y-1">
+          <div className="flex items-baseline gap-2 flex-wrap">
+            <span className="font-serif text-3xl font-semibold text-slate-800">{entry.word}</span>
+            {entry.annotation.ipa && <span className="text-sm text-slate-500">{entry.annotation.ipa}</span>}
+          </div>
+          <p className="text-slate-600">{entry.annotation.definition}</p>
+          {entry.writtenSentences.length > 0 && (
+            <p className="text-xs text-slate-400">
+              {t.sentences.previousAttempts.replace('{count}', String(entry.writtenSentences.length))}
+            </p>
+          )}
+        </div>
+
+        {/* Sentence */}
+        <textarea
+          key={entry.word}
+          value={sentence}
+          onChange={(e) => setSentence(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleCheck();
+            }
+          }}
+          disabled={isGrading || feedback !== null}
+          placeholder={t.sentences.placeholder.replace('{word}', entry.word)}
+          rows={3}
+          autoFocus
+          className="w-full px-4 py-2 font-serif text-lg border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-none disabled:bg-slate-50"
+        />
+
+        {!feedback ? (
+          <div className="flex items-center justify-between gap-2">
+            {!canGrade ? (
+              <span className="text-xs text-slate-500">{t.sentences.notConfigured}</span>
+            ) : <span />}
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={handleNext} disabled={isGrading}>
+                <SkipForward className="w-4 h-4 mr-2" />
+                {t.sentences.skip}
+              </Button>
+              <Button onClick={handleCheck} disabled={!sentence.trim() || isGrading}>
+                {isGrading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {isGrading ? t.sentences.grading : t.sentences.check}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 animate-in fade-in duration-200">
+            <div className="p-4 bg-slate-50 rounded-lg space-y-4">
+              {/* Scores */}
+              <div className="flex flex-wrap items-center gap-6">
+                <div>
+                  <p className="text-xs text-slate-500">{t.sentences.correctness}</p>
+                  <p className={`text-2xl font-semibold ${scoreClass(feedback.correctness)}`}>{Math.round(feedback.correctness)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-slate-500">{t.sentences.naturalness}</p>
+                  <p className={`text-2xl font-semibold ${scoreClass(feedback.naturalness)}`}>{Math.round(feedback.naturalness)}</p>
+                </div>
+                <span className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm ${feedback.senseMatches ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                  {feedback.senseMatches ? <Check size={14} /> : <X size={14} />}
+                  {feedback.senseMatches ? t.sentences.senseMatches : t.sentences.senseMismatch}
+                </span>
+              </div>
+
+              <p className="text-sm text-slate-700">{feedback.explanation}</p>
+
+              {/* Corrections */}
+              {feedback.correctedSentence && feedback.correctedSentence.trim() !== sentence.trim() && (
+                <div>
+                  <p className="text-xs text-slate-500 mb-1">{t.sentences.corrected}</p>
+                  <p className="font-serif text-lg text-slate-800">{feedback.correctedSentence}</p>
+                </div>
+              )}
+              {feedback.corrections.length > 0 && (
+                <ul className="space-y-2">
+                  {feedback.corrections.map((correction, i) => (
+                    <li key={i} className="text-sm border-l-2 border-amber-300 pl-3">
+                      <span className="font-serif text-red-700 line-through">{correction.original}</span>
+                      <ArrowRight size={12} className="inline mx-1 text-slate-400" />
+                      <span className="font-serif text-green-700">{correction.corrected}</span>
+                      {correction.explanation && <p className="text-slate-600">{correction.explanation}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="secondary" onClick={handleRetry}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                {t.sentences.retry}
+              </Button>
+              <Button onClick={handleNext}>{t.sentences.next}</Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
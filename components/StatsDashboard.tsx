@@ -0,0 +1,276 @@
+import { BarChart3 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { Translations } from '../i18n/translations';
+import { DayStats, getLearningStats } from '../services/statsService';
+import { StudyActivity } from '../types';
+
+const RANGES = [30, 90];
+
+// Display order of the activities and their label keys
+const ACTIVITY_LABELS: Record<StudyActivity, keyof Translations['stats']> = {
+  read: 'activityRead',
+  listen: 'activityListen',
+  pronounce: 'activityPronounce',
+  write: 'activityWrite',
+  quiz: 'activityQuiz',
+  dictate: 'activityDictate',
+  review: 'activityReview',
+  vocabulary: 'activityVocabulary',
+  placement: 'activityPlacement',
+  sentences: 'activitySentences',
+};
+
+const formatDuration = (ms: number, t: Translations): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return t.stats.minutes.replace('{m}', String(minutes));
+  return t.stats.hoursMinutes
+    .replace('{h}', String(Math.floor(minutes / 60)))
+    .replace('{m}', String(minutes % 60));
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+interface ChartCardProps {
+  title: string;
+  hint?: string;
+  children: React.ReactNode;
+}
+
+const ChartCard: React.FC<ChartCardProps> = ({ title, hint, children }) => (
+  <div className="border border-slate-200 rounded-lg p-4">
+    <div className="flex items-baseline justify-between mb-3">
+      <h3 className="text-sm font-semibold text-slate-700">{title}</h3>
+      {hint && <span className="text-xs text-slate-400">{hint}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+// First and last date under a chart
+const DateAxis: React.FC<{ days: DayStats[] }> = ({ days }) => (
+  <div className="flex justify-between mt-1 text-[10px] text-slate-400">
+    <span>{days[0]?.date.slice(5)}</span>
+    <span>{days[days.length - 1]?.date.slice(5)}</span>
+  </div>
+);
+
+interface BarChartProps {
+  days: DayStats[];
+  value: (day: DayStats) => number | null;   // null leaves a gap
+  max: number;
+  label: (day: DayStats) => string;
+}
+
+const BarChart: React.FC<BarChartProps> = ({ days, value, max, label }) => (
+  <div>
+    <div className="h-32 flex items-end gap-px">
+      {days.map(day => {
+        const v = value(day);
+        return (
+          <div key={day.date} className="flex-1 h-full flex items-end group" title={`${day.date}: ${label(day)}`}>
+            {v !== null && v > 0 && (
+              <div
+                className="w-full bg-brand-400 group-hover:bg-brand-600 rounded-t-sm transition-colors"
+                style={{ height: `${Math.max(2, (v / (max || 1)) * 100)}%` }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+    <DateAxis days={days} />
+  </div>
+);
+
+interface LineChartProps {
+  days: DayStats[];
+  value: (day: DayStats) => number | null;   // Days without a value are skipped
+  max: number;
+  label: (day: DayStats) => string;
+}
+
+const LineChart: React.FC<LineChartProps> = ({ days, value, max, label }) => {
+  const points = days
+    .map((day, i) => ({ day, x: days.length > 1 ? (i / (days.length - 1)) * 100 : 50, v: value(day) }))
+    .filter((point): point is { day: DayStats; x: number; v: number } => point.v !== null)
+    .map(point => ({ ...point, y: 100 - (point.v / (max || 1)) * 100 }));
+
+  return (
+    <div>
+      <div className="relative h-32">
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full overflow-visible">
+          <polyline
+            points={points.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="none"
+            className="stroke-brand-500"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+        {/* Dots as HTML so they stay round in the stretched chart */}
+        {points.map(p => (
+          <div
+            key={p.day.date}
+            className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-brand-600"
+            style={{ left: `${p.x}%`, top: `${p.y}%` }}
+            title={`${p.day.date}: ${label(p.day)}`}
+          />
+        ))}
+      </div>
+      <DateAxis days={days} />
+    </div>
+  );
+};
+
+const NoData: React.FC<{ t: Translations }> = ({ t }) => (
+  <div className="h-32 flex items-center justify-center text-sm text-slate-400">{t.stats.noData}</div>
+);
+
+export const StatsDashboard: React.FC = () => {
+  const { t } = useLanguage();
+  const [range, setRange] = useState(RANGES[0]);
+  const stats = useMemo(() => getLearningStats(range), [range]);
+  const { days, studyTime, forgottenWords } = stats;
+
+  const totals = useMemo(() => {
+    const lookups = days.reduce((sum, day) => sum + day.lookups, 0);
+    const reviews = days.reduce((sum, day) => sum + day.reviews, 0);
+    const correct = days.reduce((sum, day) => sum + day.correctReviews, 0);
+    const scored = days.filter(day => day.pronunciationScore !== null);
+    const time = (Object.values(studyTime) as number[]).reduce((sum, ms) => sum + ms, 0);
+    return {
+      lookups,
+      reviews,
+      accuracy: reviews > 0 ? correct / reviews : null,
+      pronunciation: scored.length > 0
+        ? scored.reduce((sum, day) => sum + (day.pronunciationScore ?? 0), 0) / scored.length
+        : null,
+      time,
+    };
+  }, [days, studyTime]);
+
+  const maxLookups = Math.max(0, ...days.map(day => day.lookups));
+  const maxMastered = Math.max(0, ...days.map(day => day.mastered));
+  const activities = (Object.keys(ACTIVITY_LABELS) as StudyActivity[]).filter(activity => studyTime[activity]);
+  const maxTime = Math.max(0, ...activities.map(activity => studyTime[activity] ?? 0));
+
+  const tiles = [
+    { label: t.stats.lookups, value: String(totals.lookups) },
+    { label: t.stats.reviewAccuracy, value: totals.accuracy !== null ? percent(totals.accuracy) : '–' },
+    { label: t.stats.pronunciationScore, value: totals.pronunciation !== null ? String(Math.round(totals.pronunciation)) : '–' },
+    { label: t.stats.studyTime, value: formatDuration(totals.time, t) },
+  ];
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="text-brand-500" />
+          <div>
+            <h2 className="text-lg font-semibold text-slate-700">{t.stats.title}</h2>
+            <p className="text-sm text-slate-500">{t.stats.description.replace('{days}', String(range))}</p>
+          </div>
+        </div>
+        <div className="flex bg-slate-100 p-1 rounded-lg">
+          {RANGES.map(dayCount => (
+            <button
+              key={dayCount}
+              onClick={() => setRange(dayCount)}
+              className={`px-3 py-1 rounded-md text-xs font-semibold transition-all ${range === dayCount ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+            >
+              {t.stats.days.replace('{days}', String(dayCount))}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals over the range */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-slate-50 rounded-lg px-4 py-3">
+            <div className="text-2xl font-semibold text-slate-800">{tile.value}</div>
+            <div className="text-xs text-slate-500">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <ChartCard title={t.stats.lookupsChart} hint={totals.lookups > 0 ? String(totals.lookups) : undefined}>
+          {maxLookups > 0
+            ? <BarChart days={days} value={day => day.lookups} max={maxLookups} label={day => String(day.lookups)} />
+            : <NoData t={t} />}
+        </ChartCard>
+
+        <ChartCard title={t.stats.masteredChart} hint={maxMastered > 0 ? String(days[days.length - 1].mastered) : undefined}>
+          {maxMastered > 0
+            ? <LineChart days={days} value={day => day.mastered} max={maxMastered} label={day => String(day.mastered)} />
+            : <NoData t={t} />}
+        </ChartCard>
+
+        <ChartCard
+          title={t.stats.accuracyChart}
+          hint={totals.reviews > 0 ? t.stats.reviewCount.replace('{count}', String(totals.reviews)) : undefined}
+        >
+          {totals.reviews > 0 ? (
+            <BarChart
+              days={days}
+              value={day => (day.reviews > 0 ? day.correctReviews / day.reviews : null)}
+              max={1}
+              label={day => day.reviews > 0
+                ? `${percent(day.correctReviews / day.reviews)} (${t.stats.reviewCount.replace('{count}', String(day.reviews))})`
+                : '–'}
+            />
+          ) : <NoData t={t} />}
+        </ChartCard>
+
+        <ChartCard title={t.stats.pronunciationChart}>
+          {totals.pronunciation !== null ? (
+            <LineChart
+              days={days}
+              value={day => day.pronunciationScore}
+              max={100}
+              label={day => String(Math.round(day.pronunciationScore ?? 0))}
+            />
+          ) : <NoData t={t} />}
+        </ChartCard>
+
+        <ChartCard title={t.stats.studyTimeChart}>
+          {activities.length > 0 ? (
+            <div className="space-y-2">
+              {activities.map(activity => (
+                <div key={activity} className="flex items-center gap-3">
+                  <span className="w-24 text-xs text-slate-600 truncate">{t.stats[ACTIVITY_LABELS[activity]]}</span>
+                  <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-brand-500"
+                      style={{ width: `${((studyTime[activity] ?? 0) / (maxTime || 1)) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-24 text-right text-xs text-slate-500">{formatDuration(studyTime[activity] ?? 0, t)}</span>
+                </div>
+              ))}
+            </div>
+          ) : <NoData t={t} />}
+        </ChartCard>
+
+        <ChartCard title={t.stats.forgottenWords} hint={t.stats.forgottenHint}>
+          {forgottenWords.length > 0 ? (
+            <ul className="divide-y divide-slate-100">
+              {forgottenWords.slice(0, 10).map(entry => (
+                <li key={entry.word} className="flex items-baseline gap-3 py-1.5">
+                  <span className="font-serif font-semibold text-slate-800">{entry.word}</span>
+                  <span className="flex-1 min-w-0 text-xs text-slate-500 truncate">{entry.annotation.definition}</span>
+                  <span className="text-xs font-medium text-red-600 whitespace-nowrap">
+                    {t.stats.forgottenCount.replace('{count}', String(entry.forgottenCount))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : <NoData t={t} />}
+        </ChartCard>
+      </div>
+    </div>
+  );
+};
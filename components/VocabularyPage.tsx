@@ -0,0 +1,244 @@
+import { BookMarked, Check, ChevronDown, ChevronRight, Download, GraduationCap, PenLine, Search, Target, Trash2, Trophy, X } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../i18n/LanguageContext';
+import { daysUntilDue, isDue, isMastered } from '../services/spacedRepetition';
+import { deleteVocabularyEntry, loadVocabulary } from '../services/wordMasteryService';
+import { VocabularyEntry } from '../types';
+import { AnkiExportModal } from './AnkiExportModal';
+import { Button } from './Button';
+import { KnownWordsModal } from './KnownWordsModal';
+
+type SortOrder = 'recent' | 'alphabetical' | 'due' | 'mastery' | 'sources';
+
+const SORTERS: Record<SortOrder, (a: VocabularyEntry, b: VocabularyEntry) => number> = {
+  recent: (a, b) => b.updatedAt - a.updatedAt,
+  alphabetical: (a, b) => a.word.localeCompare(b.word),
+  due: (a, b) => a.dueAt - b.dueAt,
+  // Shortest review interval (least known) first
+  mastery: (a, b) => a.interval - b.interval || a.ease - b.ease,
+  sources: (a, b) => b.sources.length - a.sources.length || b.updatedAt - a.updatedAt,
+};
+
+interface VocabularyPageProps {
+  onStartReview: () => void;
+  onStartPlacement: () => void;
+  onStartSentences: () => void;
+}
+
+export const VocabularyPage: React.FC<VocabularyPageProps> = ({ onStartReview, onStartPlacement, onStartSentences }) => {
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<VocabularyEntry[]>(() => loadVocabulary());
+  const [query, setQuery] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recent');
+  const [expandedWord, setExpandedWord] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isKnownWordsOpen, setIsKnownWordsOpen] = useState(false);
+  const dueCount = useMemo(() => entries.filter(e => isDue(e)).length, [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matching = q
+      ? entries.filter(e =>
+          e.word.includes(q) ||
+          e.forms.some(form => form.includes(q)) ||
+          e.annotation.definition.toLowerCase().includes(q) ||
+          e.annotation.definitionEn.toLowerCase().includes(q))
+      : entries;
+    return [...matching].sort(SORTERS[sortOrder]);
+  }, [entries, query, sortOrder]);
+
+  const handleDelete = (word: string) => {
+    if (!window.confirm(t.vocabulary.deleteConfirm.replace('{word}', word))) return;
+    deleteVocabularyEntry(word);
+    setEntries(loadVocabulary());
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
+        <BookMarked size={64} className="text-brand-500 mb-4" />
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.vocabulary.emptyTitle}</h2>
+        <p className="text-slate-500 text-center max-w-md mb-6">{t.vocabulary.emptyMessage}</p>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={onStartPlacement}>
+            <Target className="w-4 h-4 mr-2" />
+            {t.vocabulary.placementTest}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setIsKnownWordsOpen(true)}>
+            <Check className="w-4 h-4 mr-2" />
+            {t.vocabulary.knownWords}
+          </Button>
+        </div>
+        <KnownWordsModal isOpen={isKnownWordsOpen} onClose={() => setIsKnownWordsOpen(false)} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] animate-in fade-in duration-300">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6 pb-4 border-b border-slate-200">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-700">{t.vocabulary.title}</h2>
+          <p className="text-sm text-slate-500">
+            {t.vocabulary.description.replace('{count}', String(entries.length))}
+            {dueCount > 0 && (
+              <span className="ml-2 font-medium text-brand-600">
+                {t.vocabulary.dueToday.replace('{count}', String(dueCount))}
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onStartPlacement}>
+            <Target className="w-4 h-4 mr-2" />
+            {t.vocabulary.placementTest}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setIsKnownWordsOpen(true)}>
+            <Check className="w-4 h-4 mr-2" />
+            {t.vocabulary.knownWords}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => setIsExportOpen(true)}>
+            <Download className="w-4 h-4 mr-2" />
+            {t.vocabulary.exportAnki}
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onStartSentences}>
+            <PenLine className="w-4 h-4 mr-2" />
+            {t.vocabulary.writeSentences}
+          </Button>
+          {dueCount > 0 && (
+            <Button size="sm" onClick={onStartReview}>
+              <GraduationCap className="w-4 h-4 mr-2" />
+              {t.vocabulary.startReview}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <AnkiExportModal isOpen={isExportOpen} onClose={() => setIsExportOpen(false)} entries={entries} />
+      <KnownWordsModal isOpen={isKnownWordsOpen} onClose={() => setIsKnownWordsOpen(false)} />
+
+      {/* Search and sort */}
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.vocabulary.searchPlaceholder}
+            className="w-full pl-9 pr-3 py-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+          className="px-3 py-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+        >
+          <option value="recent">{t.vocabulary.sortRecent}</option>
+          <option value="alphabetical">{t.vocabulary.sortAlphabetical}</option>
+          <option value="due">{t.vocabulary.sortDue}</option>
+          <option value="mastery">{t.vocabulary.sortMastery}</option>
+          <option value="sources">{t.vocabulary.sortSources}</option>
+        </select>
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-8">{t.vocabulary.noResults}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {visibleEntries.map(entry => {
+            const isExpanded = expandedWord === entry.word;
+            const mastered = isMastered(entry);
+
+            return (
+              <li key={entry.word} className="py-3">
+                <div className="flex items-start gap-3">
+                  <button
+                    onClick={() => setExpandedWord(isExpanded ? null : entry.word)}
+                    className="mt-1 text-slate-400 hover:text-slate-600"
+                  >
+                    {isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-baseline gap-2 flex-wrap">
+                      <span className="font-serif text-lg font-semibold text-slate-800">{entry.word}</span>
+                      {entry.forms.some(form => form !== entry.word) && (
+                        <span className="text-sm text-slate-500" title={t.vocabulary.forms}>
+                          ({entry.forms.filter(form => form !== entry.word).join(', ')})
+                        </span>
+                      )}
+                      {entry.annotation.ipa && (
+                        <span className="text-sm text-slate-500">{entry.annotation.ipa}</span>
+                      )}
+                      {mastered && (
+                        <span className="flex items-center gap-1 text-xs text-yellow-600">
+                          <Trophy size={12} />
+                          {t.vocabulary.mastered}
+                        </span>
+                      )}
+                      {isDue(entry) ? (
+                        <span className="text-xs font-medium text-brand-600">{t.vocabulary.due}</span>
+                      ) : (
+                        <span className="text-xs text-slate-400">
+                          {t.vocabulary.dueIn.replace('{days}', String(daysUntilDue(entry)))}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-slate-600">{entry.annotation.definition}</p>
+                    <button
+                      onClick={() => setExpandedWord(isExpanded ? null : entry.word)}
+                      className="text-xs text-brand-600 hover:underline"
+                    >
+                      {t.vocabulary.sources.replace('{count}', String(entry.sources.length))}
+                    </button>
+
+                    {isExpanded && (
+                      <ul className="mt-2 space-y-2">
+                        {entry.sources.map(source => (
+                          <li key={source.textHash} className="text-sm border-l-2 border-slate-200 pl-3">
+                            {source.context && (
+                              <p className="font-serif text-slate-700">{source.context}</p>
+                            )}
+                            {source.preview && (
+                              <p className="text-xs text-slate-400 truncate">{source.preview}</p>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {/* Sentences the learner wrote with the word, with the grader's verdict */}
+                    {isExpanded && entry.writtenSentences.length > 0 && (
+                      <div className="mt-3">
+                        <p className="text-xs font-medium text-slate-500 mb-1">{t.vocabulary.writtenSentences}</p>
+                        <ul className="space-y-1">
+                          {entry.writtenSentences.map(written => (
+                            <li key={written.writtenAt} className="flex items-start gap-2 text-sm">
+                              {written.feedback.senseMatches
+                                ? <Check size={14} className="mt-1 shrink-0 text-green-600" />
+                                : <X size={14} className="mt-1 shrink-0 text-red-600" />}
+                              <span className="font-serif text-slate-700">{written.feedback.correctedSentence || written.sentence}</span>
+                              <span className="ml-auto shrink-0 text-xs text-slate-400">{Math.round(written.feedback.correctness)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDelete(entry.word)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title={t.vocabulary.delete}
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import { Loader2 } from 'lucide-react';
 import React, { useRef, useState } from 'react';
 import { playPronunciation } from '../services/ttsService';
 import { InteractionMode, WordError, WordToken } from '../types';
+import { LEVEL_TEXT_COLORS } from './LevelBadge';
 import { WordTooltip } from './WordTooltip';
 
 interface WordProps {
@@ -11,9 +12,15 @@ interface WordProps {
   interactionMode: InteractionMode;
   onHoverSentence?: (sentenceIndex: number | null) => void;
   pronunciationError?: WordError | null;
+  isSelected?: boolean;  // Selected for batch annotation (shift-click)
+  onSelectSense?: (senseIndex: number) => void;
+  isUnknown?: boolean;   // Neither known nor in the vocabulary (highlighted in read mode)
+  isKnown?: boolean;
+  onToggleKnown?: () => void;
+  showLevel?: boolean;   // Color the word by its CEFR level
 }
 
-export const Word: React.FC<WordProps> = ({ token, onClick, isHighlighted = false, interactionMode, onHoverSentence, pronunciationError }) => {
+export const Word: React.FC<WordProps> = ({ token, onClick, isHighlighted = false, interactionMode, onHoverSentence, pronunciationError, isSelected = false, onSelectSense, isUnknown = false, isKnown = false, onToggleKnown, showLevel = false }) => {
   const [isHovered, setIsHovered] = useState(false);
   const hideTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -108,6 +115,9 @@ export const Word: React.FC<WordProps> = ({ token, onClick, isHighlighted = fals
           transition-colors duration-200 rounded px-0.5 -mx-0.5 select-text
           ${cursorClass}
           ${isLoading ? 'opacity-50' : ''}
+          ${isSelected ? 'bg-amber-100 ring-1 ring-amber-300' : ''}
+          ${showLevel && token.level && !isAnnotated && !isError && !hasPronunciationError ? LEVEL_TEXT_COLORS[token.level] : ''}
+          ${isUnknown && !isSelected && !isAnnotated && !isLoading && !isError && interactionMode === 'read' ? 'bg-sky-50 underline decoration-sky-300 decoration-dotted underline-offset-4' : ''}
           ${isError ? 'text-red-500 decoration-red-300 underline decoration-wavy' : ''}
           ${hasPronunciationError ? 'text-orange-600 underline decoration-orange-400 decoration-wavy decoration-2 underline-offset-2' : ''}
           ${isAnnotated && !hasPronunciationError ? 'text-brand-800 font-semibold border-b-2 border-brand-200' : ''}
@@ -142,6 +152,11 @@ export const Word: React.FC<WordProps> = ({ token, onClick, isHighlighted = fals
           isVisible={isHovered}
           onMouseEnter={handleTooltipMouseEnter}
           onMouseLeave={handleTooltipMouseLeave}
+          senses={token.senses}
+          onSelectSense={onSelectSense}
+          isKnown={isKnown}
+          onToggleKnown={onToggleKnown}
+          level={token.level}
         />
       )}
     </span>
@@ -1,15 +1,22 @@
+import { Check } from 'lucide-react';
 import React, { useEffect, useRef, useState } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
-import { Annotation } from '../types';
+import { Annotation, CefrLevel } from '../types';
+import { LevelBadge } from './LevelBadge';
 
 interface WordTooltipProps {
   annotation: Annotation;
   isVisible: boolean;
   onMouseEnter?: () => void;
   onMouseLeave?: () => void;
+  senses?: Annotation[];  // Known senses of the word (switcher shown when there are several)
+  onSelectSense?: (senseIndex: number) => void;
+  isKnown?: boolean;
+  onToggleKnown?: () => void;
+  level?: CefrLevel;
 }
 
-export const WordTooltip: React.FC<WordTooltipProps> = ({ annotation, isVisible, onMouseEnter, onMouseLeave }) => {
+export const WordTooltip: React.FC<WordTooltipProps> = ({ annotation, isVisible, onMouseEnter, onMouseLeave, senses = [], onSelectSense, isKnown = false, onToggleKnown, level }) => {
   const { t } = useLanguage();
   const tooltipRef = useRef<HTMLDivElement>(null);
   const [showBelow, setShowBelow] = useState(false);
@@ -43,9 +50,39 @@ export const WordTooltip: React.FC<WordTooltipProps> = ({ annotation, isVisible,
       `}
     >
       <div className="bg-slate-800 text-white text-sm px-4 py-3 rounded-lg shadow-xl ring-1 ring-white/10 w-[min(85vw,400px)] md:w-[min(450px,90vw)] select-text">
+        {/* 词义切换 */}
+        {senses.length > 1 && onSelectSense && (
+          <div className="mb-2 pb-2 border-b border-white/10">
+            <div className="text-xs text-slate-400 mb-1">{t.wordTooltip.senses} · {t.wordTooltip.senseHint}</div>
+            <div className="flex flex-wrap gap-1">
+              {senses.map((sense, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSelectSense(idx);
+                  }}
+                  title={sense.definitionEn}
+                  className={`text-xs px-2 py-0.5 rounded transition-colors ${
+                    sense.definition === annotation.definition
+                      ? 'bg-brand-500 text-white'
+                      : 'bg-white/10 text-slate-300 hover:bg-white/20'
+                  }`}
+                >
+                  {idx + 1}. {sense.definition}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* 英汉释义 */}
-        <div className="font-medium text-base mb-2 text-white">
-          {annotation.definition}
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <div className="font-medium text-base text-white">
+            {annotation.definition}
+          </div>
+          {level && <LevelBadge level={level} title={t.wordTooltip.level} />}
         </div>
         
         {/* 英英释义 */}
@@ -124,6 +161,25 @@ export const WordTooltip: React.FC<WordTooltipProps> = ({ annotation, isVisible,
           </div>
         )}
         
+        {/* 标记为已知 */}
+        {onToggleKnown && (
+          <div className="mt-2 pt-2 border-t border-white/10">
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleKnown();
+              }}
+              className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded transition-colors ${
+                isKnown ? 'bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30' : 'bg-white/10 text-slate-300 hover:bg-white/20'
+              }`}
+            >
+              <Check size={12} />
+              {isKnown ? t.wordTooltip.known : t.wordTooltip.markKnown}
+            </button>
+          </div>
+        )}
+
         {/* Tooltip Arrow */}
         <div className={`absolute left-4 -translate-x-1/2 text-slate-800 ${
           showBelow 
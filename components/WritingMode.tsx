@@ -1,13 +1,13 @@
-import { Check, RotateCcw, Trophy } from 'lucide-react';
+import { Check, Lightbulb, RotateCcw, Trophy } from 'lucide-react';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useLanguage } from '../i18n/LanguageContext';
-import {
-  getMasteryThreshold,
-  getUnmasteredWords,
-  markWordCorrect,
-  resetWordProgress
-} from '../services/wordMasteryService';
-import { WordMastery, WordToken } from '../types';
+import { ClozeBlank, DEFAULT_LEARNER_LEVEL, generateCloze } from '../services/clozeGenerator';
+import { lemmatize } from '../services/lemmatizer';
+import { getPlacement } from '../services/placementTest';
+import { isMastered, isNearMiss } from '../services/spacedRepetition';
+import { clozeSettingsItem, readItem, writeItem, writingHintLevelItem } from '../services/storage';
+import { loadVocabulary, reviewWord } from '../services/wordMasteryService';
+import { ClozeDensity, ClozeSettings, ClozeStrategy, HintLevel, ReviewGrade, VocabularyEntry, WordMastery, WordToken } from '../types';
 
 interface WritingModeProps {
   rawText: string;
@@ -18,118 +18,153 @@ interface BlankState {
   tokenIndex: number;
   word: string;
   userInput: string;
-  status: 'blank' | 'correct' | 'incorrect';
-  annotation: WordMastery['annotation'];
-  correctCount: number;
+  // 'near' = accepted with a typo
+  status: 'blank' | 'correct' | 'near' | 'incorrect';
+  annotation?: WordMastery['annotation']; // Only for vocabulary words
+  hintLevel: HintLevel; // Hints shown so far
+  isDue: boolean;      // The first answer is recorded as a review
+  graded: boolean;     // A review was recorded for this word in this round
+  interval: number;    // Days until the next review
+  mastered: boolean;
+}
+
+// From least to most help: the definition is always shown, letter hints give the word away in part
+const HINT_LEVELS: HintLevel[] = ['definition', 'ipa', 'length', 'firstLetter'];
+const DEFAULT_HINT_LEVEL: HintLevel = 'ipa';
+
+const CLOZE_STRATEGIES: ClozeStrategy[] = ['due', 'everyNth', 'aboveLevel', 'functionWords', 'collocations'];
+const CLOZE_DENSITIES: ClozeDensity[] = ['low', 'medium', 'high'];
+const DEFAULT_CLOZE_SETTINGS: ClozeSettings = { strategy: 'due', density: 'medium' };
+
+const hasHint = (blank: BlankState, level: HintLevel) =>
+  HINT_LEVELS.indexOf(blank.hintLevel) >= HINT_LEVELS.indexOf(level);
+
+const nextHintLevel = (level: HintLevel): HintLevel =>
+  HINT_LEVELS[Math.min(HINT_LEVELS.indexOf(level) + 1, HINT_LEVELS.length - 1)];
+
+// Recalling the word with letter hints, or with a typo, is only a partial recall
+const gradeAnswer = (blank: BlankState, isTypo: boolean): ReviewGrade =>
+  isTypo || hasHint(blank, 'length') ? 'hard' : 'good';
+
+// Input placeholder for the letter hints ("_____" or "b____")
+const letterMask = (blank: BlankState): string => {
+  if (hasHint(blank, 'firstLetter')) return blank.word[0] + '_'.repeat(blank.word.length - 1);
+  if (hasHint(blank, 'length')) return '_'.repeat(blank.word.length);
+  return '';
+};
+
+const isDone = (blank: BlankState) => blank.status === 'correct' || blank.status === 'near';
+
+// Blanks for the words the cloze settings pick (the learner's level decides 'aboveLevel')
+function createBlanks(tokens: WordToken[], settings: ClozeSettings, hintLevel: HintLevel): BlankState[] {
+  const level = getPlacement()?.level ?? DEFAULT_LEARNER_LEVEL;
+  return generateCloze(tokens, settings, loadVocabulary(), level).map(({ tokenIndex, entry, isDue }: ClozeBlank) => ({
+    tokenIndex,
+    word: tokens[tokenIndex].text,
+    userInput: '',
+    status: 'blank',
+    annotation: entry?.annotation,
+    hintLevel,
+    isDue,
+    graded: false,
+    interval: entry?.interval ?? 0,
+    mastered: !!entry && isMastered(entry)
+  }));
 }
 
 export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) => {
   const [blanks, setBlanks] = useState<BlankState[]>([]);
-  const [allCorrect, setAllCorrect] = useState(false);
+  const [startHintLevel, setStartHintLevel] = useState<HintLevel>(() => readItem(writingHintLevelItem) ?? DEFAULT_HINT_LEVEL);
+  const [clozeSettings, setClozeSettings] = useState<ClozeSettings>(() => readItem(clozeSettingsItem) ?? DEFAULT_CLOZE_SETTINGS);
   const inputRefs = useRef<Map<number, HTMLInputElement>>(new Map());
+  // Words reviewed in this round (by lemma), with their updated entries
+  const reviewedWordsRef = useRef<Map<string, VocabularyEntry | null>>(new Map());
   const { t } = useLanguage();
 
-  // Initialize blanks from unmastered words
-  useEffect(() => {
-    const unmasteredWords = getUnmasteredWords(rawText);
+  const allCorrect = blanks.length > 0 && blanks.every(isDone);
 
-    if (unmasteredWords.length === 0) {
-      setBlanks([]);
-      return;
-    }
-
-    // Find token indices for unmastered words
-    const newBlanks: BlankState[] = [];
-    const usedWords = new Set<string>();
-
-    tokens.forEach((token, index) => {
-      if (!token.isWord) return;
-
-      const wordLower = token.text.toLowerCase();
-      const mastery = unmasteredWords.find(w => w.word === wordLower);
-
-      // Only create one blank per unique word
-      if (mastery && !usedWords.has(wordLower)) {
-        usedWords.add(wordLower);
-        newBlanks.push({
-          tokenIndex: index,
-          word: token.text,
-          userInput: '',
-          status: 'blank',
-          annotation: mastery.annotation,
-          correctCount: mastery.correctCount
-        });
-      }
-    });
-
-    setBlanks(newBlanks);
-    setAllCorrect(false);
+  // Initialize blanks with the saved settings
+  useEffect(() => {
+    reviewedWordsRef.current.clear();
+    setBlanks(createBlanks(
+      tokens,
+      readItem(clozeSettingsItem) ?? DEFAULT_CLOZE_SETTINGS,
+      readItem(writingHintLevelItem) ?? DEFAULT_HINT_LEVEL
+    ));
   }, [rawText, tokens]);
 
-  // Handle input change with immediate checking
-  const handleInputChange = useCallback((tokenIndex: number, value: string) => {
-    setBlanks(prev => {
-      const newBlanks = prev.map(blank => {
-        if (blank.tokenIndex !== tokenIndex) return blank;
-
-        // Already correct - don't change
-        if (blank.status === 'correct') return blank;
+  // Record the first answer to each due word as a review, with the hints it needed (reviews
+  // are saved outside the state updater so they aren't applied twice). A word blanked more
+  // than once is reviewed once per round, by the first answer to any of its blanks.
+  const grade = (blank: BlankState, reviewGrade: ReviewGrade): BlankState => {
+    if (blank.graded || !blank.isDue) return blank;
+    const lemma = lemmatize(blank.word);
+    const reviewed = reviewedWordsRef.current;
+    if (!reviewed.has(lemma)) reviewed.set(lemma, reviewWord(blank.word, reviewGrade, blank.hintLevel));
+    const entry = reviewed.get(lemma);
+    return {
+      ...blank,
+      graded: true,
+      interval: entry?.interval ?? blank.interval,
+      mastered: entry ? isMastered(entry) : blank.mastered
+    };
+  };
 
-        const inputLower = value.toLowerCase().trim();
-        const wordLower = blank.word.toLowerCase();
+  const updateBlank = (tokenIndex: number, update: (blank: BlankState) => BlankState) => {
+    setBlanks(blanks.map(blank => (blank.tokenIndex === tokenIndex ? update(blank) : blank)));
+  };
 
-        // Check if correct
-        if (inputLower === wordLower) {
-          const newCount = markWordCorrect(rawText, blank.word);
-          return { ...blank, userInput: value, status: 'correct' as const, correctCount: newCount };
-        }
+  // Check while typing: an exact match is correct right away, anything else waits for submit
+  const handleInputChange = (tokenIndex: number, value: string) => {
+    updateBlank(tokenIndex, blank => {
+      // Already done - don't change
+      if (isDone(blank)) return blank;
 
-        // Check if incorrect (only when input length >= word length or has wrong characters)
-        const isIncorrect = inputLower.length > 0 && !wordLower.startsWith(inputLower);
+      if (value.toLowerCase().trim() === blank.word.toLowerCase()) {
+        return { ...grade(blank, gradeAnswer(blank, false)), userInput: value, status: 'correct' };
+      }
+      return { ...blank, userInput: value, status: 'blank' };
+    });
+  };
 
-        if (isIncorrect) {
-          resetWordProgress(rawText, blank.word);
-          return { ...blank, userInput: value, status: 'incorrect' as const, correctCount: 0 };
-        }
+  // Submit (Enter or the check button, never leaving the field, so a half-typed answer isn't
+  // graded): a near miss is accepted as a typo, anything else is wrong and reveals the next hint
+  const handleSubmit = (tokenIndex: number) => {
+    updateBlank(tokenIndex, blank => {
+      if (isDone(blank) || blank.status === 'incorrect' || !blank.userInput.trim()) return blank;
 
-        // Still typing - show as blank (neutral)
-        return { ...blank, userInput: value, status: 'blank' as const };
-      });
+      if (isNearMiss(blank.userInput, blank.word)) {
+        return { ...grade(blank, gradeAnswer(blank, true)), userInput: blank.word, status: 'near' };
+      }
+      return { ...grade(blank, 'again'), status: 'incorrect', hintLevel: nextHintLevel(blank.hintLevel) };
+    });
+  };
 
-      // Check if all are correct
-      const allDone = newBlanks.every(b => b.status === 'correct');
-      setAllCorrect(allDone);
+  const handleHint = (tokenIndex: number) => {
+    updateBlank(tokenIndex, blank => ({ ...blank, hintLevel: nextHintLevel(blank.hintLevel) }));
+    inputRefs.current.get(tokenIndex)?.focus();
+  };
 
-      return newBlanks;
-    });
-  }, [rawText]);
+  // The starting hints are a setting; blanks not answered yet get at least the new hints
+  const handleStartHintLevelChange = (level: HintLevel) => {
+    setStartHintLevel(level);
+    writeItem(writingHintLevelItem, level);
+    setBlanks(blanks.map(blank => (blank.graded || hasHint(blank, level) ? blank : { ...blank, hintLevel: level })));
+  };
 
-  // Reset all blanks - re-fetch from localStorage to exclude mastered words
+  // Start a new round (with the 'due' strategy, only the words that are still due)
   const handleReset = useCallback(() => {
-    const unmasteredWords = getUnmasteredWords(rawText);
-    const masteryThreshold = getMasteryThreshold();
-
-    setBlanks(prev => {
-      // Filter out words that have been mastered, and reset the rest
-      return prev
-        .filter(blank => {
-          // Check if this word is still unmastered in localStorage
-          const mastery = unmasteredWords.find(w => w.word === blank.word.toLowerCase());
-          return mastery && mastery.correctCount < masteryThreshold;
-        })
-        .map(blank => {
-          // Get fresh correctCount from localStorage
-          const mastery = unmasteredWords.find(w => w.word === blank.word.toLowerCase());
-          return {
-            ...blank,
-            userInput: '',
-            status: 'blank' as const,
-            correctCount: mastery?.correctCount ?? blank.correctCount
-          };
-        });
-    });
-    setAllCorrect(false);
-  }, [rawText]);
+    reviewedWordsRef.current.clear();
+    setBlanks(createBlanks(tokens, clozeSettings, startHintLevel));
+  }, [tokens, clozeSettings, startHintLevel]);
+
+  // Changing which words are blanked starts a new round
+  const handleClozeSettingsChange = (settings: ClozeSettings) => {
+    setClozeSettings(settings);
+    writeItem(clozeSettingsItem, settings);
+    reviewedWordsRef.current.clear();
+    setBlanks(createBlanks(tokens, settings, startHintLevel));
+  };
 
   // Check if a token should be shown as a blank
   const isBlankToken = useCallback((tokenIndex: number): BlankState | undefined => {
@@ -141,6 +176,8 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
     switch (status) {
       case 'correct':
         return 'border-green-500 bg-green-50 text-green-700';
+      case 'near':
+        return 'border-amber-500 bg-amber-50 text-amber-700';
       case 'incorrect':
         return 'border-red-500 bg-red-50 text-red-700';
       default:
@@ -148,16 +185,44 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
     }
   };
 
-  const masteryThreshold = getMasteryThreshold();
+  const selectClass = 'px-2 py-1 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-brand-500 focus:border-transparent';
+
+  // Which words are blanked, and how many (the due words are always all blanked)
+  const clozeControls = (
+    <>
+      <select
+        value={clozeSettings.strategy}
+        onChange={(e) => handleClozeSettingsChange({ ...clozeSettings, strategy: e.target.value as ClozeStrategy })}
+        title={t.writingMode.strategy}
+        className={selectClass}
+      >
+        {CLOZE_STRATEGIES.map(strategy => <option key={strategy} value={strategy}>{t.writingMode.strategies[strategy]}</option>)}
+      </select>
+      {clozeSettings.strategy !== 'due' && (
+        <select
+          value={clozeSettings.density}
+          onChange={(e) => handleClozeSettingsChange({ ...clozeSettings, density: e.target.value as ClozeDensity })}
+          title={t.writingMode.density}
+          className={selectClass}
+        >
+          {CLOZE_DENSITIES.map(density => <option key={density} value={density}>{t.writingMode.densities[density]}</option>)}
+        </select>
+      )}
+    </>
+  );
 
   if (blanks.length === 0) {
+    const isDueStrategy = clozeSettings.strategy === 'due';
     return (
       <div className="p-4 md:p-8 bg-white shadow-sm rounded-xl min-h-[50vh] flex flex-col items-center justify-center">
         <Trophy size={64} className="text-yellow-500 mb-4" />
-        <h2 className="text-xl font-semibold text-slate-700 mb-2">{t.writingMode.noWordsTitle}</h2>
-        <p className="text-slate-500 text-center max-w-md whitespace-pre-line">
-          {t.writingMode.noWordsMessage}
+        <h2 className="text-xl font-semibold text-slate-700 mb-2">
+          {isDueStrategy ? t.writingMode.noWordsTitle : t.writingMode.noBlanksTitle}
+        </h2>
+        <p className="text-slate-500 text-center max-w-md whitespace-pre-line mb-6">
+          {isDueStrategy ? t.writingMode.noWordsMessage : t.writingMode.noBlanksMessage}
         </p>
+        <div className="flex items-center gap-2">{clozeControls}</div>
       </div>
     );
   }
@@ -169,22 +234,33 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
         <div>
           <h2 className="text-lg font-semibold text-slate-700">{t.writingMode.title}</h2>
           <p className="text-sm text-slate-500">
-            {t.writingMode.description.replace('{count}', String(masteryThreshold))}
+            {t.writingMode.description}
           </p>
         </div>
-        <button
-          onClick={handleReset}
-          className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
-        >
-          <RotateCcw size={16} />
-          {t.writingMode.reset}
-        </button>
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {clozeControls}
+          <select
+            value={startHintLevel}
+            onChange={(e) => handleStartHintLevelChange(e.target.value as HintLevel)}
+            title={t.writingMode.hintLevel}
+            className={selectClass}
+          >
+            {HINT_LEVELS.map(level => <option key={level} value={level}>{t.writingMode.hintLevels[level]}</option>)}
+          </select>
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 hover:text-slate-800 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <RotateCcw size={16} />
+            {t.writingMode.reset}
+          </button>
+        </div>
       </div>
 
       {/* Progress */}
       <div className="mb-6">
         <div className="flex items-center justify-between text-sm text-slate-600 mb-2">
-          <span>{blanks.filter(b => b.status === 'correct').length} / {blanks.length} {t.writingMode.correct}</span>
+          <span>{blanks.filter(isDone).length} / {blanks.length} {t.writingMode.correct}</span>
           {allCorrect && (
             <span className="flex items-center gap-1 text-green-600">
               <Check size={16} />
@@ -195,7 +271,7 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
         <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
           <div
             className="h-full bg-green-500 transition-all duration-300"
-            style={{ width: `${(blanks.filter(b => b.status === 'correct').length / blanks.length) * 100}%` }}
+            style={{ width: `${(blanks.filter(isDone).length / blanks.length) * 100}%` }}
           />
         </div>
       </div>
@@ -207,7 +283,8 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
             const blank = isBlankToken(index);
 
             if (blank) {
-              const inputWidth = Math.max(blank.word.length * 12, 60);
+              // Without letter hints the width mustn't give the word's length away
+              const inputWidth = hasHint(blank, 'length') ? Math.max(blank.word.length * 12, 60) : 120;
 
               return (
                 <span key={token.id} className="inline-flex items-center align-baseline mx-1">
@@ -219,29 +296,53 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
                       type="text"
                       value={blank.userInput}
                       onChange={(e) => handleInputChange(index, e.target.value)}
-                      disabled={blank.status === 'correct'}
+                      onKeyDown={(e) => e.key === 'Enter' && handleSubmit(index)}
+                      disabled={isDone(blank)}
+                      placeholder={letterMask(blank)}
                       className={`
                         px-2 py-1 text-center font-serif text-lg rounded-md border-2 outline-none transition-all
                         ${getStatusClass(blank.status)}
                       `}
                       style={{ width: inputWidth }}
                     />
-                    {/* Hint tooltip */}
-                    <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-slate-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
-                      {blank.annotation.definition} ({blank.annotation.ipa})
-                    </span>
-                    {/* Correct count badge */}
-                    {blank.status === 'correct' && blank.correctCount < masteryThreshold && (
-                      <span className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center bg-green-500 text-white text-xs font-bold rounded-full">
-                        {blank.correctCount}
+                    {/* Hint tooltip (words that were never looked up only get letter hints) */}
+                    {blank.annotation && (
+                      <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-2 py-1 bg-slate-800 text-white text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
+                        {blank.annotation.definition}
+                        {hasHint(blank, 'ipa') && blank.annotation.ipa && ` (${blank.annotation.ipa})`}
                       </span>
                     )}
-                    {blank.correctCount >= masteryThreshold && (
+                    {/* Next review badge */}
+                    {isDone(blank) && blank.graded && !blank.mastered && (
+                      <span className="absolute -top-2 -right-2 px-1 h-5 flex items-center justify-center bg-green-500 text-white text-xs font-bold rounded-full">
+                        {blank.interval}d
+                      </span>
+                    )}
+                    {blank.mastered && (
                       <span className="absolute -top-2 -right-2 w-5 h-5 flex items-center justify-center bg-yellow-500 text-white rounded-full">
                         <Trophy size={12} />
                       </span>
                     )}
                   </span>
+                  {!isDone(blank) && blank.status !== 'incorrect' && blank.userInput.trim() && (
+                    <button
+                      onClick={() => handleSubmit(index)}
+                      className="ml-1 p-1 text-slate-400 hover:text-green-600 transition-colors"
+                      title={t.writingMode.checkAnswer}
+                    >
+                      <Check size={16} />
+                    </button>
+                  )}
+                  {!isDone(blank) && blank.hintLevel !== 'firstLetter' && (
+                    <button
+                      onMouseDown={(e) => e.preventDefault()} // Keep focus in the input to go on typing
+                      onClick={() => handleHint(index)}
+                      className="ml-1 p-1 text-slate-400 hover:text-amber-500 transition-colors"
+                      title={t.writingMode.moreHint}
+                    >
+                      <Lightbulb size={16} />
+                    </button>
+                  )}
                 </span>
               );
             }
@@ -270,16 +371,20 @@ export const WritingMode: React.FC<WritingModeProps> = ({ rawText, tokens }) =>
                 px-3 py-1 rounded-full text-sm font-medium transition-colors
                 ${blank.status === 'correct'
                   ? 'bg-green-100 text-green-700'
-                  : blank.status === 'incorrect'
+                  : blank.status === 'near'
+                    ? 'bg-amber-100 text-amber-700'
+                    : blank.status === 'incorrect'
                     ? 'bg-red-100 text-red-700'
                     : 'bg-slate-100 text-slate-600'
                 }
               `}
             >
-              {blank.status === 'correct' ? blank.word : '???'}
-              <span className="ml-1 text-xs opacity-75">
-                ({blank.correctCount}/{masteryThreshold})
-              </span>
+              {isDone(blank) ? blank.word : '???'}
+              {blank.graded && (
+                <span className="ml-1 text-xs opacity-75">
+                  ({t.writingMode.nextReview.replace('{days}', String(blank.interval))})
+                </span>
+              )}
             </span>
           ))}
         </div>
@@ -1,4 +1,5 @@
 import React, { createContext, ReactNode, useContext, useState } from 'react';
+import { languageItem, readItem, writeItem } from '../services/storage';
 import { Language, translations, Translations } from './translations';
 
 interface LanguageContextType {
@@ -9,21 +10,18 @@ interface LanguageContextType {
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'philingo_language';
-
 interface LanguageProviderProps {
   children: ReactNode;
 }
 
 export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
   const [language, setLanguageState] = useState<Language>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    return (stored === 'zh' || stored === 'ja' || stored === 'vi') ? stored : 'zh';
+    return readItem(languageItem) || 'zh';
   });
 
   const setLanguage = (lang: Language) => {
     setLanguageState(lang);
-    localStorage.setItem(STORAGE_KEY, lang);
+    writeItem(languageItem, lang);
   };
 
   const value: LanguageContextType = {
@@ -13,6 +13,11 @@ export interface Translations {
     antonyms: string;
     associations: string;
     phrases: string;
+    senses: string;
+    senseHint: string;
+    markKnown: string;
+    known: string;
+    level: string;
   };
   
   // FeedbackPanel
@@ -37,6 +42,17 @@ export interface Translations {
     noWordsTitle: string;
     noWordsMessage: string;
     inputPlaceholder: string;
+    nextReview: string;
+    hintLevel: string;
+    hintLevels: { definition: string; ipa: string; length: string; firstLetter: string };
+    moreHint: string;
+    strategy: string;
+    strategies: { due: string; everyNth: string; aboveLevel: string; functionWords: string; collocations: string };
+    density: string;
+    densities: { low: string; medium: string; high: string };
+    noBlanksTitle: string;
+    noBlanksMessage: string;
+    checkAnswer: string;
   };
   
   // ApiKeyModal
@@ -50,6 +66,12 @@ export interface Translations {
     noConfigMessage: string;
     fillForm: string;
     saveButton: string;
+    routingTitle: string;
+    routingIncomplete: string;
+    capabilityAnnotation: string;
+    capabilityTts: string;
+    capabilityPronunciation: string;
+    capabilityTextGeneration: string;
   };
   
   // App
@@ -72,6 +94,264 @@ export interface Translations {
     inputHint: string;
     chars: string;
     errorPrefix: string;
+    backup: string;
+    vocabulary: string;
+    backToReading: string;
+    review: string;
+    stats: string;
+  };
+  
+  // Errors
+  errors: {
+    configuration: string;
+    invalidKey: string;
+    rateLimit: string;
+    rateLimitRetryAfter: string;
+    quota: string;
+    network: string;
+    server: string;
+    malformedResponse: string;
+    safetyBlock: string;
+    unknown: string;
+  };
+  
+  // BackupModal
+  backup: {
+    title: string;
+    exportTitle: string;
+    exportDesc: string;
+    exportButton: string;
+    importTitle: string;
+    importDesc: string;
+    chooseFile: string;
+    modeMerge: string;
+    modeReplace: string;
+    importButton: string;
+    replaceConfirm: string;
+    importSuccess: string;
+    importFailed: string;
+    reload: string;
+  };
+  
+  // Vocabulary notebook
+  vocabulary: {
+    title: string;
+    description: string;
+    searchPlaceholder: string;
+    sortRecent: string;
+    sortAlphabetical: string;
+    sortMastery: string;
+    sortSources: string;
+    mastered: string;
+    sources: string;
+    delete: string;
+    deleteConfirm: string;
+    emptyTitle: string;
+    emptyMessage: string;
+    noResults: string;
+    dueToday: string;
+    due: string;
+    dueIn: string;
+    sortDue: string;
+    startReview: string;
+    exportAnki: string;
+    forms: string;
+    knownWords: string;
+    placementTest: string;
+    writeSentences: string;
+    writtenSentences: string;
+  };
+  
+  // Review session
+  review: {
+    title: string;
+    cardCloze: string;
+    cardDefinition: string;
+    cardAudio: string;
+    playAudio: string;
+    answerPlaceholder: string;
+    showAnswer: string;
+    answerCorrect: string;
+    answerNear: string;
+    answerWrong: string;
+    again: string;
+    hard: string;
+    good: string;
+    easy: string;
+    today: string;
+    interval: string;
+    summaryTitle: string;
+    summaryReviewed: string;
+    forgotten: string;
+    reviewMore: string;
+    emptyTitle: string;
+    emptyMessage: string;
+    allLevels: string;
+    levelFilter: string;
+  };
+  
+  // Anki export
+  ankiExport: {
+    title: string;
+    description: string;
+    text: string;
+    allTexts: string;
+    from: string;
+    to: string;
+    mastery: string;
+    masteryAll: string;
+    masteryLearning: string;
+    masteryMastered: string;
+    includeAudio: string;
+    matching: string;
+    exportButton: string;
+    success: string;
+    failed: string;
+  };
+  
+  // Reader
+  reader: {
+    unknownWords: string;
+    coverage: string;
+    coverageHint: string;
+    colorByLevel: string;
+    levelHint: string;
+    selectedCount: string;
+    annotateSelected: string;
+    clearSelection: string;
+    shiftClickHint: string;
+    altClickHint: string;
+  };
+  
+  // KnownWordsModal
+  knownWords: {
+    title: string;
+    description: string;
+    count: string;
+    placeholder: string;
+    uploadFile: string;
+    importButton: string;
+    importSuccess: string;
+    clear: string;
+    clearConfirm: string;
+  };
+  
+  // PlacementTest
+  placement: {
+    title: string;
+    description: string;
+    pseudoWordNote: string;
+    previousResult: string;
+    loadFailed: string;
+    start: string;
+    keyboardHint: string;
+    questionCount: string;
+    question: string;
+    yes: string;
+    no: string;
+    resultTitle: string;
+    level: string;
+    vocabularySize: string;
+    unreliable: string;
+    applied: string;
+    retake: string;
+    promptTitle: string;
+    promptMessage: string;
+  };
+  
+  // Statistics dashboard
+  stats: {
+    title: string;
+    description: string;
+    days: string;
+    lookups: string;
+    reviewAccuracy: string;
+    pronunciationScore: string;
+    studyTime: string;
+    lookupsChart: string;
+    masteredChart: string;
+    accuracyChart: string;
+    pronunciationChart: string;
+    studyTimeChart: string;
+    forgottenWords: string;
+    forgottenHint: string;
+    forgottenCount: string;
+    reviewCount: string;
+    noData: string;
+    hoursMinutes: string;
+    minutes: string;
+    activityRead: string;
+    activityListen: string;
+    activityPronounce: string;
+    activityWrite: string;
+    activityReview: string;
+    activityVocabulary: string;
+    activityPlacement: string;
+    activityQuiz: string;
+    activityDictate: string;
+    activitySentences: string;
+  };
+  
+  // Quiz mode
+  quiz: {
+    title: string;
+    keyboardHint: string;
+    wordToMeaning: string;
+    meaningToWord: string;
+    synonym: string;
+    antonym: string;
+    correct: string;
+    incorrect: string;
+    nextReview: string;
+    next: string;
+    summaryTitle: string;
+    summaryScore: string;
+    missed: string;
+    restart: string;
+    noQuestionsTitle: string;
+    noQuestionsMessage: string;
+  };
+  
+  // Dictation mode
+  dictation: {
+    title: string;
+    description: string;
+    replay: string;
+    slow: string;
+    placeholder: string;
+    check: string;
+    retry: string;
+    previous: string;
+    next: string;
+    misspelled: string;
+    missing: string;
+    extra: string;
+    previousResult: string;
+    emptyTitle: string;
+    emptyMessage: string;
+  };
+  
+  // Sentence writing (SentenceWriting.tsx)
+  sentences: {
+    title: string;
+    description: string;
+    noWordsTitle: string;
+    noWordsMessage: string;
+    placeholder: string;
+    check: string;
+    grading: string;
+    skip: string;
+    notConfigured: string;
+    previousAttempts: string;
+    correctness: string;
+    naturalness: string;
+    senseMatches: string;
+    senseMismatch: string;
+    corrected: string;
+    retry: string;
+    next: string;
+    summaryTitle: string;
+    summaryMessage: string;
   };
 }
 
@@ -85,7 +365,12 @@ const zh: Translations = {
     analysis: '辨析',
     antonyms: '反义词',
     associations: '联想',
-    phrases: '词组'
+    phrases: '词组',
+    senses: '词义',
+    senseHint: '选择本句中的词义',
+    markKnown: '标记为已认识',
+    known: '已认识（点击撤销）',
+    level: 'CEFR 难度等级'
   },
   feedbackPanel: {
     title: '发音反馈',
@@ -99,13 +384,24 @@ const zh: Translations = {
   },
   writingMode: {
     title: '写作练习',
-    description: '填写正确的单词。需要{count}次正确答案才能掌握。',
+    description: '填写正确的单词，按回车提交。复习间隔会根据你的回答自动调整。',
     reset: '重置',
     correct: '正确',
     allCorrect: '全部正确！',
-    noWordsTitle: '没有需要练习的单词！',
-    noWordsMessage: '所有查看过的单词都已掌握，或者您还没有查看任何单词。\n切换到阅读模式并点击单词来查看它们。',
-    inputPlaceholder: '在此输入...'
+    noWordsTitle: '今天没有需要复习的单词！',
+    noWordsMessage: '这篇文本中的单词今天都不需要复习，或者您还没有查看任何单词。\n切换到阅读模式并点击单词来查看它们。',
+    inputPlaceholder: '在此输入...',
+    nextReview: '{days} 天后复习',
+    hintLevel: '提示程度',
+    hintLevels: { definition: '仅释义', ipa: '释义 + 音标', length: '+ 字母数', firstLetter: '+ 首字母' },
+    moreHint: '显示更多提示（会计入复习评分）',
+    strategy: '挖空哪些词',
+    strategies: { due: '待复习的单词', everyNth: '每隔几个实词', aboveLevel: '超出我水平的词', functionWords: '虚词（语法练习）', collocations: '搭配词' },
+    density: '挖空密度',
+    densities: { low: '少', medium: '中', high: '多' },
+    noBlanksTitle: '没有可以挖空的词',
+    noBlanksMessage: '这篇文本中没有符合所选方式的词。\n请换一种挖空方式试试。',
+    checkAnswer: '检查答案（回车）'
   },
   apiKeyModal: {
     title: '配置 API Key',
@@ -116,7 +412,13 @@ const zh: Translations = {
     noConfigTitle: '🚀 不想自己配置 API Key？',
     noConfigMessage: '我们正在开发免配置版本，直接使用无需任何设置。想要第一时间体验？请',
     fillForm: '填写表单',
-    saveButton: '保存密钥'
+    saveButton: '保存密钥',
+    routingTitle: '按功能选择提供商',
+    routingIncomplete: '部分功能所用的提供商尚未配置 API Key 或必填设置。',
+    capabilityAnnotation: '单词释义',
+    capabilityTts: '语音朗读',
+    capabilityPronunciation: '发音分析',
+    capabilityTextGeneration: '文本生成'
   },
   app: {
     tagline: '— practice makes perfect',
@@ -136,7 +438,241 @@ const zh: Translations = {
     inputPlaceholder: '在此粘贴您的英语文本...',
     inputHint: '粘贴一篇文章、一段话或句子来练习。',
     chars: '字符',
-    errorPrefix: '错误'
+    errorPrefix: '错误',
+    backup: '数据备份',
+    vocabulary: '生词本',
+    backToReading: '返回阅读',
+    review: '每日复习',
+    stats: '学习统计'
+  },
+  errors: {
+    configuration: '当前功能的提供商尚未配置，请在设置中填写 API Key。',
+    invalidKey: 'API Key 无效或没有权限，请在设置中检查。',
+    rateLimit: '请求过于频繁，请稍后再试。',
+    rateLimitRetryAfter: '请求过于频繁，请在 {seconds} 秒后再试。',
+    quota: 'API 额度已用完，请检查账户余额或更换提供商。',
+    network: '网络连接失败，请检查网络后重试。',
+    server: 'AI 服务暂时不可用，请稍后再试。',
+    malformedResponse: 'AI 返回的结果无法解析，请重试。',
+    safetyBlock: '内容被 AI 安全策略拦截，请换一段文本再试。',
+    unknown: '请求失败，请稍后再试。'
+  },
+  backup: {
+    title: '数据备份',
+    exportTitle: '导出我的数据',
+    exportDesc: '将生词进度、练习历史、已缓存的注释和设置保存为一个JSON文件。API Key不会被导出。',
+    exportButton: '导出',
+    importTitle: '导入数据',
+    importDesc: '选择之前导出的备份文件。',
+    chooseFile: '选择文件',
+    modeMerge: '合并（保留较新的记录）',
+    modeReplace: '替换（清除现有数据）',
+    importButton: '导入',
+    replaceConfirm: '现有的学习数据将被备份中的数据替换，确定继续吗？',
+    importSuccess: '已导入 {words} 个单词、{known} 个已认识的单词、{history} 条历史记录和 {annotations} 个注释。',
+    importFailed: '导入失败：',
+    reload: '刷新页面以应用'
+  },
+  vocabulary: {
+    title: '生词本',
+    description: '在所有文本中查过的单词，共 {count} 个。',
+    searchPlaceholder: '搜索单词或释义...',
+    sortRecent: '最近查询',
+    sortAlphabetical: '按字母',
+    sortMastery: '掌握程度',
+    sortSources: '出现文本数',
+    mastered: '已掌握',
+    sources: '{count} 篇文本',
+    delete: '删除',
+    deleteConfirm: '从生词本中删除“{word}”？学习进度将会丢失。',
+    emptyTitle: '生词本还是空的',
+    emptyMessage: '在阅读时点击单词查询释义，它就会被加入生词本。',
+    noResults: '没有匹配的单词。',
+    dueToday: '今天需复习 {count} 个',
+    due: '待复习',
+    dueIn: '{days} 天后复习',
+    sortDue: '复习时间',
+    startReview: '开始复习',
+    exportAnki: '导出到 Anki',
+    forms: '阅读中遇到的词形',
+    knownWords: '已认识的单词',
+    placementTest: '词汇量测试',
+    writeSentences: '造句练习',
+    writtenSentences: '我写的句子'
+  },
+  review: {
+    title: '每日复习',
+    cardCloze: '在句子中填入单词',
+    cardDefinition: '根据释义写出单词',
+    cardAudio: '听音写出单词',
+    playAudio: '播放发音',
+    answerPlaceholder: '输入单词（可选），按回车查看答案',
+    showAnswer: '显示答案',
+    answerCorrect: '回答正确',
+    answerNear: '接近正确（拼写有误）',
+    answerWrong: '回答错误',
+    again: '忘记',
+    hard: '困难',
+    good: '良好',
+    easy: '简单',
+    today: '今天',
+    interval: '{days} 天',
+    summaryTitle: '复习完成！',
+    summaryReviewed: '本次共复习 {count} 次。',
+    forgotten: '需要加强的单词：',
+    reviewMore: '继续复习（{count}）',
+    emptyTitle: '今天没有需要复习的单词',
+    emptyMessage: '阅读时查询的单词会按计划出现在这里。',
+    allLevels: '所有等级',
+    levelFilter: '只复习此 CEFR 等级的单词'
+  },
+  ankiExport: {
+    title: '导出到 Anki',
+    description: '导出为 ZIP 文件，包含可导入 Anki 的制表符分隔文本、已缓存的单词与例句音频，以及导入说明。',
+    text: '文本',
+    allTexts: '所有文本',
+    from: '开始日期',
+    to: '结束日期',
+    mastery: '掌握程度',
+    masteryAll: '全部',
+    masteryLearning: '学习中',
+    masteryMastered: '已掌握',
+    includeAudio: '包含已缓存的音频',
+    matching: '{count} 个单词',
+    exportButton: '导出',
+    success: '已导出 {notes} 张卡片和 {audio} 个音频文件。',
+    failed: '导出失败：'
+  },
+  reader: {
+    unknownWords: '{count} 个生词',
+    coverage: '已认识 {percent}%',
+    coverageHint: '文中已认识单词所占比例。未认识且不在生词本中的单词会被标出。',
+    colorByLevel: '按难度着色',
+    levelHint: '按 CEFR 等级（A1–C2）为单词着色；不在词表中的单词为 C2',
+    selectedCount: '已选 {count} 个',
+    annotateSelected: '注释全部所选单词',
+    clearSelection: '清除',
+    shiftClickHint: 'Shift+点击可选择多个单词',
+    altClickHint: 'Alt+点击标记为已认识'
+  },
+  knownWords: {
+    title: '已认识的单词',
+    description: '已认识的单词在阅读时不会被标出。掌握的生词会自动加入。',
+    count: '共 {count} 个单词',
+    placeholder: '粘贴单词列表（用空格、逗号或换行分隔）',
+    uploadFile: '从文本文件导入',
+    importButton: '导入',
+    importSuccess: '已添加 {count} 个新单词。',
+    clear: '全部清除',
+    clearConfirm: '确定清除所有已认识的单词吗？'
+  },
+  placement: {
+    title: '词汇量测试',
+    description: '回答你是否认识每个单词。测试会根据你的回答调整难度，估算你的词汇量和 CEFR 等级，并据此设置已认识的单词和生成文本的默认难度。',
+    pseudoWordNote: '其中有一些是编造的假词，请只在确定认识时回答“认识”。',
+    previousResult: '上次结果：{level}，约 {count} 个单词',
+    loadFailed: '无法加载词表，请刷新页面重试。',
+    start: '开始测试',
+    keyboardHint: '快捷键：Y / → 认识，N / ← 不认识',
+    questionCount: '第 {count} 题',
+    question: '你认识这个单词吗？',
+    yes: '认识',
+    no: '不认识',
+    resultTitle: '测试结果',
+    level: 'CEFR 等级',
+    vocabularySize: '估计词汇量',
+    unreliable: '你认识了 {total} 个假词中的 {count} 个，结果已相应下调，可能不够准确。',
+    applied: '已将 {count} 个单词加入已认识的单词，生成文本将默认使用 {level} 难度。',
+    retake: '重新测试',
+    promptTitle: '先测一测你的词汇量',
+    promptMessage: '几分钟的测试即可找出你已经认识的单词和适合你的难度。'
+  },
+  stats: {
+    title: '学习统计',
+    description: '最近 {days} 天的学习情况',
+    days: '{days} 天',
+    lookups: '查词次数',
+    reviewAccuracy: '复习正确率',
+    pronunciationScore: '平均发音得分',
+    studyTime: '学习时长',
+    lookupsChart: '每日查词',
+    masteredChart: '已掌握单词',
+    accuracyChart: '每日复习正确率',
+    pronunciationChart: '发音得分趋势',
+    studyTimeChart: '各模式学习时长',
+    forgottenWords: '最常遗忘的单词',
+    forgottenHint: '加入生词本后又被重新查询的单词',
+    forgottenCount: '重新查询 {count} 次',
+    reviewCount: '{count} 次复习',
+    noData: '暂无数据',
+    hoursMinutes: '{h} 小时 {m} 分钟',
+    minutes: '{m} 分钟',
+    activityRead: '阅读',
+    activityListen: '听力',
+    activityPronounce: '发音练习',
+    activityWrite: '填空练习',
+    activityReview: '复习',
+    activityVocabulary: '生词本',
+    activityPlacement: '词汇量测试',
+    activityQuiz: '选择题测验',
+    activityDictate: '听写',
+    activitySentences: '造句练习'
+  },
+  quiz: {
+    title: '选择题测验',
+    keyboardHint: '按 1–4 作答，按回车进入下一题',
+    wordToMeaning: '选择这个单词的意思',
+    meaningToWord: '选择符合这个释义的单词',
+    synonym: '选择这个单词的同义词',
+    antonym: '选择这个单词的反义词',
+    correct: '回答正确！',
+    incorrect: '回答错误',
+    nextReview: '{days} 天后复习',
+    next: '下一题',
+    summaryTitle: '测验完成',
+    summaryScore: '答对 {correct} / {total} 题',
+    missed: '需要再复习的单词：',
+    restart: '再测一次',
+    noQuestionsTitle: '暂无测验题目',
+    noQuestionsMessage: '测验题目来自这篇文本中今天需要复习的单词，错误选项来自生词本中的其他单词。\n请先在阅读模式中查看至少 4 个单词。'
+  },
+  dictation: {
+    title: '听写',
+    description: '听句子并输入完整内容，按回车检查',
+    replay: '重播',
+    slow: '慢速',
+    placeholder: '输入你听到的句子',
+    check: '检查',
+    retry: '再听写一次',
+    previous: '上一句',
+    next: '下一句',
+    misspelled: '拼写错误',
+    missing: '漏写',
+    extra: '多写',
+    previousResult: '最佳 {best} · 已练习 {count} 次',
+    emptyTitle: '没有可听写的句子',
+    emptyMessage: '编辑文本并添加一些英文句子后再来听写。'
+  },
+  sentences: {
+    title: '造句练习',
+    description: '用单词写一个你自己的句子，AI 会检查语法、自然度以及词义是否用对。',
+    noWordsTitle: '还没有单词',
+    noWordsMessage: '在阅读模式中点击单词查看释义后，就可以用它们造句了。',
+    placeholder: '用 "{word}" 写一个句子…',
+    check: '检查',
+    grading: '正在评分…',
+    skip: '跳过',
+    notConfigured: '需要配置文本生成服务才能评分。',
+    previousAttempts: '已用这个词写过 {count} 个句子',
+    correctness: '正确性',
+    naturalness: '自然度',
+    senseMatches: '词义用对了',
+    senseMismatch: '词义没有用对',
+    corrected: '修改后的句子',
+    retry: '修改后重试',
+    next: '下一个单词',
+    summaryTitle: '练习完成！',
+    summaryMessage: '本轮的 {count} 个单词已经全部完成。'
   }
 };
 
@@ -150,7 +686,12 @@ const ja: Translations = {
     analysis: '分析',
     antonyms: '反義語',
     associations: '連想',
-    phrases: 'フレーズ'
+    phrases: 'フレーズ',
+    senses: '語義',
+    senseHint: 'この文での意味を選択',
+    markKnown: '知っている単語にする',
+    known: '既知（クリックで取り消し）',
+    level: 'CEFR レベル'
   },
   feedbackPanel: {
     title: '発音フィードバック',
@@ -164,13 +705,24 @@ const ja: Translations = {
   },
   writingMode: {
     title: 'ライティング練習',
-    description: '正しい単語を入力してください。マスターするには{count}回の正解が必要です。',
+    description: '正しい単語を入力し、Enterで確定してください。復習間隔は回答に応じて自動的に調整されます。',
     reset: 'リセット',
     correct: '正解',
     allCorrect: 'すべて正解！',
-    noWordsTitle: '練習する単語がありません！',
-    noWordsMessage: '閲覧したすべての単語がマスター済みか、まだ単語を閲覧していません。\n読書モードに切り替えて単語をクリックしてください。',
-    inputPlaceholder: 'ここに入力...'
+    noWordsTitle: '今日復習する単語はありません！',
+    noWordsMessage: 'このテキストの単語は今日復習する必要がないか、まだ単語を閲覧していません。\n読書モードに切り替えて単語をクリックしてください。',
+    inputPlaceholder: 'ここに入力...',
+    nextReview: '{days} 日後に復習',
+    hintLevel: 'ヒントの量',
+    hintLevels: { definition: '意味のみ', ipa: '意味 + 発音記号', length: '+ 文字数', firstLetter: '+ 最初の文字' },
+    moreHint: 'ヒントを追加（復習の評価に反映されます）',
+    strategy: '空欄にする単語',
+    strategies: { due: '復習する単語', everyNth: '数語おきの内容語', aboveLevel: '自分のレベルより難しい単語', functionWords: '機能語（文法練習）', collocations: 'コロケーション' },
+    density: '空欄の多さ',
+    densities: { low: '少なめ', medium: '普通', high: '多め' },
+    noBlanksTitle: '空欄にできる単語がありません',
+    noBlanksMessage: 'このテキストには選んだ方法に当てはまる単語がありません。\n別の方法を試してください。',
+    checkAnswer: '答えをチェック（Enter）'
   },
   apiKeyModal: {
     title: 'API キー設定',
@@ -181,7 +733,13 @@ const ja: Translations = {
     noConfigTitle: '🚀 API キーを自分で設定したくないですか？',
     noConfigMessage: '設定不要のバージョンを開発中です。設定なしで直接使用できます。いち早く体験したい場合は、',
     fillForm: 'フォームに記入',
-    saveButton: 'キーを保存'
+    saveButton: 'キーを保存',
+    routingTitle: '機能ごとにプロバイダーを選択',
+    routingIncomplete: '一部の機能で使用するプロバイダーの API キーまたは必須設定が未入力です。',
+    capabilityAnnotation: '単語の意味',
+    capabilityTts: '音声読み上げ',
+    capabilityPronunciation: '発音分析',
+    capabilityTextGeneration: 'テキスト生成'
   },
   app: {
     tagline: '— practice makes perfect',
@@ -201,7 +759,241 @@ const ja: Translations = {
     inputPlaceholder: 'ここに英語のテキストを貼り付けてください...',
     inputHint: '記事、段落、または文を貼り付けて練習してください。',
     chars: '文字',
-    errorPrefix: 'エラー'
+    errorPrefix: 'エラー',
+    backup: 'データのバックアップ',
+    vocabulary: '単語帳',
+    backToReading: '読解に戻る',
+    review: '今日の復習',
+    stats: '学習統計'
+  },
+  errors: {
+    configuration: 'この機能のプロバイダーが未設定です。設定で API キーを入力してください。',
+    invalidKey: 'API キーが無効か、権限がありません。設定を確認してください。',
+    rateLimit: 'リクエストが多すぎます。しばらくしてから再試行してください。',
+    rateLimitRetryAfter: 'リクエストが多すぎます。{seconds} 秒後に再試行してください。',
+    quota: 'API の利用枠を使い切りました。アカウントの残高を確認するか、プロバイダーを変更してください。',
+    network: 'ネットワークに接続できません。接続を確認して再試行してください。',
+    server: 'AI サービスが一時的に利用できません。しばらくしてから再試行してください。',
+    malformedResponse: 'AI の応答を解析できませんでした。再試行してください。',
+    safetyBlock: '内容が AI の安全ポリシーによりブロックされました。別のテキストでお試しください。',
+    unknown: 'リクエストに失敗しました。しばらくしてから再試行してください。'
+  },
+  backup: {
+    title: 'データのバックアップ',
+    exportTitle: 'データをエクスポート',
+    exportDesc: '単語の進捗、練習履歴、キャッシュ済みの注釈、設定を1つのJSONファイルに保存します。APIキーはエクスポートされません。',
+    exportButton: 'エクスポート',
+    importTitle: 'データをインポート',
+    importDesc: '以前にエクスポートしたバックアップファイルを選択してください。',
+    chooseFile: 'ファイルを選択',
+    modeMerge: '統合（新しい記録を優先）',
+    modeReplace: '置き換え（既存データを削除）',
+    importButton: 'インポート',
+    replaceConfirm: '既存の学習データはバックアップの内容で置き換えられます。続行しますか？',
+    importSuccess: '単語 {words} 語、既知語 {known} 語、履歴 {history} 件、注釈 {annotations} 件をインポートしました。',
+    importFailed: 'インポートに失敗しました：',
+    reload: '再読み込みして適用'
+  },
+  vocabulary: {
+    title: '単語帳',
+    description: 'すべてのテキストで調べた単語：{count} 語。',
+    searchPlaceholder: '単語や意味を検索...',
+    sortRecent: '最近調べた順',
+    sortAlphabetical: 'アルファベット順',
+    sortMastery: '習得度',
+    sortSources: '出現テキスト数',
+    mastered: '習得済み',
+    sources: '{count} 件のテキスト',
+    delete: '削除',
+    deleteConfirm: '「{word}」を単語帳から削除しますか？学習の進捗は失われます。',
+    emptyTitle: '単語帳はまだ空です',
+    emptyMessage: '読解中に単語をクリックして意味を調べると、単語帳に追加されます。',
+    noResults: '一致する単語はありません。',
+    dueToday: '今日の復習：{count} 語',
+    due: '復習予定',
+    dueIn: '{days} 日後に復習',
+    sortDue: '復習予定順',
+    startReview: '復習を始める',
+    exportAnki: 'Ankiにエクスポート',
+    forms: '読解中に出会った語形',
+    knownWords: '知っている単語',
+    placementTest: '語彙レベルテスト',
+    writeSentences: '例文を書く',
+    writtenSentences: '自分で書いた例文'
+  },
+  review: {
+    title: '今日の復習',
+    cardCloze: '文に単語を入れてください',
+    cardDefinition: '意味から単語を書いてください',
+    cardAudio: '音声を聞いて単語を書いてください',
+    playAudio: '発音を再生',
+    answerPlaceholder: '単語を入力（任意）、Enterで答えを表示',
+    showAnswer: '答えを表示',
+    answerCorrect: '正解',
+    answerNear: '惜しい（スペルミス）',
+    answerWrong: '不正解',
+    again: 'もう一度',
+    hard: '難しい',
+    good: '普通',
+    easy: '簡単',
+    today: '今日',
+    interval: '{days} 日',
+    summaryTitle: '復習完了！',
+    summaryReviewed: '今回 {count} 回復習しました。',
+    forgotten: '要復習の単語：',
+    reviewMore: '続けて復習（{count}）',
+    emptyTitle: '今日復習する単語はありません',
+    emptyMessage: '読解中に調べた単語は、予定に合わせてここに表示されます。',
+    allLevels: 'すべてのレベル',
+    levelFilter: 'この CEFR レベルの単語だけを復習'
+  },
+  ankiExport: {
+    title: 'Ankiにエクスポート',
+    description: 'Ankiにインポートできるタブ区切りテキスト、キャッシュ済みの単語と例文の音声、インポート手順を含むZIPファイルとしてエクスポートします。',
+    text: 'テキスト',
+    allTexts: 'すべてのテキスト',
+    from: '開始日',
+    to: '終了日',
+    mastery: '習得度',
+    masteryAll: 'すべて',
+    masteryLearning: '学習中',
+    masteryMastered: '習得済み',
+    includeAudio: 'キャッシュ済みの音声を含める',
+    matching: '{count} 語',
+    exportButton: 'エクスポート',
+    success: 'カード {notes} 枚と音声ファイル {audio} 件をエクスポートしました。',
+    failed: 'エクスポートに失敗しました：'
+  },
+  reader: {
+    unknownWords: '未知語 {count} 語',
+    coverage: '既知率 {percent}%',
+    coverageHint: '本文中の既知語の割合です。既知でなく単語帳にもない単語が強調表示されます。',
+    colorByLevel: 'レベル別に色分け',
+    levelHint: 'CEFR レベル（A1〜C2）で単語を色分けします。語彙リストにない単語は C2 です',
+    selectedCount: '{count} 語を選択中',
+    annotateSelected: '選択した単語をまとめて注釈',
+    clearSelection: 'クリア',
+    shiftClickHint: 'Shift+クリックで複数の単語を選択',
+    altClickHint: 'Alt+クリックで既知語にする'
+  },
+  knownWords: {
+    title: '知っている単語',
+    description: '知っている単語は読解中に強調表示されません。習得した単語は自動的に追加されます。',
+    count: '合計 {count} 語',
+    placeholder: '単語リストを貼り付け（空白・カンマ・改行区切り）',
+    uploadFile: 'テキストファイルから読み込む',
+    importButton: 'インポート',
+    importSuccess: '新しい単語を {count} 語追加しました。',
+    clear: 'すべて消去',
+    clearConfirm: '知っている単語をすべて消去しますか？'
+  },
+  placement: {
+    title: '語彙レベルテスト',
+    description: '各単語を知っているかどうか答えてください。回答に応じて難易度が変わり、語彙数と CEFR レベルを推定します。結果は既知語リストと文章生成の既定レベルに反映されます。',
+    pseudoWordNote: '一部は実在しない単語です。確実に知っている場合だけ「知っている」と答えてください。',
+    previousResult: '前回の結果：{level}、約 {count} 語',
+    loadFailed: '単語リストを読み込めませんでした。ページを再読み込みしてください。',
+    start: 'テストを始める',
+    keyboardHint: 'ショートカット：Y / → 知っている、N / ← 知らない',
+    questionCount: '第 {count} 問',
+    question: 'この単語を知っていますか？',
+    yes: '知っている',
+    no: '知らない',
+    resultTitle: 'テスト結果',
+    level: 'CEFR レベル',
+    vocabularySize: '推定語彙数',
+    unreliable: '実在しない単語 {total} 語のうち {count} 語を「知っている」と答えたため、結果を下方修正しました。正確でない可能性があります。',
+    applied: '{count} 語を既知語に追加しました。文章生成の既定レベルは {level} になります。',
+    retake: 'もう一度受ける',
+    promptTitle: 'まず語彙レベルを測りましょう',
+    promptMessage: '数分のテストで、知っている単語と自分に合ったレベルがわかります。'
+  },
+  stats: {
+    title: '学習統計',
+    description: '直近 {days} 日間の学習状況',
+    days: '{days} 日',
+    lookups: '調べた単語',
+    reviewAccuracy: '復習の正答率',
+    pronunciationScore: '平均発音スコア',
+    studyTime: '学習時間',
+    lookupsChart: '1日あたりの調べた単語',
+    masteredChart: '習得した単語',
+    accuracyChart: '1日あたりの復習正答率',
+    pronunciationChart: '発音スコアの推移',
+    studyTimeChart: 'モード別の学習時間',
+    forgottenWords: 'よく忘れる単語',
+    forgottenHint: '単語帳に追加した後に再び調べた単語',
+    forgottenCount: '{count} 回再検索',
+    reviewCount: '{count} 回の復習',
+    noData: 'まだデータがありません',
+    hoursMinutes: '{h} 時間 {m} 分',
+    minutes: '{m} 分',
+    activityRead: '読解',
+    activityListen: 'リスニング',
+    activityPronounce: '発音練習',
+    activityWrite: '穴埋め練習',
+    activityReview: '復習',
+    activityVocabulary: '単語帳',
+    activityPlacement: '語彙レベルテスト',
+    activityQuiz: '選択式クイズ',
+    activityDictate: 'ディクテーション',
+    activitySentences: '例文を書く'
+  },
+  quiz: {
+    title: '選択式クイズ',
+    keyboardHint: '1〜4 キーで回答、Enter で次の問題へ',
+    wordToMeaning: 'この単語の意味を選んでください',
+    meaningToWord: 'この意味に合う単語を選んでください',
+    synonym: 'この単語の類義語を選んでください',
+    antonym: 'この単語の対義語を選んでください',
+    correct: '正解！',
+    incorrect: '不正解',
+    nextReview: '{days} 日後に復習',
+    next: '次へ',
+    summaryTitle: 'クイズ完了',
+    summaryScore: '{total} 問中 {correct} 問正解',
+    missed: 'もう一度確認したい単語：',
+    restart: 'もう一度',
+    noQuestionsTitle: 'クイズの問題がありません',
+    noQuestionsMessage: '問題はこのテキストで今日復習する単語から作られ、誤答の選択肢は単語帳の他の単語から選ばれます。\n読書モードで 4 語以上を調べてください。'
+  },
+  dictation: {
+    title: 'ディクテーション',
+    description: '文を聞いて全文を入力し、Enter で採点します',
+    replay: 'もう一度再生',
+    slow: 'ゆっくり',
+    placeholder: '聞こえた文を入力してください',
+    check: '採点',
+    retry: 'もう一度',
+    previous: '前の文',
+    next: '次の文',
+    misspelled: 'つづりの誤り',
+    missing: '抜け',
+    extra: '余分',
+    previousResult: '最高 {best} · {count} 回練習',
+    emptyTitle: 'ディクテーションする文がありません',
+    emptyMessage: 'テキストを編集して英語の文を追加してください。'
+  },
+  sentences: {
+    title: '例文を書く',
+    description: '単語を使って自分の文を書きましょう。AIが文法、自然さ、意味の使い方をチェックします。',
+    noWordsTitle: 'まだ単語がありません',
+    noWordsMessage: '読書モードで単語をクリックして調べると、その単語で例文を書けるようになります。',
+    placeholder: '「{word}」を使って文を書いてください…',
+    check: 'チェック',
+    grading: '採点中…',
+    skip: 'スキップ',
+    notConfigured: '採点にはテキスト生成のプロバイダー設定が必要です。',
+    previousAttempts: 'この単語で {count} 文書きました',
+    correctness: '正確さ',
+    naturalness: '自然さ',
+    senseMatches: '意味の使い方は正しい',
+    senseMismatch: '意味の使い方が違う',
+    corrected: '修正した文',
+    retry: '直して再挑戦',
+    next: '次の単語',
+    summaryTitle: '練習完了！',
+    summaryMessage: 'このラウンドの {count} 語をすべて終えました。'
   }
 };
 
@@ -215,7 +1007,12 @@ const vi: Translations = {
     analysis: 'Phân tích',
     antonyms: 'Từ trái nghĩa',
     associations: 'Liên tưởng',
-    phrases: 'Cụm từ'
+    phrases: 'Cụm từ',
+    senses: 'Nghĩa',
+    senseHint: 'Chọn nghĩa trong câu này',
+    markKnown: 'Đánh dấu là đã biết',
+    known: 'Đã biết (nhấn để hoàn tác)',
+    level: 'Trình độ CEFR'
   },
   feedbackPanel: {
     title: 'Phản hồi phát âm',
@@ -229,13 +1026,24 @@ const vi: Translations = {
   },
   writingMode: {
     title: 'Luyện viết',
-    description: 'Điền từ đúng. Cần {count} câu trả lời đúng để thành thạo.',
+    description: 'Điền từ đúng rồi nhấn Enter. Khoảng cách ôn tập sẽ tự điều chỉnh theo câu trả lời của bạn.',
     reset: 'Đặt lại',
     correct: 'Đúng',
     allCorrect: 'Tất cả đúng!',
-    noWordsTitle: 'Không có từ nào để luyện tập!',
-    noWordsMessage: 'Tất cả các từ đã xem đều đã thành thạo hoặc bạn chưa xem từ nào.\nChuyển sang chế độ đọc và nhấp vào các từ để xem chúng.',
-    inputPlaceholder: 'Nhập vào đây...'
+    noWordsTitle: 'Hôm nay không có từ nào cần ôn tập!',
+    noWordsMessage: 'Các từ trong văn bản này hôm nay chưa cần ôn tập, hoặc bạn chưa xem từ nào.\nChuyển sang chế độ đọc và nhấp vào các từ để xem chúng.',
+    inputPlaceholder: 'Nhập vào đây...',
+    nextReview: 'ôn lại sau {days} ngày',
+    hintLevel: 'Mức gợi ý',
+    hintLevels: { definition: 'Chỉ nghĩa', ipa: 'Nghĩa + phiên âm', length: '+ số chữ cái', firstLetter: '+ chữ cái đầu' },
+    moreHint: 'Thêm gợi ý (được tính vào điểm ôn tập)',
+    strategy: 'Từ được để trống',
+    strategies: { due: 'Từ cần ôn tập', everyNth: 'Cách vài từ nội dung', aboveLevel: 'Từ trên trình độ của tôi', functionWords: 'Hư từ (luyện ngữ pháp)', collocations: 'Cụm từ đi kèm' },
+    density: 'Mật độ ô trống',
+    densities: { low: 'Ít', medium: 'Vừa', high: 'Nhiều' },
+    noBlanksTitle: 'Không có từ nào để điền',
+    noBlanksMessage: 'Văn bản này không có từ nào phù hợp với cách đã chọn.\nHãy thử một cách khác.',
+    checkAnswer: 'Kiểm tra đáp án (Enter)'
   },
   apiKeyModal: {
     title: 'Cấu hình API Key',
@@ -246,7 +1054,13 @@ const vi: Translations = {
     noConfigTitle: '🚀 Không muốn tự cấu hình API Key?',
     noConfigMessage: 'Chúng tôi đang phát triển phiên bản không cần cấu hình, sử dụng trực tiếp mà không cần thiết lập. Muốn trải nghiệm đầu tiên?',
     fillForm: 'Điền vào biểu mẫu',
-    saveButton: 'Lưu khóa'
+    saveButton: 'Lưu khóa',
+    routingTitle: 'Chọn nhà cung cấp cho từng tính năng',
+    routingIncomplete: 'Một số nhà cung cấp đang dùng chưa có API Key hoặc cài đặt bắt buộc.',
+    capabilityAnnotation: 'Nghĩa của từ',
+    capabilityTts: 'Đọc văn bản',
+    capabilityPronunciation: 'Phân tích phát âm',
+    capabilityTextGeneration: 'Tạo văn bản'
   },
   app: {
     tagline: '— practice makes perfect',
@@ -266,7 +1080,241 @@ const vi: Translations = {
     inputPlaceholder: 'Dán văn bản tiếng Anh của bạn vào đây...',
     inputHint: 'Dán một bài báo, đoạn văn hoặc câu để luyện tập.',
     chars: 'ký tự',
-    errorPrefix: 'Lỗi'
+    errorPrefix: 'Lỗi',
+    backup: 'Sao lưu dữ liệu',
+    vocabulary: 'Sổ từ vựng',
+    backToReading: 'Quay lại đọc',
+    review: 'Ôn tập hằng ngày',
+    stats: 'Thống kê học tập'
+  },
+  errors: {
+    configuration: 'Nhà cung cấp cho tính năng này chưa được cấu hình. Vui lòng nhập API Key trong phần cài đặt.',
+    invalidKey: 'API Key không hợp lệ hoặc không có quyền. Vui lòng kiểm tra trong phần cài đặt.',
+    rateLimit: 'Quá nhiều yêu cầu. Vui lòng thử lại sau.',
+    rateLimitRetryAfter: 'Quá nhiều yêu cầu. Vui lòng thử lại sau {seconds} giây.',
+    quota: 'Đã hết hạn mức API. Vui lòng kiểm tra tài khoản hoặc đổi nhà cung cấp.',
+    network: 'Không thể kết nối mạng. Vui lòng kiểm tra kết nối và thử lại.',
+    server: 'Dịch vụ AI tạm thời không khả dụng. Vui lòng thử lại sau.',
+    malformedResponse: 'Không thể đọc phản hồi từ AI. Vui lòng thử lại.',
+    safetyBlock: 'Nội dung bị chặn bởi chính sách an toàn của AI. Vui lòng thử văn bản khác.',
+    unknown: 'Yêu cầu thất bại. Vui lòng thử lại sau.'
+  },
+  backup: {
+    title: 'Sao lưu dữ liệu',
+    exportTitle: 'Xuất dữ liệu của tôi',
+    exportDesc: 'Lưu tiến độ từ vựng, lịch sử luyện tập, chú giải đã lưu và cài đặt vào một tệp JSON. API Key sẽ không được xuất.',
+    exportButton: 'Xuất',
+    importTitle: 'Nhập dữ liệu',
+    importDesc: 'Chọn tệp sao lưu đã xuất trước đó.',
+    chooseFile: 'Chọn tệp',
+    modeMerge: 'Gộp (giữ bản ghi mới hơn)',
+    modeReplace: 'Thay thế (xóa dữ liệu hiện có)',
+    importButton: 'Nhập',
+    replaceConfirm: 'Dữ liệu học tập hiện có sẽ bị thay thế bằng bản sao lưu. Tiếp tục?',
+    importSuccess: 'Đã nhập {words} từ, {known} từ đã biết, {history} mục lịch sử và {annotations} chú giải.',
+    importFailed: 'Nhập thất bại: ',
+    reload: 'Tải lại để áp dụng'
+  },
+  vocabulary: {
+    title: 'Sổ từ vựng',
+    description: 'Các từ đã tra trong mọi văn bản: {count} từ.',
+    searchPlaceholder: 'Tìm từ hoặc nghĩa...',
+    sortRecent: 'Tra gần đây',
+    sortAlphabetical: 'Theo bảng chữ cái',
+    sortMastery: 'Mức độ thành thạo',
+    sortSources: 'Số văn bản',
+    mastered: 'Đã thuộc',
+    sources: '{count} văn bản',
+    delete: 'Xóa',
+    deleteConfirm: 'Xóa "{word}" khỏi sổ từ vựng? Tiến độ học sẽ bị mất.',
+    emptyTitle: 'Sổ từ vựng còn trống',
+    emptyMessage: 'Nhấp vào một từ khi đọc để tra nghĩa, từ đó sẽ được thêm vào sổ từ vựng.',
+    noResults: 'Không có từ nào phù hợp.',
+    dueToday: 'Cần ôn hôm nay: {count} từ',
+    due: 'Cần ôn',
+    dueIn: 'Ôn sau {days} ngày',
+    sortDue: 'Theo lịch ôn',
+    startReview: 'Bắt đầu ôn tập',
+    exportAnki: 'Xuất sang Anki',
+    forms: 'Các dạng từ đã gặp khi đọc',
+    knownWords: 'Từ đã biết',
+    placementTest: 'Kiểm tra vốn từ',
+    writeSentences: 'Luyện đặt câu',
+    writtenSentences: 'Câu bạn đã viết'
+  },
+  review: {
+    title: 'Ôn tập hằng ngày',
+    cardCloze: 'Điền từ vào câu',
+    cardDefinition: 'Viết từ theo nghĩa',
+    cardAudio: 'Nghe và viết từ',
+    playAudio: 'Phát âm',
+    answerPlaceholder: 'Nhập từ (tùy chọn), nhấn Enter để xem đáp án',
+    showAnswer: 'Xem đáp án',
+    answerCorrect: 'Đúng',
+    answerNear: 'Gần đúng (sai chính tả)',
+    answerWrong: 'Sai',
+    again: 'Quên',
+    hard: 'Khó',
+    good: 'Tốt',
+    easy: 'Dễ',
+    today: 'Hôm nay',
+    interval: '{days} ngày',
+    summaryTitle: 'Hoàn thành ôn tập!',
+    summaryReviewed: 'Bạn đã ôn {count} lượt.',
+    forgotten: 'Các từ cần ôn thêm:',
+    reviewMore: 'Ôn tiếp ({count})',
+    emptyTitle: 'Hôm nay không có từ nào cần ôn',
+    emptyMessage: 'Các từ bạn tra khi đọc sẽ xuất hiện ở đây theo lịch ôn tập.',
+    allLevels: 'Mọi trình độ',
+    levelFilter: 'Chỉ ôn các từ thuộc trình độ CEFR này'
+  },
+  ankiExport: {
+    title: 'Xuất sang Anki',
+    description: 'Xuất thành tệp ZIP gồm văn bản phân tách bằng tab để nhập vào Anki, âm thanh đã lưu của từ và câu ví dụ, cùng hướng dẫn nhập.',
+    text: 'Văn bản',
+    allTexts: 'Tất cả văn bản',
+    from: 'Từ ngày',
+    to: 'Đến ngày',
+    mastery: 'Mức độ thành thạo',
+    masteryAll: 'Tất cả',
+    masteryLearning: 'Đang học',
+    masteryMastered: 'Đã thuộc',
+    includeAudio: 'Kèm âm thanh đã lưu',
+    matching: '{count} từ',
+    exportButton: 'Xuất',
+    success: 'Đã xuất {notes} thẻ và {audio} tệp âm thanh.',
+    failed: 'Xuất thất bại: '
+  },
+  reader: {
+    unknownWords: '{count} từ chưa biết',
+    coverage: 'Đã biết {percent}%',
+    coverageHint: 'Tỷ lệ từ đã biết trong văn bản. Những từ chưa biết và không có trong sổ từ vựng được đánh dấu.',
+    colorByLevel: 'Tô màu theo trình độ',
+    levelHint: 'Tô màu từ theo trình độ CEFR (A1–C2); từ không có trong danh sách là C2',
+    selectedCount: 'Đã chọn {count} từ',
+    annotateSelected: 'Chú giải tất cả từ đã chọn',
+    clearSelection: 'Bỏ chọn',
+    shiftClickHint: 'Shift+Nhấp để chọn nhiều từ',
+    altClickHint: 'Alt+Nhấp để đánh dấu là đã biết'
+  },
+  knownWords: {
+    title: 'Từ đã biết',
+    description: 'Từ đã biết không được đánh dấu khi đọc. Từ vựng đã thuộc được tự động thêm vào.',
+    count: 'Tổng cộng {count} từ',
+    placeholder: 'Dán danh sách từ (phân tách bằng dấu cách, dấu phẩy hoặc xuống dòng)',
+    uploadFile: 'Nhập từ tệp văn bản',
+    importButton: 'Nhập',
+    importSuccess: 'Đã thêm {count} từ mới.',
+    clear: 'Xóa tất cả',
+    clearConfirm: 'Xóa tất cả các từ đã biết?'
+  },
+  placement: {
+    title: 'Kiểm tra vốn từ vựng',
+    description: 'Trả lời xem bạn có biết từng từ hay không. Bài kiểm tra điều chỉnh độ khó theo câu trả lời, ước tính vốn từ và trình độ CEFR, rồi dùng kết quả để thiết lập danh sách từ đã biết và trình độ mặc định khi tạo văn bản.',
+    pseudoWordNote: 'Một số từ là từ bịa. Chỉ trả lời “Biết” khi bạn chắc chắn.',
+    previousResult: 'Kết quả lần trước: {level}, khoảng {count} từ',
+    loadFailed: 'Không tải được danh sách từ. Vui lòng tải lại trang.',
+    start: 'Bắt đầu',
+    keyboardHint: 'Phím tắt: Y / → Biết, N / ← Không biết',
+    questionCount: 'Câu {count}',
+    question: 'Bạn có biết từ này không?',
+    yes: 'Biết',
+    no: 'Không biết',
+    resultTitle: 'Kết quả',
+    level: 'Trình độ CEFR',
+    vocabularySize: 'Vốn từ ước tính',
+    unreliable: 'Bạn đã chọn “Biết” cho {count} trên {total} từ bịa nên kết quả đã được hạ xuống và có thể không chính xác.',
+    applied: 'Đã thêm {count} từ vào danh sách từ đã biết; văn bản tạo mới sẽ mặc định ở trình độ {level}.',
+    retake: 'Làm lại',
+    promptTitle: 'Hãy kiểm tra vốn từ của bạn trước',
+    promptMessage: 'Vài phút kiểm tra sẽ cho biết những từ bạn đã biết và trình độ phù hợp với bạn.'
+  },
+  stats: {
+    title: 'Thống kê học tập',
+    description: 'Quá trình học trong {days} ngày qua',
+    days: '{days} ngày',
+    lookups: 'Lượt tra từ',
+    reviewAccuracy: 'Độ chính xác khi ôn tập',
+    pronunciationScore: 'Điểm phát âm trung bình',
+    studyTime: 'Thời gian học',
+    lookupsChart: 'Số từ tra mỗi ngày',
+    masteredChart: 'Từ đã thuộc',
+    accuracyChart: 'Độ chính xác ôn tập mỗi ngày',
+    pronunciationChart: 'Xu hướng điểm phát âm',
+    studyTimeChart: 'Thời gian theo chế độ',
+    forgottenWords: 'Từ hay quên nhất',
+    forgottenHint: 'Những từ đã được tra lại sau khi thêm vào sổ từ',
+    forgottenCount: 'Tra lại {count} lần',
+    reviewCount: '{count} lượt ôn tập',
+    noData: 'Chưa có dữ liệu',
+    hoursMinutes: '{h} giờ {m} phút',
+    minutes: '{m} phút',
+    activityRead: 'Đọc',
+    activityListen: 'Nghe',
+    activityPronounce: 'Luyện phát âm',
+    activityWrite: 'Điền từ',
+    activityReview: 'Ôn tập',
+    activityVocabulary: 'Sổ từ vựng',
+    activityPlacement: 'Kiểm tra vốn từ vựng',
+    activityQuiz: 'Trắc nghiệm',
+    activityDictate: 'Nghe chép chính tả',
+    activitySentences: 'Luyện đặt câu'
+  },
+  quiz: {
+    title: 'Trắc nghiệm',
+    keyboardHint: 'Nhấn 1–4 để trả lời, Enter để sang câu tiếp theo',
+    wordToMeaning: 'Chọn nghĩa của từ này',
+    meaningToWord: 'Chọn từ có nghĩa này',
+    synonym: 'Chọn từ đồng nghĩa của từ này',
+    antonym: 'Chọn từ trái nghĩa của từ này',
+    correct: 'Chính xác!',
+    incorrect: 'Chưa đúng',
+    nextReview: 'ôn lại sau {days} ngày',
+    next: 'Câu tiếp theo',
+    summaryTitle: 'Hoàn thành bài trắc nghiệm',
+    summaryScore: 'Đúng {correct} / {total} câu',
+    missed: 'Những từ cần ôn lại:',
+    restart: 'Làm lại',
+    noQuestionsTitle: 'Chưa có câu hỏi trắc nghiệm',
+    noQuestionsMessage: 'Câu hỏi được tạo từ các từ cần ôn hôm nay trong văn bản này, các phương án sai lấy từ những từ khác trong sổ từ.\nHãy tra ít nhất 4 từ ở chế độ đọc trước.'
+  },
+  dictation: {
+    title: 'Nghe chép chính tả',
+    description: 'Nghe câu rồi gõ lại toàn bộ, nhấn Enter để kiểm tra',
+    replay: 'Phát lại',
+    slow: 'Chậm',
+    placeholder: 'Gõ câu bạn nghe được',
+    check: 'Kiểm tra',
+    retry: 'Làm lại',
+    previous: 'Câu trước',
+    next: 'Câu tiếp theo',
+    misspelled: 'Sai chính tả',
+    missing: 'Thiếu',
+    extra: 'Thừa',
+    previousResult: 'Tốt nhất {best} · đã luyện {count} lần',
+    emptyTitle: 'Không có câu để nghe chép',
+    emptyMessage: 'Hãy chỉnh sửa văn bản và thêm vài câu tiếng Anh.'
+  },
+  sentences: {
+    title: 'Luyện đặt câu',
+    description: 'Tự viết một câu với từ này; AI sẽ kiểm tra ngữ pháp, độ tự nhiên và nghĩa của từ.',
+    noWordsTitle: 'Chưa có từ nào',
+    noWordsMessage: 'Hãy nhấp vào các từ trong chế độ đọc để tra nghĩa, sau đó bạn có thể đặt câu với chúng.',
+    placeholder: 'Viết một câu với "{word}"…',
+    check: 'Kiểm tra',
+    grading: 'Đang chấm…',
+    skip: 'Bỏ qua',
+    notConfigured: 'Cần cấu hình nhà cung cấp tạo văn bản để chấm điểm.',
+    previousAttempts: 'Đã viết {count} câu với từ này',
+    correctness: 'Độ chính xác',
+    naturalness: 'Độ tự nhiên',
+    senseMatches: 'Dùng đúng nghĩa',
+    senseMismatch: 'Chưa dùng đúng nghĩa',
+    corrected: 'Câu đã sửa',
+    retry: 'Sửa và thử lại',
+    next: 'Từ tiếp theo',
+    summaryTitle: 'Hoàn thành!',
+    summaryMessage: 'Bạn đã hoàn thành cả {count} từ của lượt này.'
   }
 };
 
@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { runMigrations } from './services/storage';
+
+// Upgrade persisted data before anything reads it
+runMigrations();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
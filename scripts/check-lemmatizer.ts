@@ -0,0 +1,43 @@
+import { lemmatize } from '../services/lemmatizer';
+
+// Regression cases for the lemmatizer: word -> expected lemma.
+// Run with `npm run check:lemmatizer`; exits with an error if any case fails.
+const CASES: Record<string, string> = {
+  // Irregular forms
+  ran: 'run', children: 'child', better: 'good', going: 'go', saying: 'say', uses: 'use',
+
+  // Doubled consonants
+  running: 'run', stopped: 'stop', added: 'add', controlled: 'control', compelled: 'compel',
+  travelled: 'travel', calling: 'call', installed: 'install',
+
+  // Silent e restored
+  loved: 'love', hoping: 'hope', taking: 'take', changed: 'change', changing: 'change',
+  judged: 'judge', charged: 'charge', arranged: 'arrange', challenged: 'challenge', managed: 'manage',
+  deciding: 'decide', decided: 'decide', providing: 'provide', including: 'include',
+  refused: 'refuse', amused: 'amuse', practised: 'practise', noticed: 'notice', produced: 'produce',
+  reduced: 'reduce', introduced: 'introduce', breathing: 'breathe', seething: 'seethe',
+
+  // No e where the stem is a word
+  asked: 'ask', helped: 'help', avoided: 'avoid', pressed: 'press', focused: 'focus', biased: 'bias',
+  singing: 'sing', belonging: 'belong', dragged: 'drag',
+
+  // Plurals, third person and superlatives
+  cats: 'cat', boxes: 'box', cities: 'city', ties: 'tie', cried: 'cry', causes: 'cause',
+  houses: 'house', buses: 'bus', gases: 'gas', lenses: 'lens', focuses: 'focus',
+  happiest: 'happy', biggest: 'big',
+
+  // Words that only look inflected
+  bed: 'bed', embed: 'embed', shed: 'shed', shred: 'shred', sled: 'sled', hundred: 'hundred',
+  sacred: 'sacred', string: 'string', thing: 'thing', bring: 'bring', priest: 'priest',
+  lens: 'lens', bus: 'bus', yes: 'yes',
+};
+
+const failures = Object.entries(CASES)
+  .map(([word, expected]) => ({ word, expected, actual: lemmatize(word) }))
+  .filter(({ expected, actual }) => actual !== expected);
+
+if (failures.length > 0) {
+  failures.forEach(({ word, expected, actual }) => console.error(`❌ ${word}: expected "${expected}", got "${actual}"`));
+  process.exit(1);
+}
+console.log(`✅ Lemmatizer: all ${Object.keys(CASES).length} cases pass`);
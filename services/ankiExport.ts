@@ -0,0 +1,146 @@
+import { VocabularyEntry } from '../types';
+import { findTTSAudio } from './audioCache';
+import { wordFormsPattern } from './lemmatizer';
+import { isMastered } from './spacedRepetition';
+import { createZip, ZipEntry } from './zipWriter';
+
+// Export of vocabulary entries for Anki: a zip with a tab-separated notes file (with
+// Anki's import headers), the cached TTS audio of each word and context sentence, and
+// a README explaining the import.
+
+export type MasteryFilter = 'all' | 'learning' | 'mastered';
+
+export interface AnkiExportFilter {
+  textHash: string | null;   // Only words looked up in this text
+  from: number | null;       // Added at or after (timestamp)
+  to: number | null;         // Added at or before (timestamp)
+  mastery: MasteryFilter;
+}
+
+export interface AnkiExportResult {
+  blob: Blob;
+  notes: number;
+  audioFiles: number;
+}
+
+const NOTES_FILE = 'philingo-notes.txt';
+const MEDIA_DIR = 'media/';
+
+const COLUMNS = [
+  'Word', 'IPA', 'Syllables', 'Definition', 'DefinitionEn', 'Roots',
+  'Synonyms', 'Phrases', 'Context', 'WordAudio', 'ContextAudio', 'Tags',
+];
+
+const README = `Philingo vocabulary export for Anki
+=====================================
+
+1. Copy every file in the "media" folder into your Anki profile's "collection.media"
+   folder (Anki: Tools > Check Media > View Files opens it).
+2. In Anki choose File > Import and select ${NOTES_FILE}.
+3. Pick a note type with at least ${COLUMNS.length - 1} fields (or create one with the fields
+   ${COLUMNS.slice(0, -1).join(', ')}) and map the columns to them.
+   The last column holds the tags.
+
+Audio fields contain [sound:...] references and stay empty for words or sentences
+that had no cached audio.
+`;
+
+/**
+ * Entries matching an export filter
+ */
+export const filterVocabulary = (entries: VocabularyEntry[], filter: AnkiExportFilter): VocabularyEntry[] =>
+  entries.filter(entry => {
+    if (filter.textHash && !entry.sources.some(s => s.textHash === filter.textHash)) return false;
+    if (filter.from !== null && entry.addedAt < filter.from) return false;
+    if (filter.to !== null && entry.addedAt > filter.to) return false;
+    if (filter.mastery === 'mastered') return isMastered(entry);
+    if (filter.mastery === 'learning') return !isMastered(entry);
+    return true;
+  });
+
+// Field content: HTML-escaped, on one line
+function field(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\t\r\n]+/g, ' ')
+    .trim();
+}
+
+// The context sentence with the word (any form) in bold
+function contextField(entry: VocabularyEntry, context: string): string {
+  return field(context).replace(wordFormsPattern([entry.word, ...entry.forms]), '$1<b>$2</b>');
+}
+
+function extensionFor(mimeType: string): string {
+  if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'mp3';
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('aac')) return 'aac';
+  return 'mp3';
+}
+
+// File name safe for Anki's media folder
+function mediaName(word: string, suffix: string, mimeType: string): string {
+  const safe = word.replace(/[^a-z0-9-]+/gi, '_');
+  return `philingo_${safe}${suffix}.${extensionFor(mimeType)}`;
+}
+
+/**
+ * Build the Anki export zip. Audio is taken from the TTS cache only (nothing is generated).
+ */
+export const createAnkiExport = async (
+  entries: VocabularyEntry[],
+  options: { includeAudio: boolean }
+): Promise<AnkiExportResult> => {
+  const media: ZipEntry[] = [];
+
+  const addAudio = async (text: string, name: (mimeType: string) => string): Promise<string> => {
+    if (!options.includeAudio || !text) return '';
+    const blob = await findTTSAudio(text);
+    if (!blob) return '';
+    const fileName = name(blob.type);
+    media.push({ name: MEDIA_DIR + fileName, data: new Uint8Array(await blob.arrayBuffer()) });
+    return `[sound:${fileName}]`;
+  };
+
+  const rows: string[] = [];
+  for (const entry of entries) {
+    const { annotation } = entry;
+    const context = entry.sources.find(s => s.context)?.context ?? '';
+    const tags = ['philingo', isMastered(entry) ? 'mastered' : 'learning'];
+
+    rows.push([
+      field(entry.word),
+      field(annotation.ipa),
+      field(annotation.syllables),
+      field(annotation.definition),
+      field(annotation.definitionEn),
+      field(annotation.roots),
+      field(annotation.synonyms.join(', ')),
+      field(annotation.phrases.join('; ')),
+      context ? contextField(entry, context) : '',
+      await addAudio(entry.word, type => mediaName(entry.word, '', type)),
+      await addAudio(context, type => mediaName(entry.word, '_context', type)),
+      tags.join(' '),
+    ].join('\t'));
+  }
+
+  const notes = [
+    '#separator:tab',
+    '#html:true',
+    `#columns:${COLUMNS.join('\t')}`,
+    `#tags column:${COLUMNS.length}`,
+    ...rows,
+  ].join('\n');
+
+  const encoder = new TextEncoder();
+  const blob = createZip([
+    { name: NOTES_FILE, data: encoder.encode(notes) },
+    { name: 'README.txt', data: encoder.encode(README) },
+    ...media,
+  ]);
+
+  return { blob, notes: rows.length, audioFiles: media.length };
+};
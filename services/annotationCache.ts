@@ -0,0 +1,345 @@
+import { Language } from '../i18n/translations';
+import { Annotation } from '../types';
+import { lemmatize } from './lemmatizer';
+import {
+  CacheIndexEntry,
+  cacheIndexItem,
+  jsonItem,
+  readItem,
+  removeIndexedCache,
+  removeKey,
+  validateAnnotation,
+  validateArray,
+  validateString,
+  Validator,
+  writeItem,
+} from './storage';
+
+// Word annotation cache shared by the LLM providers.
+// Entries are keyed by lemma and target language, and each word can hold several senses
+// (e.g. "bank" of a river vs. a financial "bank"). A sense remembers the surface form it was
+// annotated for ("ran" has its own IPA and syllables) and the contexts it was seen in, so
+// later lookups of that form can be matched locally without calling the model.
+
+const MAX_SENSES_PER_WORD = 5;
+const MAX_CONTEXTS_PER_SENSE = 5;
+const MAX_CONTEXT_LENGTH = 300;
+
+// Local matching needs at least this many shared content words, and a clear winner
+const MIN_MATCH_SCORE = 2;
+
+// A known sense of a word and the contexts it was used in
+export interface CachedSense {
+  annotation: Annotation;
+  contexts: string[];
+  form?: string;  // Surface form the annotation is for (the lemma itself if missing)
+}
+
+// Model output for a lookup: the annotation plus which known sense it matched (-1 for a new sense)
+export type SensedAnnotation = Annotation & { knownSense?: number };
+
+export interface AnnotationCache {
+  getSenses: (word: string, language: Language) => CachedSense[];
+  lookup: (word: string, language: Language, context: string) => Annotation | null;
+  store: (word: string, language: Language, context: string, result: SensedAnnotation) => Annotation;
+  recordContext: (word: string, language: Language, senseIndex: number, context: string) => void;
+  clear: () => void;
+  // Backup: all entries keyed by "<language>_<word>"
+  exportEntries: () => Record<string, CachedSense[]>;
+  importEntries: (entries: Record<string, unknown>, mode: 'merge' | 'replace') => number;
+}
+
+// Every cache created in this session, by key prefix (for backups)
+const caches = new Map<string, AnnotationCache>();
+
+/**
+ * Annotation caches of all providers, keyed by storage prefix
+ */
+export const listAnnotationCaches = (): Map<string, AnnotationCache> => caches;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'his', 'how', 'its', 'who', 'did', 'get', 'him', 'she', 'too', 'use', 'that',
+  'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'which',
+  'their', 'there', 'would', 'about', 'could', 'into', 'than', 'then', 'them', 'these', 'some',
+  'very', 'just', 'also', 'more', 'most', 'such', 'only', 'other', 'each', 'over', 'after',
+]);
+
+const validateCachedSense: Validator<CachedSense> = value => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { annotation, contexts, form } = value as Partial<CachedSense>;
+  const validAnnotation = validateAnnotation(annotation);
+  if (!validAnnotation) return null;
+  return {
+    annotation: validAnnotation,
+    contexts: validateArray(validateString)(contexts) || [],
+    ...(typeof form === 'string' ? { form } : {}),
+  };
+};
+
+const sensesItem = (key: string) => jsonItem(key, validateArray(validateCachedSense));
+
+// Lowercased content words of a text (stop words and very short words removed)
+function getContentWords(text: string, exclude: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z']+/g) || [];
+  return new Set(words.filter(w => w.length > 2 && !STOP_WORDS.has(w) && w !== exclude));
+}
+
+// How strongly a context points to a sense: shared content words with its past contexts and description
+function scoreSense(sense: CachedSense, contextWords: Set<string>, word: string): number {
+  const { annotation } = sense;
+  const senseText = [
+    ...sense.contexts,
+    annotation.definitionEn,
+    ...(annotation.phrases || []),
+    ...(annotation.associations || []),
+    ...(annotation.synonyms || []),
+  ].join(' ');
+  const senseWords = getContentWords(senseText, word);
+  let score = 0;
+  contextWords.forEach(w => {
+    if (senseWords.has(w)) score++;
+  });
+  return score;
+}
+
+// The word itself, without a provider namespace suffix (e.g. "bank@http://localhost:11434/v1#llama3")
+function getBaseWord(word: string): string {
+  return word.toLowerCase().split('@')[0].trim();
+}
+
+function normalizeContext(context: string): string {
+  return context.replace(/\s+/g, ' ').trim().slice(0, MAX_CONTEXT_LENGTH);
+}
+
+/**
+ * Create an annotation cache persisted in storage under the given key prefix.
+ * Entries of the old word-only cache (found through its index key) are removed on first use.
+ */
+export const createAnnotationCache = (
+  prefix: string,
+  maxWords: number,
+  legacy?: { indexKey: string }
+): AnnotationCache => {
+  const indexItem = cacheIndexItem(`${prefix}index`);
+  const memoryCache = new Map<string, CachedSense[]>();
+  let legacyRemoved = !legacy;
+
+  // The old cache ignored language and context, so its entries can't be reused
+  const removeLegacyEntries = () => {
+    if (legacyRemoved || !legacy) return;
+    legacyRemoved = true;
+    removeIndexedCache(legacy.indexKey);
+  };
+
+  // Forms of a word share one entry ("ran" and "runs" are cached under "run"); a provider namespace suffix is kept
+  const getEntryKey = (word: string, language: Language) => {
+    const [base, ...namespace] = word.toLowerCase().trim().split('@');
+    return `${language}_${[lemmatize(base.trim()), ...namespace].join('@')}`;
+  };
+
+  const getIndex = (): CacheIndexEntry[] => readItem(indexItem) || [];
+
+  // All senses under a word's entry, whichever form they were annotated for
+  const getEntrySenses = (word: string, language: Language): CachedSense[] => {
+    removeLegacyEntries();
+    const entryKey = getEntryKey(word, language);
+
+    if (memoryCache.has(entryKey)) {
+      return memoryCache.get(entryKey)!;
+    }
+
+    const senses = readItem(sensesItem(prefix + entryKey));
+    if (!senses) return [];
+    memoryCache.set(entryKey, senses);
+    return senses;
+  };
+
+  // Positions in the entry of the senses annotated for this form of the word
+  const getFormIndices = (word: string, language: Language): number[] => {
+    const form = getBaseWord(word);
+    const lemma = lemmatize(form);
+    return getEntrySenses(word, language).flatMap((sense, i) => ((sense.form ?? lemma) === form ? [i] : []));
+  };
+
+  /**
+   * Known senses of a word in this form (other forms of the same lemma have their own IPA and syllables)
+   */
+  const getSenses = (word: string, language: Language): CachedSense[] => {
+    const senses = getEntrySenses(word, language);
+    return getFormIndices(word, language).map(i => senses[i]);
+  };
+
+  const saveSenses = (word: string, language: Language, senses: CachedSense[]) => {
+    const entryKey = getEntryKey(word, language);
+    const storageKey = prefix + entryKey;
+    memoryCache.set(entryKey, senses);
+
+    // Move the word to the end of the index (most recently used)
+    const index = getIndex().filter(e => e.key !== storageKey);
+
+    // Manage cache size - remove oldest words if full
+    while (index.length >= maxWords) {
+      const oldest = index.shift();
+      if (oldest) {
+        removeKey(oldest.key);
+        memoryCache.delete(oldest.key.slice(prefix.length));
+      }
+    }
+
+    index.push({ key: storageKey, timestamp: Date.now() });
+    if (writeItem(sensesItem(storageKey), senses)) {
+      writeItem(indexItem, index);
+    }
+  };
+
+  /**
+   * Pick the known sense that fits a context, or -1 if there is no confident local match
+   */
+  const matchSense = (word: string, language: Language, context: string): number => {
+    const senses = getSenses(word, language);
+    if (senses.length === 0) return -1;
+
+    const normalized = normalizeContext(context);
+    const exact = senses.findIndex(s => s.contexts.includes(normalized));
+    if (exact !== -1) return exact;
+
+    const baseWord = getBaseWord(word);
+    const contextWords = getContentWords(normalized, baseWord);
+    const scores = senses.map(sense => scoreSense(sense, contextWords, baseWord));
+    const best = Math.max(...scores);
+    const bestIndex = scores.indexOf(best);
+    const runnerUp = Math.max(...scores.filter((_, i) => i !== bestIndex), 0);
+
+    return best >= MIN_MATCH_SCORE && best > runnerUp ? bestIndex : -1;
+  };
+
+  /**
+   * Remember that a sense was used in a context
+   */
+  const recordContext = (word: string, language: Language, senseIndex: number, context: string) => {
+    const entryIndex = getFormIndices(word, language)[senseIndex];
+    if (entryIndex === undefined) return;
+    const normalized = normalizeContext(context);
+
+    const updated = getEntrySenses(word, language).map((sense, i) => {
+      // A context belongs to one sense only (users can correct the choice in the tooltip)
+      const contexts = sense.contexts.filter(c => c !== normalized);
+      if (i !== entryIndex) return { ...sense, contexts };
+      return { ...sense, contexts: [normalized, ...contexts].slice(0, MAX_CONTEXTS_PER_SENSE) };
+    });
+    saveSenses(word, language, updated);
+  };
+
+  /**
+   * Store a newly annotated sense (a sense with the same definition is reused)
+   */
+  const addSense = (word: string, language: Language, annotation: Annotation, context: string) => {
+    const senses = getSenses(word, language);
+    const existing = senses.findIndex(s => s.annotation.definition.trim() === annotation.definition.trim());
+    if (existing !== -1) {
+      recordContext(word, language, existing, context);
+      return;
+    }
+
+    // Drop the oldest sense of this form if it has too many
+    const dropped = new Set(getFormIndices(word, language).slice(0, senses.length + 1 - MAX_SENSES_PER_WORD));
+    const updated = [
+      ...getEntrySenses(word, language).filter((_, i) => !dropped.has(i)),
+      { annotation, contexts: [normalizeContext(context)], form: getBaseWord(word) },
+    ];
+    saveSenses(word, language, updated);
+    console.log("Annotation cached:", word, `(${senses.length + 1 - dropped.size} senses)`);
+  };
+
+  /**
+   * Cached annotation for a word in a context, if a known sense matches locally
+   */
+  const lookup = (word: string, language: Language, context: string): Annotation | null => {
+    const senseIndex = matchSense(word, language, context);
+    if (senseIndex === -1) return null;
+    recordContext(word, language, senseIndex, context);
+    return getSenses(word, language)[senseIndex].annotation;
+  };
+
+  /**
+   * Store a model result. If the model matched a known sense, that sense is returned
+   * unchanged so the same meaning always shows the same annotation.
+   */
+  const store = (word: string, language: Language, context: string, { knownSense, ...annotation }: SensedAnnotation): Annotation => {
+    const senses = getSenses(word, language);
+    if (knownSense !== undefined && knownSense >= 0 && senses[knownSense]) {
+      recordContext(word, language, knownSense, context);
+      return senses[knownSense].annotation;
+    }
+    addSense(word, language, annotation, context);
+    return annotation;
+  };
+
+  /**
+   * Clear the cache (both memory and storage)
+   */
+  const clear = () => {
+    memoryCache.clear();
+    removeIndexedCache(indexItem.key);
+  };
+
+  const exportEntries = (): Record<string, CachedSense[]> => {
+    const entries: Record<string, CachedSense[]> = {};
+    for (const { key } of getIndex()) {
+      const senses = readItem(sensesItem(key));
+      if (senses) entries[key.slice(prefix.length)] = senses;
+    }
+    return entries;
+  };
+
+  /**
+   * Import backed-up entries. Merging keeps local senses and adds imported ones with new forms or definitions.
+   * Returns the number of words imported.
+   */
+  const importEntries = (entries: Record<string, unknown>, mode: 'merge' | 'replace'): number => {
+    removeLegacyEntries();
+    if (mode === 'replace') clear();
+
+    let count = 0;
+    for (const [entryKey, value] of Object.entries(entries)) {
+      const imported = validateArray(validateCachedSense)(value);
+      const separator = entryKey.indexOf('_');
+      if (!imported || imported.length === 0 || separator === -1) continue;
+      const language = entryKey.slice(0, separator) as Language;
+      const word = entryKey.slice(separator + 1);
+
+      // Senses are told apart by form and definition, and each form keeps at most MAX_SENSES_PER_WORD
+      const lemma = lemmatize(getBaseWord(word));
+      const formOf = (sense: CachedSense) => sense.form ?? lemma;
+      const local = getEntrySenses(word, language);
+      const known = new Set(local.map(s => `${formOf(s)}\n${s.annotation.definition.trim()}`));
+      const added = imported.filter(s => !known.has(`${formOf(s)}\n${s.annotation.definition.trim()}`));
+      const perForm = new Map<string, number>();
+      saveSenses(word, language, [...local, ...added].filter(sense => {
+        const count = (perForm.get(formOf(sense)) || 0) + 1;
+        perForm.set(formOf(sense), count);
+        return count <= MAX_SENSES_PER_WORD;
+      }));
+      count++;
+    }
+    return count;
+  };
+
+  const cache = { getSenses, lookup, store, recordContext, clear, exportEntries, importEntries };
+  caches.set(prefix, cache);
+  return cache;
+};
+
+/**
+ * Prompt text asking the model which known sense (if any) a context uses
+ */
+export const getKnownSenseInstructions = (senses: CachedSense[]): string => {
+  if (senses.length === 0) {
+    return `Set "knownSense" to -1.`;
+  }
+  const list = senses.map((s, i) => `${i}: ${s.annotation.definitionEn}`).join('\n');
+  return `Known senses of this word (number: English definition):
+${list}
+If the word is used here in one of these senses, set "knownSense" to its number; otherwise set "knownSense" to -1 and describe the new sense.`;
+};
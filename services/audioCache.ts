@@ -0,0 +1,293 @@
+import { TTSAudioResult } from '../types';
+import { audioCacheBudgetItem, readItem, removeIndexedCache, writeItem } from './storage';
+
+// Audio cache in IndexedDB, shared by TTS (all providers) and pronunciation recordings.
+// Stores raw Blobs and evicts least recently used entries once a byte budget is exceeded.
+
+const DB_NAME = 'philingo_audio';
+const DB_VERSION = 1;
+const STORE_NAME = 'audio';
+
+const DEFAULT_BUDGET_BYTES = 100 * 1024 * 1024; // 100 MB
+
+// In-memory first tier per TTS cache (decoded audio for instant replay)
+const MAX_MEMORY_ENTRIES = 50;
+
+interface AudioRecord {
+  key: string;
+  blob: Blob;
+  size: number;
+  lastAccess: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run a function against the store and resolve once the transaction completes
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => T | Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    let result: T;
+    Promise.resolve(run(transaction.objectStore(STORE_NAME))).then(value => {
+      result = value;
+    }, reject);
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Byte budget of the audio cache
+ */
+export const getAudioCacheBudget = (): number => {
+  const stored = readItem(audioCacheBudgetItem);
+  return stored !== null && stored > 0 ? stored : DEFAULT_BUDGET_BYTES;
+};
+
+/**
+ * Change the byte budget, evicting old entries right away if the cache is now too large
+ */
+export const setAudioCacheBudget = async (bytes: number): Promise<void> => {
+  writeItem(audioCacheBudgetItem, Math.max(0, Math.round(bytes)));
+  await evictToBudget();
+};
+
+// Delete least recently used entries until the total size fits the budget
+async function evictToBudget(): Promise<void> {
+  const budget = getAudioCacheBudget();
+  try {
+    await withStore('readwrite', store => new Promise<void>((resolve, reject) => {
+      // Walk from most to least recently used, keeping entries while they fit
+      let total = 0;
+      const request = store.index('lastAccess').openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        total += (cursor.value as AudioRecord).size;
+        if (total > budget) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    }));
+  } catch (e) {
+    console.warn("Failed to evict audio cache entries:", e);
+  }
+}
+
+/**
+ * Read a cached Blob and mark it as recently used. Resolves to null if missing or unavailable.
+ */
+export const getAudio = async (key: string): Promise<Blob | null> => {
+  try {
+    return await withStore('readwrite', async store => {
+      const record = await requestToPromise(store.get(key)) as AudioRecord | undefined;
+      if (!record) return null;
+      store.put({ ...record, lastAccess: Date.now() });
+      return record.blob;
+    });
+  } catch (e) {
+    console.warn("Failed to read audio from IndexedDB:", e);
+    return null;
+  }
+};
+
+/**
+ * Store a Blob. Resolves to false if it could not be saved (e.g. IndexedDB unavailable or quota exceeded).
+ */
+export const putAudio = async (key: string, blob: Blob): Promise<boolean> => {
+  try {
+    const record: AudioRecord = { key, blob, size: blob.size, lastAccess: Date.now() };
+    await withStore('readwrite', store => {
+      store.put(record);
+    });
+  } catch (e) {
+    console.warn("Failed to save audio to IndexedDB:", e);
+    return false;
+  }
+  await evictToBudget();
+  return true;
+};
+
+/**
+ * Delete one cached Blob
+ */
+export const deleteAudio = async (key: string): Promise<void> => {
+  try {
+    await withStore('readwrite', store => {
+      store.delete(key);
+    });
+  } catch (e) {
+    console.warn("Failed to delete audio from IndexedDB:", e);
+  }
+};
+
+/**
+ * Delete every entry whose key starts with the prefix
+ */
+export const clearAudioByPrefix = async (prefix: string): Promise<void> => {
+  try {
+    await withStore('readwrite', store => {
+      store.delete(IDBKeyRange.bound(prefix, prefix + '\uffff'));
+    });
+  } catch (e) {
+    console.warn("Failed to clear audio cache:", e);
+  }
+};
+
+/**
+ * Total size in bytes of everything in the audio cache
+ */
+export const getAudioCacheUsage = async (): Promise<number> => {
+  try {
+    const records = await withStore('readonly', store => requestToPromise(store.getAll())) as AudioRecord[];
+    return records.reduce((sum, record) => sum + record.size, 0);
+  } catch {
+    return 0;
+  }
+};
+
+// ============================================
+// TTS cache (memory + IndexedDB)
+// ============================================
+
+export interface TTSCache {
+  get: (text: string) => Promise<TTSAudioResult | null>;
+  set: (text: string, result: TTSAudioResult) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+/**
+ * Create a TTS cache for one provider. Keys are the text plus whatever the provider
+ * appends (voice, model), stored under "tts:<namespace>:" in the shared audio store.
+ * Entries of the old base64 localStorage cache (found through its index key) are removed on first use.
+ */
+export const createTTSCache = (namespace: string, legacy?: { indexKey: string }): TTSCache => {
+  const prefix = `tts:${namespace}:`;
+  const memoryCache = new Map<string, TTSAudioResult>();
+  let legacyRemoved = !legacy;
+
+  const removeLegacyEntries = () => {
+    if (legacyRemoved || !legacy) return;
+    legacyRemoved = true;
+    removeIndexedCache(legacy.indexKey);
+  };
+
+  // Map order doubles as recency order: re-inserting moves an entry to the end
+  const remember = (textKey: string, result: TTSAudioResult) => {
+    memoryCache.delete(textKey);
+    memoryCache.set(textKey, result);
+    while (memoryCache.size > MAX_MEMORY_ENTRIES) {
+      memoryCache.delete(memoryCache.keys().next().value!);
+    }
+  };
+
+  const get = async (text: string): Promise<TTSAudioResult | null> => {
+    removeLegacyEntries();
+    const textKey = text.trim();
+
+    const cached = memoryCache.get(textKey);
+    if (cached) {
+      remember(textKey, cached);
+      return cached;
+    }
+
+    const blob = await getAudio(prefix + textKey);
+    if (!blob) return null;
+    const result: TTSAudioResult = { data: await blob.arrayBuffer(), mimeType: blob.type };
+    remember(textKey, result);
+    return result;
+  };
+
+  const set = async (text: string, result: TTSAudioResult): Promise<void> => {
+    const textKey = text.trim();
+    remember(textKey, result);
+    await putAudio(prefix + textKey, new Blob([result.data], { type: result.mimeType }));
+  };
+
+  const clear = async (): Promise<void> => {
+    memoryCache.clear();
+    await clearAudioByPrefix(prefix);
+  };
+
+  return { get, set, clear };
+};
+
+/**
+ * Find cached TTS audio for a text from any provider or voice (keys are "tts:<namespace>:<text>_<voice>...").
+ * Resolves to null if none is cached.
+ */
+export const findTTSAudio = async (text: string): Promise<Blob | null> => {
+  const textKey = text.trim();
+  if (!textKey) return null;
+  try {
+    const keys = await withStore('readonly', store =>
+      requestToPromise(store.getAllKeys(IDBKeyRange.bound('tts:', 'tts:\uffff')))
+    ) as string[];
+    const match = keys.find(key => {
+      const rest = key.slice(key.indexOf(':', 4) + 1);
+      return rest.startsWith(textKey) && /^\s*_/.test(rest.slice(textKey.length));
+    });
+    return match ? getAudio(match) : null;
+  } catch (e) {
+    console.warn("Failed to search the audio cache:", e);
+    return null;
+  }
+};
+
+// ============================================
+// Pronunciation recordings
+// ============================================
+
+const RECORDING_PREFIX = 'recording:';
+
+/**
+ * Store a pronunciation recording. Resolves to its cache key, or null if it could not be saved.
+ */
+export const saveRecording = async (id: string, blob: Blob): Promise<string | null> => {
+  const key = RECORDING_PREFIX + id;
+  return (await putAudio(key, blob)) ? key : null;
+};
+
+/**
+ * Delete every stored pronunciation recording
+ */
+export const clearRecordings = (): Promise<void> => clearAudioByPrefix(RECORDING_PREFIX);
@@ -0,0 +1,262 @@
+import { DailyActivity, DictationResult, TextHistoryEntry, VocabularyEntry } from '../types';
+import { listAnnotationCaches } from './annotationCache';
+import { listProviders } from './providerRegistry';
+import {
+  activityItem,
+  audioCacheBudgetItem,
+  clozeSettingsItem,
+  currentProviderItem,
+  customProviderSettingsItem,
+  dictationItem,
+  hashText,
+  inputTextItem,
+  knownWordsItem,
+  languageItem,
+  mergeVocabularyEntries,
+  placementItem,
+  providerRoutingItem,
+  readItem,
+  STORAGE_VERSION,
+  StorageItem,
+  textHistoryItem,
+  validateArray,
+  validateString,
+  validateTextHistoryEntry,
+  validateTextWordData,
+  validateVocabularyEntry,
+  vocabularyItem,
+  voiceItem,
+  wordDataToEntries,
+  writeItem,
+  writingHintLevelItem,
+} from './storage';
+
+// Export/import of learner data as one JSON file. API keys are never exported.
+
+const BACKUP_FORMAT = 'philingo-backup';
+// Version 2 replaced per-text wordData with the global vocabulary
+export const BACKUP_VERSION = 2;
+
+const MAX_HISTORY_ENTRIES = 50;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  storageVersion: number;   // STORAGE_VERSION of the app that wrote it
+  exportedAt: number;
+  vocabulary: VocabularyEntry[];
+  knownWords: string[];      // Added within version 2, empty when missing
+  activity: Record<string, DailyActivity>;   // Added within version 2, empty when missing
+  dictation: Record<string, DictationResult>; // Added within version 2, empty when missing
+  textHistory: TextHistoryEntry[];
+  inputText: string | null;
+  // Annotation cache entries by cache prefix, then by "<language>_<word>"
+  annotations: Record<string, Record<string, unknown>>;
+  settings: Record<string, unknown>;   // Storage key -> stored value
+}
+
+export interface ImportSummary {
+  words: number;
+  knownWords: number;
+  historyEntries: number;
+  annotations: number;
+  settings: number;
+}
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+// Settings included in backups (everything except API keys)
+function getSettingItems(): StorageItem<unknown>[] {
+  return [
+    languageItem,
+    providerRoutingItem,
+    currentProviderItem,
+    customProviderSettingsItem,
+    audioCacheBudgetItem,
+    writingHintLevelItem,
+    clozeSettingsItem,
+    placementItem,
+    ...listProviders().map(p => voiceItem(p.id)),
+  ];
+}
+
+/**
+ * Collect all learner data into a backup archive
+ */
+export const createBackup = (): BackupArchive => {
+  const annotations: BackupArchive['annotations'] = {};
+  listAnnotationCaches().forEach((cache, prefix) => {
+    annotations[prefix] = cache.exportEntries();
+  });
+
+  const settings: Record<string, unknown> = {};
+  for (const item of getSettingItems()) {
+    const value = readItem(item);
+    if (value !== null) settings[item.key] = value;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    storageVersion: STORAGE_VERSION,
+    exportedAt: Date.now(),
+    vocabulary: readItem(vocabularyItem) || [],
+    knownWords: readItem(knownWordsItem) || [],
+    activity: readItem(activityItem) || {},
+    dictation: readItem(dictationItem) || {},
+    textHistory: readItem(textHistoryItem) || [],
+    inputText: readItem(inputTextItem),
+    annotations,
+    settings,
+  };
+};
+
+/**
+ * Parse and check a backup file's contents. Throws BackupFormatError if it isn't a usable backup.
+ */
+export const parseBackup = (json: string): BackupArchive => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new BackupFormatError("File is not valid JSON");
+  }
+
+  const archive = value as Partial<BackupArchive> | null;
+  if (!archive || archive.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError("File is not a Philingo backup");
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    throw new BackupFormatError("Backup was made by a newer version of Philingo");
+  }
+
+  // Entries are validated the same way as stored data, so old or damaged entries are repaired or skipped
+  const textHistory = validateArray(validateTextHistoryEntry)(archive.textHistory) || [];
+  return {
+    format: BACKUP_FORMAT,
+    version: archive.version,
+    storageVersion: typeof archive.storageVersion === 'number' ? archive.storageVersion : 0,
+    exportedAt: typeof archive.exportedAt === 'number' ? archive.exportedAt : 0,
+    vocabulary: archive.version >= 2
+      ? validateArray(validateVocabularyEntry)(archive.vocabulary) || []
+      : convertWordData((archive as { wordData?: unknown }).wordData, textHistory),
+    knownWords: validateArray(validateString)(archive.knownWords) || [],
+    activity: activityItem.validate(archive.activity) || {},
+    dictation: dictationItem.validate(archive.dictation) || {},
+    textHistory,
+    inputText: typeof archive.inputText === 'string' ? archive.inputText : null,
+    annotations: typeof archive.annotations === 'object' && archive.annotations !== null ? archive.annotations : {},
+    settings: typeof archive.settings === 'object' && archive.settings !== null ? archive.settings : {},
+  };
+};
+
+// Version 1 backups stored looked-up words per text
+function convertWordData(wordData: unknown, textHistory: TextHistoryEntry[]): VocabularyEntry[] {
+  const texts = new Map(textHistory.map(entry => [hashText(entry.text), entry.text]));
+  return mergeVocabulary([], (validateArray(validateTextWordData)(wordData) || [])
+    .flatMap(data => wordDataToEntries(data, texts.get(data.textHash))));
+}
+
+// One entry per word; progress of whichever entry changed last wins
+function mergeVocabulary(local: VocabularyEntry[], imported: VocabularyEntry[]): VocabularyEntry[] {
+  const byWord = new Map(local.map(entry => [entry.word, entry]));
+  for (const entry of imported) {
+    const existing = byWord.get(entry.word);
+    byWord.set(entry.word, existing ? mergeVocabularyEntries(existing, entry) : entry);
+  }
+  return [...byWord.values()];
+}
+
+// Union by text, keeping the latest timestamp, most recent first
+function mergeHistory(local: TextHistoryEntry[], imported: TextHistoryEntry[]): TextHistoryEntry[] {
+  const byText = new Map<string, TextHistoryEntry>();
+  for (const entry of [...local, ...imported]) {
+    const existing = byText.get(entry.text);
+    if (!existing || entry.timestamp > existing.timestamp) {
+      byText.set(entry.text, entry);
+    }
+  }
+  return [...byText.values()]
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_HISTORY_ENTRIES);
+}
+
+/**
+ * Import a backup. "merge" combines it with existing data (newer word entries win,
+ * local settings are kept); "replace" removes existing learner data first.
+ */
+export const importBackup = (archive: BackupArchive, mode: ImportMode): ImportSummary => {
+  const summary: ImportSummary = {
+    words: archive.vocabulary.length,
+    knownWords: archive.knownWords.length,
+    historyEntries: 0,
+    annotations: 0,
+    settings: 0,
+  };
+
+  // Vocabulary and progress
+  const vocabulary = mode === 'merge'
+    ? mergeVocabulary(readItem(vocabularyItem) || [], archive.vocabulary)
+    : archive.vocabulary;
+  writeItem(vocabularyItem, vocabulary);
+
+  // Known words
+  const knownWords = mode === 'merge'
+    ? [...new Set([...(readItem(knownWordsItem) || []), ...archive.knownWords])]
+    : archive.knownWords;
+  writeItem(knownWordsItem, knownWords);
+
+  // Activity log: merging only fills in days that aren't logged locally
+  const activity = mode === 'merge'
+    ? { ...archive.activity, ...(readItem(activityItem) || {}) }
+    : archive.activity;
+  writeItem(activityItem, activity);
+
+  // Dictation results: the most recently practiced result of each sentence wins
+  const dictation = mode === 'merge' ? readItem(dictationItem) || {} : {};
+  for (const [key, result] of Object.entries(archive.dictation)) {
+    if (!dictation[key] || result.lastAttemptAt > dictation[key].lastAttemptAt) dictation[key] = result;
+  }
+  writeItem(dictationItem, dictation);
+
+  // Practice history and current text
+  const history = mode === 'merge'
+    ? mergeHistory(readItem(textHistoryItem) || [], archive.textHistory)
+    : archive.textHistory.slice(0, MAX_HISTORY_ENTRIES);
+  writeItem(textHistoryItem, history);
+  summary.historyEntries = archive.textHistory.length;
+
+  if (archive.inputText !== null && (mode === 'replace' || readItem(inputTextItem) === null)) {
+    writeItem(inputTextItem, archive.inputText);
+  }
+
+  // Cached annotations (caches of providers that no longer exist are skipped)
+  listAnnotationCaches().forEach((cache, prefix) => {
+    const entries = archive.annotations[prefix];
+    if (typeof entries === 'object' && entries !== null) {
+      summary.annotations += cache.importEntries(entries as Record<string, unknown>, mode);
+    } else if (mode === 'replace') {
+      cache.clear();
+    }
+  });
+
+  // Settings: merging only fills in settings that aren't set locally
+  for (const item of getSettingItems()) {
+    if (!(item.key in archive.settings)) continue;
+    const value = item.validate(archive.settings[item.key]);
+    if (value === null) continue;
+    if (mode === 'replace' || readItem(item) === null) {
+      writeItem(item, value);
+      summary.settings++;
+    }
+  }
+
+  return summary;
+};
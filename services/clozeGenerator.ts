@@ -0,0 +1,167 @@
+import { CefrLevel, ClozeDensity, ClozeSettings, VocabularyEntry, WordToken } from '../types';
+import { lemmatize } from './lemmatizer';
+import { isDue } from './spacedRepetition';
+import { compareLevels, getWordLevel, isWordLevelDataLoaded } from './wordLevelService';
+
+// Picks the words writing mode blanks. Besides the learner's due vocabulary words, blanks
+// can be generated for any text: every Nth content word, words above the learner's level,
+// function words (grammar practice) or the words that go with a vocabulary word in one of
+// its annotated phrases. Names are never blanked.
+
+export interface ClozeBlank {
+  tokenIndex: number;
+  entry?: VocabularyEntry;  // Vocabulary entry of the word, if it was looked up
+  isDue: boolean;           // The word is due: its first answer counts as a review (a word can be blanked more than once)
+}
+
+// Level assumed for learners who haven't taken the placement test
+export const DEFAULT_LEARNER_LEVEL: CefrLevel = 'B1';
+
+// At most one blank per this many words (for 'everyNth': one per this many content words)
+const DENSITY_INTERVAL: Record<ClozeDensity, number> = { low: 12, medium: 8, high: 5 };
+
+// Articles, determiners, pronouns, prepositions, conjunctions and auxiliary verbs
+const FUNCTION_WORDS = new Set(`
+  a an the this that these those some any each every no all both either neither
+  i me my mine you your yours he him his she her hers it its we us our ours they them their theirs
+  who whom whose which what there
+  about above across after against along among around at before behind below beside between beyond
+  by down during except for from in inside into like near of off on onto out over past since
+  through to toward towards under until up upon with within without
+  and but or nor so yet because although though while whereas if unless whether than as
+  am is are was were be been being have has had do does did
+  will would shall should can could may might must not
+`.split(/\s+/).filter(Boolean));
+
+// Placeholders in annotated phrases ("take sth into account"): they match any one word
+const PHRASE_PLACEHOLDERS = new Set(['sb', 'sth', 'someone', 'something', "one's", 'oneself']);
+
+const WORD_PATTERN = /[a-zA-Z0-9'’-]+/g;
+
+const normalize = (word: string) => word.toLowerCase().replace(/’/g, "'");
+
+const isFunctionWord = (word: string) => FUNCTION_WORDS.has(normalize(word));
+
+// The first word of its sentence, where a capital letter says nothing
+function isSentenceStart(tokens: WordToken[], index: number): boolean {
+  for (let i = index - 1; i >= 0; i--) {
+    if (tokens[i].isWord) return tokens[i].sentenceIndex !== tokens[index].sentenceIndex;
+  }
+  return true;
+}
+
+// Capitalized inside a sentence, or at its start and missing from the word list
+function isProperNoun(tokens: WordToken[], index: number): boolean {
+  const { text } = tokens[index];
+  if (!/^[A-Z]/.test(text) || text === 'I') return false;
+  if (!isSentenceStart(tokens, index)) return true;
+  return isWordLevelDataLoaded() && getWordLevel(text) === undefined;
+}
+
+// Words worth testing: no names, numbers or contractions
+const isBlankable = (tokens: WordToken[], index: number) =>
+  /^[a-zA-Z]+(-[a-zA-Z]+)*$/.test(tokens[index].text) && !isProperNoun(tokens, index);
+
+const isContentWord = (tokens: WordToken[], index: number) =>
+  isBlankable(tokens, index) && !isFunctionWord(tokens[index].text);
+
+// Evenly spread subset of the candidates, one per interval words of the text at most
+function thin(candidates: number[], wordCount: number, interval: number): number[] {
+  const budget = Math.max(1, Math.floor(wordCount / interval));
+  if (candidates.length <= budget) return candidates;
+  return Array.from({ length: budget }, (_, i) => candidates[Math.floor((i * candidates.length) / budget)]);
+}
+
+// Tokens of the text's occurrences of an annotated phrase, other than the vocabulary word itself
+function collocationPartners(tokens: WordToken[], wordIndices: number[], entry: VocabularyEntry, phrase: string): number[] {
+  const phraseWords = (phrase.match(WORD_PATTERN) || []).map(normalize);
+  if (phraseWords.length < 2 || !phraseWords.some(w => lemmatize(w) === entry.word)) return [];
+
+  const partners: number[] = [];
+  for (let start = 0; start + phraseWords.length <= wordIndices.length; start++) {
+    const span = wordIndices.slice(start, start + phraseWords.length);
+    const matches = phraseWords.every((w, i) => {
+      const word = normalize(tokens[span[i]].text);
+      return PHRASE_PLACEHOLDERS.has(w) || word === w || lemmatize(word) === lemmatize(w);
+    });
+    if (!matches) continue;
+
+    const others = span.filter((index, i) =>
+      !PHRASE_PLACEHOLDERS.has(phraseWords[i]) && lemmatize(tokens[index].text) !== entry.word && isBlankable(tokens, index));
+    // Blank the content words of the phrase, or its function words if it has no others ("by accident")
+    const content = others.filter(index => !isFunctionWord(tokens[index].text));
+    partners.push(...(content.length > 0 ? content : others));
+  }
+  return partners;
+}
+
+/**
+ * Blanks for a text. With the 'due' strategy, one blank per due vocabulary word (at the
+ * first occurrence of any of its forms); the other strategies pick words by the density.
+ */
+export const generateCloze = (
+  tokens: WordToken[],
+  { strategy, density }: ClozeSettings,
+  vocabulary: VocabularyEntry[],
+  learnerLevel: CefrLevel = DEFAULT_LEARNER_LEVEL,
+  now: number = Date.now()
+): ClozeBlank[] => {
+  const entries = new Map(vocabulary.map(entry => [entry.word, entry]));
+  const wordIndices = tokens.flatMap((token, index) => (token.isWord ? [index] : []));
+  const interval = DENSITY_INTERVAL[density];
+
+  let picked: number[];
+  switch (strategy) {
+    case 'due': {
+      const usedWords = new Set<string>();
+      picked = wordIndices.filter(index => {
+        const lemma = lemmatize(tokens[index].text);
+        const entry = entries.get(lemma);
+        if (!entry || !isDue(entry, now) || usedWords.has(lemma)) return false;
+        usedWords.add(lemma);
+        return true;
+      });
+      break;
+    }
+
+    case 'everyNth':
+      picked = wordIndices
+        .filter(index => isContentWord(tokens, index))
+        .filter((_, i) => i % interval === interval - 1);
+      break;
+
+    case 'aboveLevel':
+      picked = thin(wordIndices.filter(index => {
+        if (!isContentWord(tokens, index)) return false;
+        const level = tokens[index].level ?? getWordLevel(tokens[index].text);
+        return !!level && compareLevels(level, learnerLevel) > 0;
+      }), wordIndices.length, interval);
+      break;
+
+    case 'functionWords':
+      picked = thin(
+        wordIndices.filter(index => isBlankable(tokens, index) && isFunctionWord(tokens[index].text)),
+        wordIndices.length,
+        interval
+      );
+      break;
+
+    case 'collocations': {
+      const partners = new Set<number>();
+      const lemmasInText = new Set(wordIndices.map(index => lemmatize(tokens[index].text)));
+      for (const entry of vocabulary) {
+        if (!lemmasInText.has(entry.word)) continue;
+        for (const phrase of entry.annotation.phrases) {
+          collocationPartners(tokens, wordIndices, entry, phrase).forEach(index => partners.add(index));
+        }
+      }
+      picked = thin([...partners].sort((a, b) => a - b), wordIndices.length, interval);
+      break;
+    }
+  }
+
+  return picked.map(tokenIndex => {
+    const entry = entries.get(lemmatize(tokens[tokenIndex].text));
+    return { tokenIndex, entry, isDue: !!entry && isDue(entry, now) };
+  });
+};
@@ -0,0 +1,327 @@
+import { Language } from '../i18n/translations';
+import { Annotation, PronunciationFeedback, SentenceCorrection, SentenceFeedback, TTSAudioResult, VoiceOption, WordError } from '../types';
+import { pcmToWav } from './geminiService';
+import { lemmatize } from './lemmatizer';
+import { AbortedError } from './llmErrors';
+import type { LLMProviderDefinition } from './providerRegistry';
+
+// Offline demo provider: deterministic results with no network or API key,
+// so the Reader, WritingMode and FeedbackPanel flows can be exercised anywhere.
+
+const SAMPLE_RATE = 24000;
+
+// Short artificial delay so loading states are visible in demos
+const DEMO_LATENCY_MS = 300;
+
+// Simulated latency that rejects like a real request when aborted
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(new AbortedError());
+  }, { once: true });
+});
+
+// Stable 32-bit hash, so the same input always produces the same output
+function hashString(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash) + text.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+// ============================================
+// TTS (local tone generator)
+// ============================================
+
+// Base pitch for each demo voice
+const VOICE_BASE_FREQUENCY: Record<string, number> = {
+  low: 160,
+  mid: 220,
+  high: 300,
+};
+
+/**
+ * Synthesize a sequence of tones (one per word) as 16-bit PCM WAV
+ */
+function synthesizeTones(text: string, baseFrequency: number): ArrayBuffer {
+  const words: string[] = text.match(/[a-zA-Z0-9'’-]+/g) || [];
+  const gapSamples = Math.round(SAMPLE_RATE * 0.08);
+  const segments = words.slice(0, 60).map(word => {
+    const durationSamples = Math.round(SAMPLE_RATE * Math.min(0.12 + word.length * 0.03, 0.5));
+    const frequency = baseFrequency * (1 + (hashString(word.toLowerCase()) % 8) / 12);
+    return { durationSamples, frequency };
+  });
+
+  const totalSamples = Math.max(
+    segments.reduce((sum, seg) => sum + seg.durationSamples + gapSamples, 0),
+    gapSamples
+  );
+  const pcm = new Int16Array(totalSamples);
+
+  let offset = 0;
+  for (const { durationSamples, frequency } of segments) {
+    for (let i = 0; i < durationSamples; i++) {
+      // Short linear fade in/out to avoid clicks
+      const envelope = Math.min(1, i / 200, (durationSamples - i) / 200);
+      const sample = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3;
+      pcm[offset + i] = Math.round(sample * 32767);
+    }
+    offset += durationSamples + gapSamples;
+  }
+
+  return pcmToWav(pcm.buffer, SAMPLE_RATE);
+}
+
+/**
+ * Generate deterministic demo audio for a text
+ */
+export const fetchTTSAudio = async (text: string, _apiKey: string, voice: string = 'mid', signal?: AbortSignal): Promise<TTSAudioResult> => {
+  await delay(DEMO_LATENCY_MS, signal);
+  const baseFrequency = VOICE_BASE_FREQUENCY[voice] ?? VOICE_BASE_FREQUENCY.mid;
+  return { data: synthesizeTones(text, baseFrequency), mimeType: 'audio/wav' };
+};
+
+// ============================================
+// Annotation
+// ============================================
+
+const DEMO_DEFINITION_LABEL: Record<Language, string> = {
+  zh: '示例释义',
+  ja: 'サンプル定義',
+  vi: 'Nghĩa mẫu',
+};
+
+const DEMO_ANALYSIS: Record<Language, string> = {
+  zh: '离线演示模式，无真实辨析。',
+  ja: 'オフラインデモモードのため、実際の分析はありません。',
+  vi: 'Chế độ demo ngoại tuyến, không có phân tích thực.',
+};
+
+const PREFIXES: [string, string][] = [
+  ['un', 'not'],
+  ['re', 'again'],
+  ['pre', 'before'],
+  ['dis', 'opposite of'],
+];
+
+const SUFFIXES: [string, string][] = [
+  ['tion', 'noun suffix'],
+  ['ment', 'noun suffix'],
+  ['ness', 'noun suffix'],
+  ['able', 'adjective suffix'],
+  ['ing', 'present participle'],
+  ['ed', 'past tense'],
+  ['ly', 'adverb suffix'],
+];
+
+// Rough syllable split: break before each consonant that starts a new vowel group
+function splitSyllables(word: string): string {
+  const parts = word.toLowerCase().match(/[^aeiouy]*[aeiouy]+(?:[^aeiouy]*$|[^aeiouy](?=[^aeiouy]))?/g);
+  return parts && parts.join('').length === word.length ? parts.join('-') : word.toLowerCase();
+}
+
+function describeAffixes(word: string): string {
+  const lower = word.toLowerCase();
+  const found: string[] = [];
+  const prefix = PREFIXES.find(([p]) => lower.startsWith(p) && lower.length > p.length + 3);
+  if (prefix) found.push(`${prefix[0]}- (${prefix[1]})`);
+  const suffix = SUFFIXES.find(([s]) => lower.endsWith(s) && lower.length > s.length + 2);
+  if (suffix) found.push(`-${suffix[0]} (${suffix[1]})`);
+  return found.join(', ');
+}
+
+/**
+ * Build a deterministic demo annotation for a word
+ */
+export const fetchWordAnnotation = async (
+  word: string,
+  contextSentence: string,
+  _apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<Annotation> => {
+  await delay(DEMO_LATENCY_MS, signal);
+  const lower = word.toLowerCase();
+
+  return {
+    ipa: `/${lower}/`,
+    definition: `${DEMO_DEFINITION_LABEL[language]}: ${lower}`,
+    definitionEn: `Demo definition of "${lower}" (offline mode).`,
+    syllables: splitSyllables(lower),
+    roots: '',
+    affixes: describeAffixes(lower),
+    synonyms: [],
+    synonymAnalysis: DEMO_ANALYSIS[language],
+    antonyms: [],
+    associations: [],
+    phrases: contextSentence.trim() ? [`${lower} (demo)`] : [],
+  };
+};
+
+/**
+ * Build demo annotations for several words (one simulated round trip)
+ */
+export const fetchBatchAnnotations = async (
+  words: string[],
+  passage: string,
+  _apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<Record<string, Annotation>> => {
+  const entries = await Promise.all(
+    words.map(async word => [word.toLowerCase(), await fetchWordAnnotation(word, passage, '', language, signal)] as const)
+  );
+  return Object.fromEntries(entries);
+};
+
+// ============================================
+// Pronunciation
+// ============================================
+
+const DEMO_FEEDBACK: Record<Language, string> = {
+  zh: '离线演示反馈：整体朗读流畅，请注意标出的单词。',
+  ja: 'オフラインデモのフィードバック：全体的に流暢です。マークされた単語に注意してください。',
+  vi: 'Phản hồi demo ngoại tuyến: đọc khá trôi chảy, hãy chú ý các từ được đánh dấu.',
+};
+
+const DEMO_ISSUE: Record<Language, string> = {
+  zh: '重音位置（演示）',
+  ja: 'アクセントの位置（デモ）',
+  vi: 'Vị trí trọng âm (demo)',
+};
+
+/**
+ * Produce fixed demo pronunciation feedback (score depends only on the text)
+ */
+export const analyzePronunciation = async (
+  _audioBlob: Blob,
+  originalText: string,
+  _apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<PronunciationFeedback> => {
+  await delay(DEMO_LATENCY_MS, signal);
+
+  const score = 70 + (hashString(originalText.trim()) % 26);
+  const words: string[] = originalText.match(/[a-zA-Z0-9'’-]+/g) || [];
+  const longest = words.reduce((best, w) => (w.length > best.length ? w : best), '');
+
+  const errors: WordError[] = score < 90 && longest
+    ? [{ word: longest, issue: DEMO_ISSUE[language] }]
+    : [];
+
+  return {
+    id: `feedback-${Date.now()}`,
+    sentence: originalText,
+    timestamp: new Date(),
+    score,
+    feedback: DEMO_FEEDBACK[language],
+    errors
+  };
+};
+
+// ============================================
+// Sentence grading
+// ============================================
+
+const DEMO_SENTENCE_FEEDBACK: Record<Language, { used: string; missing: string; capital: string; period: string }> = {
+  zh: {
+    used: '离线演示评分：句子使用了目标单词。',
+    missing: '离线演示评分：句子中没有使用目标单词。',
+    capital: '句子应以大写字母开头（演示）',
+    period: '句子应以标点结尾（演示）',
+  },
+  ja: {
+    used: 'オフラインデモの採点：目標の単語が使われています。',
+    missing: 'オフラインデモの採点：目標の単語が使われていません。',
+    capital: '文は大文字で始めます（デモ）',
+    period: '文は句読点で終えます（デモ）',
+  },
+  vi: {
+    used: 'Chấm điểm demo ngoại tuyến: câu có dùng từ cần luyện.',
+    missing: 'Chấm điểm demo ngoại tuyến: câu chưa dùng từ cần luyện.',
+    capital: 'Câu nên bắt đầu bằng chữ hoa (demo)',
+    period: 'Câu nên kết thúc bằng dấu câu (demo)',
+  },
+};
+
+/**
+ * Grade a sentence offline: checks only that the word is used and the sentence is capitalized and punctuated
+ */
+export const gradeSentence = async (
+  word: string,
+  _sense: string,
+  sentence: string,
+  _apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<SentenceFeedback> => {
+  await delay(DEMO_LATENCY_MS, signal);
+
+  const text = DEMO_SENTENCE_FEEDBACK[language];
+  const trimmed = sentence.trim();
+  const words: string[] = trimmed.match(/[a-zA-Z0-9'’-]+/g) || [];
+  const usesWord = words.some(w => lemmatize(w.toLowerCase()) === lemmatize(word.toLowerCase()));
+
+  let corrected = trimmed;
+  const corrections: SentenceCorrection[] = [];
+  if (/^[a-z]/.test(corrected)) {
+    const firstWord = words[0];
+    corrections.push({ original: firstWord, corrected: firstWord[0].toUpperCase() + firstWord.slice(1), explanation: text.capital });
+    corrected = corrected[0].toUpperCase() + corrected.slice(1);
+  }
+  if (corrected && !/[.!?]$/.test(corrected)) {
+    const lastWord = words[words.length - 1] ?? corrected;
+    corrections.push({ original: lastWord, corrected: `${lastWord}.`, explanation: text.period });
+    corrected += '.';
+  }
+
+  return {
+    correctness: usesWord ? 100 - corrections.length * 10 : 40,
+    naturalness: 70 + (hashString(trimmed) % 26),
+    senseMatches: usesWord,
+    correctedSentence: corrected,
+    corrections,
+    explanation: usesWord ? text.used : text.missing,
+  };
+};
+
+// ============================================
+// Text generation
+// ============================================
+
+const DEMO_TEXT = `This is a demo text generated offline. The river flows past the old mill every morning. Children walk along the bank on their way to school. Nobody needs an API key to read, listen or practice with it.`;
+
+export const generateText = async (_prompt: string, _apiKey: string, signal?: AbortSignal): Promise<string> => {
+  await delay(DEMO_LATENCY_MS, signal);
+  return DEMO_TEXT;
+};
+
+// ============================================
+// Provider definition
+// ============================================
+
+export const DEMO_VOICES: VoiceOption[] = [
+  { id: 'low', name: 'Low tone' },
+  { id: 'mid', name: 'Mid tone' },
+  { id: 'high', name: 'High tone' },
+];
+
+export const demoProvider: LLMProviderDefinition = {
+  id: 'demo',
+  name: 'Demo (offline)',
+  vendor: 'Demo',
+  capabilities: ['tts', 'annotation', 'pronunciation', 'textGeneration'],
+  voices: DEMO_VOICES,
+  defaultVoice: 'mid',
+  keyMode: 'none',
+  fetchTTSAudio,
+  fetchWordAnnotation,
+  fetchBatchAnnotations,
+  analyzePronunciation,
+  gradeSentence,
+  generateText,
+};
@@ -0,0 +1,119 @@
+import { DictationResult } from '../types';
+import { isNearMiss } from './spacedRepetition';
+import { dictationItem, hashText, readItem, writeItem } from './storage';
+
+// Dictation: the learner types a sentence they heard. The answer is compared word by word
+// (case and punctuation ignored) and each sentence's results are saved, keyed by its hash.
+
+// Same word pattern the reader uses to split a text into tokens
+const WORD_PATTERN = /[a-zA-Z0-9'’-]+/g;
+
+// Sentences whose results are kept (least recently practiced are dropped)
+const MAX_RESULTS = 500;
+
+// Alignment costs: a typo is cheaper than a different word, which is cheaper than a
+// missing plus an extra word, so typed words line up with the words they replace
+const TYPO_COST = 1;
+const WRONG_WORD_COST = 1.5;
+const GAP_COST = 1;
+
+export type DiffKind = 'correct' | 'misspelled' | 'missing' | 'extra';
+
+export interface DiffToken {
+  kind: DiffKind;
+  expected?: string;   // Word of the sentence (all but 'extra')
+  typed?: string;      // Word typed (all but 'missing')
+}
+
+const splitWords = (text: string): string[] => text.match(WORD_PATTERN) || [];
+
+const normalize = (word: string) => word.toLowerCase().replace(/’/g, "'");
+
+/**
+ * Word-level diff of a typed answer against the sentence
+ */
+export const diffWords = (sentence: string, answer: string): DiffToken[] => {
+  const expected = splitWords(sentence);
+  const typed = splitWords(answer);
+  const n = expected.length;
+  const m = typed.length;
+
+  const substitutionCost = (i: number, j: number): number => {
+    const e = normalize(expected[i]);
+    const t = normalize(typed[j]);
+    if (e === t) return 0;
+    return isNearMiss(t, e) ? TYPO_COST : WRONG_WORD_COST;
+  };
+
+  // cost[i][j]: cheapest alignment of the first i expected and first j typed words
+  const cost = Array.from({ length: n + 1 }, (_, i) =>
+    Array.from({ length: m + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0) * GAP_COST));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1),
+        cost[i - 1][j] + GAP_COST,
+        cost[i][j - 1] + GAP_COST
+      );
+    }
+  }
+
+  // Walk back from the end
+  const diff: DiffToken[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(i - 1, j - 1)) {
+      const kind = substitutionCost(i - 1, j - 1) === 0 ? 'correct' : 'misspelled';
+      diff.push({ kind, expected: expected[i - 1], typed: typed[j - 1] });
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + GAP_COST) {
+      diff.push({ kind: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      diff.push({ kind: 'extra', typed: typed[j - 1] });
+      j--;
+    }
+  }
+  return diff.reverse();
+};
+
+/**
+ * Share of the sentence typed correctly (0-1): every missing, extra or misspelled word counts as an error
+ */
+export const scoreDiff = (diff: DiffToken[]): number => {
+  const expectedCount = diff.filter(token => token.kind !== 'extra').length;
+  if (expectedCount === 0) return 1;
+  const errors = diff.filter(token => token.kind !== 'correct').length;
+  return Math.max(0, 1 - errors / expectedCount);
+};
+
+/**
+ * Saved results of a sentence, if it was dictated before
+ */
+export const getDictationResult = (sentence: string): DictationResult | null =>
+  (readItem(dictationItem) || {})[hashText(sentence)] ?? null;
+
+/**
+ * Save an attempt at a sentence. Returns the sentence's updated results.
+ */
+export const saveDictationResult = (sentence: string, score: number): DictationResult => {
+  const results = readItem(dictationItem) || {};
+  const key = hashText(sentence);
+  const previous = results[key];
+  const result: DictationResult = {
+    sentence: sentence.trim(),
+    attempts: (previous?.attempts ?? 0) + 1,
+    bestScore: Math.max(previous?.bestScore ?? 0, score),
+    lastScore: score,
+    lastAttemptAt: Date.now(),
+  };
+  results[key] = result;
+
+  const kept = Object.entries(results)
+    .sort(([, a], [, b]) => b.lastAttemptAt - a.lastAttemptAt)
+    .slice(0, MAX_RESULTS);
+  writeItem(dictationItem, Object.fromEntries(kept));
+  return result;
+};
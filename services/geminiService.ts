@@ -1,7 +1,22 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { ApiError, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, Schema, Type } from "@google/genai";
 import { Language } from '../i18n/translations';
-import { Annotation, PronunciationFeedback, WordError } from '../types';
+import { Annotation, PronunciationFeedback, SentenceFeedback, TTSAudioResult, VoiceOption, WordError } from '../types';
+import { createTTSCache } from './audioCache';
+import { createAnnotationCache, getKnownSenseInstructions, SensedAnnotation } from './annotationCache';
 import { getTargetLanguageCode } from './i18nService';
+import {
+  ConfigurationError,
+  errorFromStatus,
+  InvalidApiKeyError,
+  LLMError,
+  MalformedResponseError,
+  NetworkError,
+  parseJSONResponse,
+  RateLimitError,
+  SafetyBlockError,
+  withRetry,
+} from './llmErrors';
+import type { LLMProviderDefinition } from './providerRegistry';
 
 // Base64 decode helper for audio data
 function base64ToArrayBuffer(base64: string): ArrayBuffer {
@@ -13,8 +28,69 @@ function base64ToArrayBuffer(base64: string): ArrayBuffer {
   return bytes.buffer;
 }
 
+// Finish reasons that mean the response was withheld by safety filters
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII']);
+
+/**
+ * Map Gemini SDK errors to normalized LLM errors
+ */
+function normalizeGeminiError(error: unknown): unknown {
+  if (error instanceof LLMError) return error;
+
+  if (error instanceof ApiError) {
+    const message = error.message;
+    // Gemini has no Retry-After header; the delay is in the RetryInfo details, e.g. "retryDelay": "31s"
+    const delayMatch = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    const retryAfterMs = delayMatch ? parseFloat(delayMatch[1]) * 1000 : undefined;
+
+    // Invalid keys come back as 400 INVALID_ARGUMENT rather than 401
+    if (/API_KEY_INVALID|API key not valid/i.test(message)) {
+      return new InvalidApiKeyError(message, { status: error.status, cause: error });
+    }
+    if (error.status === 429) {
+      // Daily quotas won't recover within a retry window
+      return new RateLimitError(message, { status: 429, retryAfterMs, quotaExhausted: /PerDay/i.test(message), cause: error });
+    }
+    return errorFromStatus(error.status, message, { retryAfterMs, cause: error });
+  }
+
+  // fetch() rejects with TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message, { cause: error });
+  }
+
+  return error;
+}
+
+// Throw SafetyBlockError if the prompt or the response was blocked
+function assertNotBlocked(response: GenerateContentResponse): void {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+    throw new SafetyBlockError(`Gemini blocked the request: ${blockReason || finishReason}`);
+  }
+}
+
+/**
+ * generateContent with normalized errors, safety checks and automatic retries
+ */
+function generateContent(
+  ai: GoogleGenAI,
+  params: GenerateContentParameters,
+  signal?: AbortSignal
+): Promise<GenerateContentResponse> {
+  return withRetry(async () => {
+    const response = await ai.models.generateContent({
+      ...params,
+      config: { ...params.config, abortSignal: signal }
+    });
+    assertNotBlocked(response);
+    return response;
+  }, { normalizeError: normalizeGeminiError, signal });
+}
+
 // Convert PCM data to WAV format
-function pcmToWav(pcmData: ArrayBuffer, sampleRate: number = 24000, numChannels: number = 1, bitsPerSample: number = 16): ArrayBuffer {
+export function pcmToWav(pcmData: ArrayBuffer, sampleRate: number = 24000, numChannels: number = 1, bitsPerSample: number = 16): ArrayBuffer {
   const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
   const blockAlign = numChannels * (bitsPerSample / 8);
   const dataSize = pcmData.byteLength;
@@ -57,148 +133,23 @@ function writeString(view: DataView, offset: number, str: string): void {
   }
 }
 
-// TTS audio result type
-export interface TTSAudioResult {
-  data: ArrayBuffer;
-  mimeType: string;
-}
-
-// LocalStorage cache entry (stores base64 for persistence)
-interface TTSCacheEntry {
-  base64: string;
-  mimeType: string;
-  timestamp: number;
-}
-
-// LocalStorage key prefix
-const TTS_CACHE_PREFIX = 'vocabflow_tts_';
-const TTS_CACHE_INDEX_KEY = 'vocabflow_tts_index';
-
-// Max cache size (limit to ~20 entries to stay within localStorage limits)
-const MAX_TTS_CACHE_SIZE = 20;
-
-// In-memory cache for fast access during session
-const memoryCache = new Map<string, TTSAudioResult>();
-
-// Generate a cache key from text
-function getCacheKey(text: string): string {
-  // Use a simple hash to create shorter keys
-  let hash = 0;
-  const str = text.trim();
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return TTS_CACHE_PREFIX + Math.abs(hash).toString(36);
-}
-
-// Get cache index (list of cached keys with timestamps)
-function getCacheIndex(): { key: string; text: string; timestamp: number }[] {
-  try {
-    const index = localStorage.getItem(TTS_CACHE_INDEX_KEY);
-    return index ? JSON.parse(index) : [];
-  } catch {
-    return [];
-  }
-}
-
-// Save cache index
-function saveCacheIndex(index: { key: string; text: string; timestamp: number }[]): void {
-  try {
-    localStorage.setItem(TTS_CACHE_INDEX_KEY, JSON.stringify(index));
-  } catch (e) {
-    console.warn("Failed to save TTS cache index:", e);
-  }
-}
-
-// Get cached TTS from localStorage
-function getFromLocalStorage(text: string): TTSAudioResult | null {
-  const cacheKey = getCacheKey(text);
-
-  // Check memory cache first
-  if (memoryCache.has(text.trim())) {
-    return memoryCache.get(text.trim())!;
-  }
-
-  try {
-    const stored = localStorage.getItem(cacheKey);
-    if (!stored) return null;
-
-    const entry: TTSCacheEntry = JSON.parse(stored);
-    const data = base64ToArrayBuffer(entry.base64);
-    const result: TTSAudioResult = { data, mimeType: entry.mimeType };
-
-    // Store in memory cache for faster subsequent access
-    memoryCache.set(text.trim(), result);
-
-    return result;
-  } catch (e) {
-    console.warn("Failed to read TTS from localStorage:", e);
-    return null;
-  }
-}
-
-// Save TTS to localStorage
-function saveToLocalStorage(text: string, result: TTSAudioResult): void {
-  const cacheKey = getCacheKey(text);
-  const textKey = text.trim();
-
-  // Store in memory cache
-  memoryCache.set(textKey, result);
-
-  try {
-    // Convert ArrayBuffer to base64
-    const base64 = arrayBufferToBase64(result.data);
-    const entry: TTSCacheEntry = {
-      base64,
-      mimeType: result.mimeType,
-      timestamp: Date.now()
-    };
-
-    // Update index
-    let index = getCacheIndex();
-
-    // Remove existing entry for this text if present
-    index = index.filter(e => e.text !== textKey);
-
-    // Manage cache size - remove oldest entries if full
-    while (index.length >= MAX_TTS_CACHE_SIZE) {
-      const oldest = index.shift();
-      if (oldest) {
-        localStorage.removeItem(oldest.key);
-        memoryCache.delete(oldest.text);
-      }
-    }
-
-    // Add new entry
-    index.push({ key: cacheKey, text: textKey, timestamp: Date.now() });
-
-    // Save to localStorage
-    localStorage.setItem(cacheKey, JSON.stringify(entry));
-    saveCacheIndex(index);
-
-    console.log("TTS cached to localStorage:", textKey.slice(0, 30) + "...");
-  } catch (e) {
-    console.warn("Failed to save TTS to localStorage (quota exceeded?):", e);
-    // If storage fails, at least we have it in memory
-  }
-}
+// TTS audio cache: in-memory first tier, IndexedDB (shared audio store) second
+const ttsCache = createTTSCache('gemini', { indexKey: 'vocabflow_tts_index' });
 
 /**
- * Fetch TTS audio from Gemini API with caching (persisted to localStorage)
+ * Fetch TTS audio from Gemini API with caching (persisted to IndexedDB)
  * Returns audio data with mimeType
  */
-export const fetchTTSAudio = async (text: string, apiKey: string, voice: string = 'Puck'): Promise<TTSAudioResult> => {
+export const fetchTTSAudio = async (text: string, apiKey: string, voice: string = 'Puck', signal?: AbortSignal): Promise<TTSAudioResult> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
   // Include voice in cache key
   const cacheKey = `${text}_${voice}`;
   
-  // Check cache first (memory + localStorage)
-  const cached = getFromLocalStorage(cacheKey);
+  // Check cache first (memory + IndexedDB)
+  const cached = await ttsCache.get(cacheKey);
   if (cached) {
     console.log("TTS cache hit:", text.trim().slice(0, 30) + "...");
     return cached;
@@ -207,7 +158,7 @@ export const fetchTTSAudio = async (text: string, apiKey: string, voice: string
   const ai = new GoogleGenAI({ apiKey });
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await generateContent(ai, {
       model: 'gemini-2.5-flash-preview-tts',
       contents: text,
       config: {
@@ -220,7 +171,7 @@ export const fetchTTSAudio = async (text: string, apiKey: string, voice: string
           }
         }
       }
-    });
+    }, signal);
 
     // Extract audio data from response
     const part = response.candidates?.[0]?.content?.parts?.[0];
@@ -249,187 +200,209 @@ export const fetchTTSAudio = async (text: string, apiKey: string, voice: string
 
       const result: TTSAudioResult = { data: audioData, mimeType: outputMimeType };
 
-      // Store in cache with voice-specific key (memory + localStorage)
-      saveToLocalStorage(cacheKey, result);
+      // Store in cache with voice-specific key (persisting to IndexedDB continues in the background)
+      ttsCache.set(cacheKey, result);
 
       return result;
     }
 
-    throw new Error("No audio data in response");
+    throw new MalformedResponseError("No audio data in response");
   } catch (error) {
-    console.error("Error fetching TTS audio:", error);
-    throw error;
+    const normalized = normalizeGeminiError(error);
+    console.error("Error fetching TTS audio:", normalized);
+    throw normalized;
   }
 };
 
 /**
- * Clear the TTS cache (both memory and localStorage)
+ * Clear the TTS cache (both memory and IndexedDB)
  */
 export const clearTTSCache = () => {
-  // Clear memory cache
-  memoryCache.clear();
-
-  // Clear localStorage cache
-  const index = getCacheIndex();
-  for (const entry of index) {
-    localStorage.removeItem(entry.key);
-  }
-  localStorage.removeItem(TTS_CACHE_INDEX_KEY);
-
-  console.log("TTS cache cleared (memory + localStorage)");
+  ttsCache.clear().then(() => console.log("TTS cache cleared (memory + IndexedDB)"));
 };
 
 // ============================================
 // Word Annotation Cache (localStorage)
 // ============================================
 
-const ANNOTATION_CACHE_PREFIX = 'vocabflow_annotation_';
-const ANNOTATION_CACHE_INDEX_KEY = 'vocabflow_annotation_index';
 const MAX_ANNOTATION_CACHE_SIZE = 500; // Can store many more annotations than audio
 
-// In-memory cache for fast access during session
-const annotationMemoryCache = new Map<string, Annotation>();
+// Keyed by word + language, with several senses per word
+const annotationCache = createAnnotationCache('vocabflow_annotation_v2_', MAX_ANNOTATION_CACHE_SIZE, {
+  indexKey: 'vocabflow_annotation_index'
+});
 
-// Get annotation cache key (word in lowercase)
-function getAnnotationCacheKey(word: string): string {
-  return ANNOTATION_CACHE_PREFIX + word.toLowerCase().trim();
-}
+/**
+ * Clear the annotation cache (both memory and localStorage)
+ */
+export const clearAnnotationCache = () => {
+  annotationCache.clear();
+  console.log("Annotation cache cleared");
+};
 
-// Get annotation cache index
-function getAnnotationCacheIndex(): { key: string; word: string; timestamp: number }[] {
-  try {
-    const index = localStorage.getItem(ANNOTATION_CACHE_INDEX_KEY);
-    return index ? JSON.parse(index) : [];
-  } catch {
-    return [];
-  }
-}
+/**
+ * Known senses of a word in the cache (for the tooltip's sense switcher)
+ */
+export const getKnownSenses = (word: string, language: Language): Annotation[] => {
+  return annotationCache.getSenses(word, language).map(sense => sense.annotation);
+};
 
-// Save annotation cache index
-function saveAnnotationCacheIndex(index: { key: string; word: string; timestamp: number }[]): void {
-  try {
-    localStorage.setItem(ANNOTATION_CACHE_INDEX_KEY, JSON.stringify(index));
-  } catch (e) {
-    console.warn("Failed to save annotation cache index:", e);
-  }
+/**
+ * Record the sense the user picked for a word in a context
+ */
+export const chooseSense = (word: string, language: Language, senseIndex: number, contextSentence: string): void => {
+  annotationCache.recordContext(word, language, senseIndex, contextSentence);
+};
+
+// Annotation fields requested from the model (shared by single and batch lookups)
+function getAnnotationInstructions(targetLang: string): string {
+  return `Provide comprehensive information:
+1. IPA phonetic transcription (British or American)
+2. Concise definition in ${targetLang} (max 10 chars) for this context - translate to ${targetLang}
+3. English dictionary definition (concise, 1 sentence in English)
+4. Syllable breakdown (e.g., "hel-lo", "com-mu-ni-ca-tion")
+5. Word roots in English with explanations (e.g., "dict (say, speak)")
+6. Affixes in English with explanations (e.g., "pre- (before), -ion (noun suffix)")
+7. 2-4 synonyms in ENGLISH words (e.g., "happy, joyful, cheerful")
+8. Synonym analysis in ${targetLang} (brief explanation of differences between synonyms in ${targetLang})
+9. Antonyms in ENGLISH words (optional, if clear antonyms exist)
+10. Associated words in ENGLISH (optional, thematically related English words)
+11. Common phrases in English (optional, 2-3 common collocations or phrases)
+
+IMPORTANT: Field 2 (definition) and field 8 (synonym analysis) should be in ${targetLang}. All other fields must be in English.
+Return complete JSON. Use empty string "" for missing text fields, empty array [] for missing list fields.`;
 }
 
-// Get cached annotation from localStorage
-function getAnnotationFromCache(word: string): Annotation | null {
-  const wordKey = word.toLowerCase().trim();
-  const cacheKey = getAnnotationCacheKey(word);
+// Response schema for one Annotation plus the matched known sense
+const ANNOTATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ipa: { type: Type.STRING, description: "IPA phonetic transcription" },
+    definition: { type: Type.STRING, description: "Concise Chinese definition" },
+    definitionEn: { type: Type.STRING, description: "English dictionary definition" },
+    syllables: { type: Type.STRING, description: "Syllable breakdown" },
+    roots: { type: Type.STRING, description: "Word roots" },
+    affixes: { type: Type.STRING, description: "Prefixes and suffixes" },
+    synonyms: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "List of synonyms" 
+    },
+    synonymAnalysis: { type: Type.STRING, description: "Synonym analysis in Chinese" },
+    antonyms: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "List of antonyms" 
+    },
+    associations: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "Associated words for memory" 
+    },
+    phrases: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "Common phrases or collocations" 
+    },
+    knownSense: { type: Type.INTEGER, description: "Number of the matching known sense, or -1" },
+  },
+  required: ["ipa", "definition", "definitionEn", "syllables", "roots", "affixes", "synonyms", "synonymAnalysis", "antonyms", "associations", "phrases", "knownSense"],
+};
 
-  // Check memory cache first
-  if (annotationMemoryCache.has(wordKey)) {
-    return annotationMemoryCache.get(wordKey)!;
+export const fetchWordAnnotation = async (word: string, contextSentence: string, apiKey: string, language: Language = 'zh', signal?: AbortSignal): Promise<Annotation> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
-  try {
-    const stored = localStorage.getItem(cacheKey);
-    if (!stored) return null;
-
-    const annotation: Annotation = JSON.parse(stored);
+  // Check cache first (a known sense that matches this context)
+  const cached = annotationCache.lookup(word, language, contextSentence);
+  if (cached) {
+    console.log("Annotation cache hit:", word);
+    return cached;
+  }
 
-    // Store in memory cache for faster subsequent access
-    annotationMemoryCache.set(wordKey, annotation);
+  // Initialize the client dynamically with the user-provided key
+  const ai = new GoogleGenAI({ apiKey });
 
-    return annotation;
-  } catch (e) {
-    console.warn("Failed to read annotation from localStorage:", e);
-    return null;
-  }
-}
+  try {
+    const targetLang = getTargetLanguageCode(language);
+    const prompt = `Analyze the English word "${word}" in context: "${contextSentence}".
 
-// Save annotation to localStorage
-function saveAnnotationToCache(word: string, annotation: Annotation): void {
-  const wordKey = word.toLowerCase().trim();
-  const cacheKey = getAnnotationCacheKey(word);
+${getAnnotationInstructions(targetLang)}
 
-  // Store in memory cache
-  annotationMemoryCache.set(wordKey, annotation);
+${getKnownSenseInstructions(annotationCache.getSenses(word, language))}`;
 
-  try {
-    // Update index
-    let index = getAnnotationCacheIndex();
-
-    // Remove existing entry for this word if present
-    index = index.filter(e => e.word !== wordKey);
-
-    // Manage cache size - remove oldest entries if full
-    while (index.length >= MAX_ANNOTATION_CACHE_SIZE) {
-      const oldest = index.shift();
-      if (oldest) {
-        localStorage.removeItem(oldest.key);
-        annotationMemoryCache.delete(oldest.word);
+    const response = await generateContent(ai, {
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: ANNOTATION_SCHEMA
       }
-    }
+    }, signal);
 
-    // Add new entry
-    index.push({ key: cacheKey, word: wordKey, timestamp: Date.now() });
+    const result = parseJSONResponse<SensedAnnotation>(response.text);
 
-    // Save to localStorage
-    localStorage.setItem(cacheKey, JSON.stringify(annotation));
-    saveAnnotationCacheIndex(index);
+    // Save to cache (returns the cached sense if the model matched a known one)
+    return annotationCache.store(word, language, contextSentence, result);
 
-    console.log("Annotation cached:", wordKey);
-  } catch (e) {
-    console.warn("Failed to save annotation to localStorage:", e);
+  } catch (error) {
+    const normalized = normalizeGeminiError(error);
+    console.error("Error fetching annotation:", normalized);
+    throw normalized;
   }
+};
+
+// Known senses of each batch word, so the model can say which one the passage uses
+function getBatchKnownSenseInstructions(words: string[], language: Language): string {
+  return words
+    .map(word => `For "${word}": ${getKnownSenseInstructions(annotationCache.getSenses(word, language))}`)
+    .join('\n');
 }
 
 /**
- * Clear the annotation cache (both memory and localStorage)
+ * Annotate several words of one passage in a single request.
+ * Cached words are not requested again. Returns annotations keyed by lowercase word;
+ * words the model skipped are left out.
  */
-export const clearAnnotationCache = () => {
-  annotationMemoryCache.clear();
-
-  const index = getAnnotationCacheIndex();
-  for (const entry of index) {
-    localStorage.removeItem(entry.key);
-  }
-  localStorage.removeItem(ANNOTATION_CACHE_INDEX_KEY);
-
-  console.log("Annotation cache cleared");
-};
-
-export const fetchWordAnnotation = async (word: string, contextSentence: string, apiKey: string, language: Language = 'zh'): Promise<Annotation> => {
+export const fetchBatchAnnotations = async (
+  words: string[],
+  passage: string,
+  apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<Record<string, Annotation>> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
-  // Check cache first
-  const cached = getAnnotationFromCache(word);
-  if (cached) {
-    console.log("Annotation cache hit:", word);
-    return cached;
+  const results: Record<string, Annotation> = {};
+  const missing: string[] = [];
+  for (const word of words) {
+    const cached = annotationCache.lookup(word, language, passage);
+    if (cached) {
+      results[word.toLowerCase()] = cached;
+    } else {
+      missing.push(word);
+    }
   }
+  if (missing.length === 0) return results;
 
-  // Initialize the client dynamically with the user-provided key
   const ai = new GoogleGenAI({ apiKey });
 
   try {
     const targetLang = getTargetLanguageCode(language);
-    const prompt = `
-      Analyze the English word "${word}" in context: "${contextSentence}".
-
-      Provide comprehensive information:
-      1. IPA phonetic transcription (British or American)
-      2. Concise definition in ${targetLang} (max 10 chars) for this context - translate to ${targetLang}
-      3. English dictionary definition (concise, 1 sentence in English)
-      4. Syllable breakdown (e.g., "hel-lo", "com-mu-ni-ca-tion")
-      5. Word roots in English with explanations (e.g., "dict (say, speak)")
-      6. Affixes in English with explanations (e.g., "pre- (before), -ion (noun suffix)")
-      7. 2-4 synonyms in ENGLISH words (e.g., "happy, joyful, cheerful")
-      8. Synonym analysis in ${targetLang} (brief explanation of differences between synonyms in ${targetLang})
-      9. Antonyms in ENGLISH words (optional, if clear antonyms exist)
-      10. Associated words in ENGLISH (optional, thematically related English words)
-      11. Common phrases in English (optional, 2-3 common collocations or phrases)
-
-      IMPORTANT: Field 2 (definition) and field 8 (synonym analysis) should be in ${targetLang}. All other fields must be in English.
-      Return complete JSON. Use empty string "" for missing text fields, empty array [] for missing list fields.
-    `;
+    const prompt = `Read this passage:
+"${passage}"
 
-    const response = await ai.models.generateContent({
+Analyze each of these English words as used in the passage: ${missing.map(w => `"${w}"`).join(', ')}.
+
+For each word:
+${getAnnotationInstructions(targetLang)}
+${getBatchKnownSenseInstructions(missing, language)}
+Return one entry per word in "annotations", with "word" set exactly as given.`;
+
+    const response = await generateContent(ai, {
       model: 'gemini-2.5-flash',
       contents: prompt,
       config: {
@@ -437,54 +410,38 @@ export const fetchWordAnnotation = async (word: string, contextSentence: string,
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            ipa: { type: Type.STRING, description: "IPA phonetic transcription" },
-            definition: { type: Type.STRING, description: "Concise Chinese definition" },
-            definitionEn: { type: Type.STRING, description: "English dictionary definition" },
-            syllables: { type: Type.STRING, description: "Syllable breakdown" },
-            roots: { type: Type.STRING, description: "Word roots" },
-            affixes: { type: Type.STRING, description: "Prefixes and suffixes" },
-            synonyms: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "List of synonyms" 
-            },
-            synonymAnalysis: { type: Type.STRING, description: "Synonym analysis in Chinese" },
-            antonyms: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "List of antonyms" 
-            },
-            associations: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Associated words for memory" 
-            },
-            phrases: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Common phrases or collocations" 
-            },
+            annotations: {
+              type: Type.ARRAY,
+              items: {
+                ...ANNOTATION_SCHEMA,
+                properties: {
+                  word: { type: Type.STRING, description: "The word exactly as given" },
+                  ...ANNOTATION_SCHEMA.properties
+                },
+                required: ["word", ...(ANNOTATION_SCHEMA.required || [])]
+              }
+            }
           },
-          required: ["ipa", "definition", "definitionEn", "syllables", "roots", "affixes", "synonyms", "synonymAnalysis", "antonyms", "associations", "phrases"],
+          required: ["annotations"]
         }
       }
-    });
-
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("No response from AI");
-    }
+    }, signal);
 
-    const annotation = JSON.parse(jsonText) as Annotation;
+    const { annotations } = parseJSONResponse<{ annotations: (SensedAnnotation & { word: string })[] }>(response.text);
 
-    // Save to cache
-    saveAnnotationToCache(word, annotation);
+    for (const { word, ...annotation } of annotations || []) {
+      // Ignore words the model added on its own
+      const requested = missing.find(w => w.toLowerCase() === word.toLowerCase().trim());
+      if (!requested) continue;
+      results[requested.toLowerCase()] = annotationCache.store(requested, language, passage, annotation);
+    }
 
-    return annotation;
+    return results;
 
   } catch (error) {
-    console.error("Error fetching annotation:", error);
-    throw error;
+    const normalized = normalizeGeminiError(error);
+    console.error("Error fetching batch annotations:", normalized);
+    throw normalized;
   }
 };
 
@@ -506,10 +463,11 @@ export const analyzePronunciation = async (
   audioBlob: Blob,
   originalText: string,
   apiKey: string,
-  language: Language = 'zh'
+  language: Language = 'zh',
+  signal?: AbortSignal
 ): Promise<PronunciationFeedback> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -534,7 +492,7 @@ Analyze the pronunciation and provide feedback in JSON format with:
 Be encouraging but honest. If the pronunciation is good, return an empty errors array.
 Focus on significant errors that affect comprehension.`;
 
-    const response = await ai.models.generateContent({
+    const response = await generateContent(ai, {
       model: 'gemini-2.5-flash',
       contents: [
         {
@@ -572,14 +530,9 @@ Focus on significant errors that affect comprehension.`;
           required: ["score", "feedback", "errors"]
         }
       }
-    });
+    }, signal);
 
-    const jsonText = response.text;
-    if (!jsonText) {
-      throw new Error("No response from AI");
-    }
-
-    const result = JSON.parse(jsonText) as { score: number; feedback: string; errors: WordError[] };
+    const result = parseJSONResponse<{ score: number; feedback: string; errors: WordError[] }>(response.text);
 
     return {
       id: `feedback-${Date.now()}`,
@@ -591,7 +544,147 @@ Focus on significant errors that affect comprehension.`;
     };
 
   } catch (error) {
-    console.error("Error analyzing pronunciation:", error);
-    throw error;
+    const normalized = normalizeGeminiError(error);
+    console.error("Error analyzing pronunciation:", normalized);
+    throw normalized;
+  }
+};
+
+/**
+ * Grade a sentence the student wrote with a vocabulary word: correctness, naturalness,
+ * whether the word is used in the given sense, and corrections
+ */
+export const gradeSentence = async (
+  word: string,
+  sense: string,
+  sentence: string,
+  apiKey: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<SentenceFeedback> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
-};
\ No newline at end of file
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  try {
+    const targetLang = getTargetLanguageCode(language);
+    const prompt = `You are an English writing tutor. A student learning the word "${word}" (meaning: ${sense}) wrote this sentence to practice it:
+
+"${sentence}"
+
+Grade the sentence and provide feedback in JSON format with:
+1. correctness: A number from 0-100 rating grammar, spelling and word usage
+2. naturalness: A number from 0-100 rating how natural the sentence sounds to a native speaker
+3. senseMatches: true if "${word}" (in any form) is used with the meaning given above
+4. correctedSentence: The sentence with every error fixed and made natural (unchanged if it needs no changes)
+5. corrections: An array of changes, each with:
+   - original: the part of the student's sentence that was changed (must match the sentence exactly)
+   - corrected: the replacement
+   - explanation: why, in ${targetLang}
+6. explanation: A brief overall comment in ${targetLang} (1-2 sentences), saying whether the word was used in the right sense
+
+Be encouraging but honest. If the sentence doesn't use the word at all, set senseMatches to false and say so.`;
+
+    const response = await generateContent(ai, {
+      model: 'gemini-2.5-flash',
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            correctness: { type: Type.NUMBER, description: "Grammar and usage score 0-100" },
+            naturalness: { type: Type.NUMBER, description: "Naturalness score 0-100" },
+            senseMatches: { type: Type.BOOLEAN, description: "Whether the word is used in the given sense" },
+            correctedSentence: { type: Type.STRING, description: "The corrected sentence" },
+            corrections: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING, description: "Part of the student's sentence" },
+                  corrected: { type: Type.STRING, description: "Replacement" },
+                  explanation: { type: Type.STRING, description: "Why, in the target language" }
+                },
+                required: ["original", "corrected", "explanation"]
+              }
+            },
+            explanation: { type: Type.STRING, description: "Overall comment in the target language" }
+          },
+          required: ["correctness", "naturalness", "senseMatches", "correctedSentence", "corrections", "explanation"]
+        }
+      }
+    }, signal);
+
+    return parseJSONResponse<SentenceFeedback>(response.text);
+  } catch (error) {
+    const normalized = normalizeGeminiError(error);
+    console.error("Error grading sentence:", normalized);
+    throw normalized;
+  }
+};
+
+/**
+ * Generate free-form text (e.g. practice passages) with Gemini
+ */
+export const generateText = async (prompt: string, apiKey: string, signal?: AbortSignal): Promise<string> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  try {
+    const response = await generateContent(ai, {
+      model: 'gemini-2.5-flash',
+      contents: prompt
+    }, signal);
+
+    const text = response.text;
+    if (!text) {
+      throw new MalformedResponseError("Empty response from AI");
+    }
+    return text.trim();
+  } catch (error) {
+    const normalized = normalizeGeminiError(error);
+    console.error("Error generating text:", normalized);
+    throw normalized;
+  }
+};
+
+// ============================================
+// Provider definition
+// ============================================
+
+export const GEMINI_VOICES: VoiceOption[] = [
+  { id: 'Puck', name: 'Puck' },
+  { id: 'Charon', name: 'Charon' },
+  { id: 'Kore', name: 'Kore' },
+  { id: 'Fenrir', name: 'Fenrir' },
+  { id: 'Aoede', name: 'Aoede' },
+];
+
+export const geminiProvider: LLMProviderDefinition = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  vendor: 'Google',
+  capabilities: ['tts', 'annotation', 'pronunciation', 'textGeneration'],
+  voices: GEMINI_VOICES,
+  defaultVoice: 'Puck',
+  keyMode: 'required',
+  keyPlaceholder: 'AIzaSy...',
+  keyUrl: 'https://aistudio.google.com/app/apikey',
+  keyUrlLabel: 'Google AI Studio',
+  fetchTTSAudio,
+  fetchWordAnnotation,
+  fetchBatchAnnotations,
+  getKnownSenses,
+  chooseSense,
+  analyzePronunciation,
+  gradeSentence,
+  generateText,
+  clearTTSCache,
+  clearAnnotationCache,
+};
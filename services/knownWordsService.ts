@@ -0,0 +1,85 @@
+import { lemmatize } from './lemmatizer';
+import { knownWordsItem, readItem, writeItem } from './storage';
+
+// Words the learner already knows, stored as lemmas. Filled by marking words in the
+// reader, importing a word list, and automatically when a vocabulary word is mastered.
+// Words that are neither known nor in the vocabulary are highlighted in the reader.
+
+// Same word pattern the reader uses to split a text into tokens
+const WORD_PATTERN = /[a-zA-Z0-9'’-]+/g;
+
+export interface TextCoverage {
+  unknownWords: Set<string>;   // Lemmas neither known nor in the vocabulary
+  coverage: number;            // Share of the text's running words that are known (0-1)
+}
+
+// Numbers and other tokens with digits are neither known nor unknown
+const isCountable = (word: string) => !/\d/.test(word);
+
+// Load all known lemmas
+export function loadKnownWords(): Set<string> {
+  return new Set(readItem(knownWordsItem) || []);
+}
+
+function saveKnownWords(words: Set<string>): void {
+  writeItem(knownWordsItem, [...words]);
+}
+
+// Check if a word (any form) is known
+export function isKnownWord(word: string): boolean {
+  return loadKnownWords().has(lemmatize(word));
+}
+
+// Mark a word (all its forms) as known
+export function markWordKnown(word: string): void {
+  const words = loadKnownWords();
+  words.add(lemmatize(word));
+  saveKnownWords(words);
+}
+
+// Remove a word from the known words
+export function unmarkWordKnown(word: string): void {
+  const words = loadKnownWords();
+  if (words.delete(lemmatize(word))) saveKnownWords(words);
+}
+
+// Mark several words as known. Returns the number of new words.
+export function addKnownWords(list: string[]): number {
+  const words = loadKnownWords();
+  const before = words.size;
+  for (const word of list) {
+    if (isCountable(word)) words.add(lemmatize(word));
+  }
+  if (words.size > before) saveKnownWords(words);
+  return words.size - before;
+}
+
+// Add every word of a pasted or uploaded list (any separators). Returns the number of new words.
+export function importKnownWords(list: string): number {
+  return addKnownWords(list.match(WORD_PATTERN) || []);
+}
+
+// Forget all known words
+export function clearKnownWords(): void {
+  saveKnownWords(new Set());
+}
+
+/**
+ * Unknown words of a text and how much of it the learner knows, given the text's
+ * words, the known lemmas and the vocabulary lemmas
+ */
+export function getTextCoverage(words: string[], known: Set<string>, vocabulary: Set<string>): TextCoverage {
+  const unknownWords = new Set<string>();
+  let total = 0;
+  let covered = 0;
+
+  for (const word of words) {
+    if (!isCountable(word)) continue;
+    const lemma = lemmatize(word);
+    total++;
+    if (known.has(lemma)) covered++;
+    else if (!vocabulary.has(lemma)) unknownWords.add(lemma);
+  }
+
+  return { unknownWords, coverage: total > 0 ? covered / total : 1 };
+}
@@ -0,0 +1,157 @@
+// Offline English lemmatizer: a bundled list of irregular forms plus suffix rules, so
+// inflected forms ("ran", "running", "runs") share one vocabulary entry ("run").
+// It is deliberately conservative: when no rule clearly applies the word is kept as is.
+
+// Irregular forms as "lemma:form,form,..."
+const IRREGULAR_FORMS = [
+  // Verbs
+  'be:am,is,are,was,were,been,being', 'have:has,had,having', 'do:does,did,done,doing',
+  'go:goes,went,gone,going', 'arise:arose,arisen', 'awake:awoke,awoken', 'bear:bore,borne',
+  'beat:beaten', 'become:became', 'begin:began,begun', 'bend:bent',
+  'bite:bit,bitten', 'bleed:bled', 'blow:blew,blown', 'break:broke,broken',
+  'breed:bred', 'bring:brought', 'build:built', 'burn:burnt', 'buy:bought,buying', 'catch:caught',
+  'choose:chose,chosen', 'cling:clung', 'come:came', 'creep:crept', 'deal:dealt', 'dig:dug',
+  'draw:drew,drawn', 'dream:dreamt', 'drink:drank,drunk', 'drive:drove,driven',
+  'eat:ate,eaten,eating', 'fall:fell,fallen', 'feed:fed', 'feel:felt', 'fight:fought', 'find:found',
+  'flee:fled', 'fly:flew,flown,flies,flying', 'forbid:forbade,forbidden', 'forget:forgot,forgotten',
+  'forgive:forgave,forgiven', 'freeze:froze,frozen', 'get:got,gotten', 'give:gave,given',
+  'grow:grew,grown', 'hang:hung', 'hear:heard', 'hide:hid,hidden',
+  'hold:held', 'keep:kept', 'kneel:knelt', 'know:knew,known', 'lay:laid,laying', 'lead:led',
+  'lean:leant', 'leap:leapt', 'learn:learnt', 'lend:lent', 'lie:lain,lying,lied',
+  'light:lit', 'lose:lost', 'make:made', 'mean:meant', 'meet:met', 'mistake:mistook,mistaken',
+  'overcome:overcame', 'pay:paid,paying', 'prove:proven', 'ride:rode,ridden', 'ring:rang,rung',
+  'rise:rose,risen', 'run:ran', 'say:said,saying', 'see:saw,seen,seeing', 'seek:sought', 'sell:sold',
+  'send:sent', 'shake:shook,shaken', 'shine:shone', 'shoot:shot', 'show:shown',
+  'shrink:shrank,shrunk', 'sing:sang,sung', 'sink:sank,sunk', 'sit:sat', 'sleep:slept',
+  'slide:slid', 'speak:spoke,spoken', 'speed:sped', 'spend:spent', 'spin:spun',
+  'spit:spat', 'spring:sprang,sprung', 'stand:stood', 'steal:stole,stolen',
+  'stick:stuck', 'sting:stung', 'stink:stank,stunk', 'strike:struck', 'strive:strove,striven',
+  'swear:swore,sworn', 'sweep:swept', 'swim:swam,swum', 'swing:swung', 'take:took,taken',
+  'teach:taught', 'tear:tore,torn', 'tell:told', 'think:thought', 'throw:threw,thrown',
+  'tread:trod,trodden', 'understand:understood', 'undertake:undertook,undertaken',
+  'wake:woke,woken', 'wear:wore,worn', 'weave:wove,woven', 'weep:wept', 'win:won',
+  'withdraw:withdrew,withdrawn', 'write:wrote,written',
+  'create:created,creating', 'agree:agreed', 'free:freed', 'guarantee:guaranteed', 'decree:decreed',
+  'can:could', 'will:would', 'shall:should', 'may:might',
+  // Stems too short for the suffix rules
+  'use:used,using,uses', 'die:died,dying', 'tie:tied,tying', 'try:tried,tries,trying', 'cry:cried,cries,crying',
+  'dry:dried,dries,drying', 'fry:fried,fries,frying', 'spy:spied,spies,spying', 'sky:skies',
+  'add:added,adding', 'ask:asked,asking', 'act:acted,acting', 'aim:aimed,aiming', 'end:ended,ending',
+  'fix:fixed,fixing', 'mix:mixed,mixing', 'own:owned,owning', 'guide:guided,guiding',
+  // Nouns
+  'man:men', 'woman:women', 'child:children', 'person:people', 'foot:feet', 'tooth:teeth',
+  'goose:geese', 'mouse:mice', 'ox:oxen', 'analysis:analyses',
+  'crisis:crises', 'thesis:theses', 'hypothesis:hypotheses', 'phenomenon:phenomena',
+  'criterion:criteria', 'cactus:cacti', 'fungus:fungi',
+  'nucleus:nuclei', 'stimulus:stimuli', 'appendix:appendices', 'index:indices',
+  'life:lives', 'wife:wives', 'knife:knives', 'wolf:wolves', 'half:halves', 'self:selves',
+  'shelf:shelves', 'thief:thieves', 'leaf:leaves', 'loaf:loaves', 'calf:calves',
+  'hero:heroes', 'potato:potatoes', 'tomato:tomatoes', 'echo:echoes', 'veto:vetoes',
+  // Adjectives and adverbs
+  'good:better,best', 'bad:worse,worst', 'far:further,furthest,farther,farthest',
+];
+
+const EXCEPTIONS = new Map<string, string>();
+for (const line of IRREGULAR_FORMS) {
+  const [lemma, forms] = line.split(':');
+  forms.split(',').forEach(form => EXCEPTIONS.set(form, lemma));
+}
+
+// Words that look inflected but are base forms
+const BASE_FORMS = new Set([
+  'this', 'his', 'hers', 'its', 'ours', 'yours', 'theirs', 'yes', 'us', 'thus', 'plus', 'as',
+  'always', 'perhaps', 'news', 'series', 'species', 'lens', 'whereas', 'towards', 'afterwards',
+  'besides', 'sometimes', 'nowadays', 'means', 'chaos', 'bias', 'canvas', 'atlas', 'alias', 'iris',
+  'bus', 'gas', 'focus', 'bonus', 'virus', 'status', 'campus', 'census', 'circus', 'chorus', 'genius', 'surplus',
+  'nothing', 'something', 'anything', 'everything', 'morning', 'evening', 'during', 'ceiling',
+  'wedding', 'pudding', 'darling', 'lightning', 'awning', 'herring', 'sibling', 'duckling',
+  'hundred', 'sacred', 'naked', 'wicked', 'crooked', 'rugged', 'beloved', 'kindred',
+  'interest', 'honest', 'modest', 'forest', 'harvest', 'contest', 'protest', 'request',
+]);
+
+const VOWEL = /[aeiouy]/;
+
+// Doubled final consonants that are undone when removing -ed/-ing/-est ("stopped" -> "stop")
+const UNDOUBLE = /([bdgmnprt])\1$/;
+
+// Stems that lost a final e: "lov(e)", "argu(e)", "realiz(e)", "relat(e)", "handl(e)", "notic(e)",
+// "refus(e)", "choos(e)", "chang(e)", "judg(e)", "charg(e)", "challeng(e)", "decid(e)", "includ(e)", "breath(e)"
+const SILENT_E = /(v|u|[iy]z|[aeiou]{2}z|[aeiouy]s|[^aeiou]at|[^aeioul]l|c|[dlr]g|eng|(ch|rr)ang|[^aeiou][iu]d|th)$/;
+
+// Number of vowel groups, a rough syllable count
+const vowelGroups = (word: string) => (word.match(/[aeiouy]+/g) || []).length;
+
+// What is left after removing a suffix must look like a word ("bed" is not "b" + "-ed")
+const isStem = (stem: string) => stem.length >= 3 && VOWEL.test(stem);
+
+// Base form of a stem left by removing -ed or -ing, or null to keep the word as is
+function restoreStem(stem: string): string | null {
+  if (!isStem(stem)) return null;
+  if (BASE_FORMS.has(stem)) return stem;
+
+  // "stopp" -> "stop", "runn" -> "run"; -ll after a final stressed or -el syllable:
+  // "controll" -> "control", "travell" -> "travel" (while "call" and "install" keep theirs)
+  if (UNDOUBLE.test(stem) && isStem(stem.slice(0, -1))) return stem.slice(0, -1);
+  if (/[eo]ll$/.test(stem) && vowelGroups(stem) > 1) return stem.slice(0, -1);
+
+  if (SILENT_E.test(stem) && !/(ll|ss)$/.test(stem)) return stem + 'e';
+  // "manag(e)", "damag(e)", "encourag(e)" (one-syllable "-ag" words double: "dragged")
+  if (stem.endsWith('ag') && vowelGroups(stem) > 1) return stem + 'e';
+
+  // One syllable ending in a single vowel and consonant was not doubled, so it had a silent e:
+  // "hop(e)ing" -> "hoping" (while "hop" -> "hopping")
+  if (vowelGroups(stem) === 1 && /(^|[^aeiou])[aeiou][^aeiouwxy]$/.test(stem)) {
+    return stem + 'e';
+  }
+
+  // Too short to tell from a word that merely ends in -ed ("embed" is not "emb" + "-ed")
+  return stem.length >= 4 ? stem : null;
+}
+
+/**
+ * Dictionary form of an English word (lowercase). Unknown or non-alphabetic words are returned lowercased.
+ */
+export const lemmatize = (word: string): string => {
+  let w = word.toLowerCase().trim().replace(/['’]s$/, '').replace(/['’]$/, '');
+  if (!/^[a-z]+$/.test(w)) return w;
+
+  const irregular = EXCEPTIONS.get(w);
+  if (irregular) return irregular;
+  if (w.length <= 3 || BASE_FORMS.has(w)) return w;
+
+  // -ing / -ed
+  if (w.endsWith('ing')) {
+    return restoreStem(w.slice(0, -3)) ?? w;
+  }
+  if (w.endsWith('ied')) return isStem(w.slice(0, -3)) ? w.slice(0, -3) + 'y' : w;
+  if (w.endsWith('eed')) return w;
+  if (w.endsWith('ed')) {
+    return restoreStem(w.slice(0, -2)) ?? w;
+  }
+
+  // Superlatives: "happiest" -> "happy", "biggest" -> "big"
+  if (w.endsWith('iest')) return isStem(w.slice(0, -4)) ? w.slice(0, -4) + 'y' : w;
+  if (w.endsWith('est') && UNDOUBLE.test(w.slice(0, -3)) && isStem(w.slice(0, -4))) return w.slice(0, -4);
+
+  // Plurals and third person -s ("ties" -> "tie" when the -ies rule doesn't apply)
+  if (w.endsWith('ies') && isStem(w.slice(0, -3))) return w.slice(0, -3) + 'y';
+  if (/(ss|sh|ch|x|zz)es$/.test(w) && isStem(w.slice(0, -2))) return w.slice(0, -2);
+  // "buses" -> "bus", "lenses" -> "lens" (but "causes" -> "cause")
+  if (w.endsWith('ses') && BASE_FORMS.has(w.slice(0, -2))) return w.slice(0, -2);
+  if (/(ss|us|is|ics)$/.test(w)) return w;
+  if (w.endsWith('s') && isStem(w.slice(0, -1))) return w.slice(0, -1);
+
+  return w;
+};
+
+/**
+ * Regex matching any of the given word forms as a whole word (case-insensitive).
+ * Group 1 is the preceding character (if any), group 2 the matched form.
+ */
+export const wordFormsPattern = (forms: string[], flags: string = 'gi'): RegExp => {
+  const alternatives = [...forms]
+    .sort((a, b) => b.length - a.length)
+    .map(form => form.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|');
+  return new RegExp(`(^|[^a-zA-Z0-9'’-])(${alternatives})(?=$|[^a-zA-Z0-9'’-])`, flags);
+};
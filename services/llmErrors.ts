@@ -0,0 +1,261 @@
+import { Translations } from '../i18n/translations';
+
+// Normalized error kinds shared by all providers
+export type LLMErrorKind =
+  | 'configuration'      // Key or provider settings missing locally
+  | 'invalidKey'         // Provider rejected the key
+  | 'rateLimit'          // Too many requests, retry later
+  | 'quota'              // Billing quota exhausted, retrying won't help
+  | 'network'            // Connection failed or timed out
+  | 'server'             // Provider-side 5xx
+  | 'malformedResponse'  // Response missing or not valid JSON
+  | 'safetyBlock'        // Content blocked by the provider's safety filters
+  | 'aborted'            // Cancelled by the caller through an AbortSignal
+  | 'unknown';
+
+interface LLMErrorOptions {
+  retryable?: boolean;
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors thrown by provider services
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: LLMErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class ConfigurationError extends LLMError {
+  constructor(message: string) {
+    super('configuration', message);
+    this.name = 'ConfigurationError';
+  }
+}
+
+export class InvalidApiKeyError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('invalidKey', message, options);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+/**
+ * Rate limit (retryable) or exhausted quota (not retryable)
+ */
+export class RateLimitError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions & { quotaExhausted?: boolean } = {}) {
+    super(options.quotaExhausted ? 'quota' : 'rateLimit', message, {
+      ...options,
+      retryable: !options.quotaExhausted,
+    });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class NetworkError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('network', message, { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('server', message, { ...options, retryable: true });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * Model output was empty or not valid JSON
+ */
+export class MalformedResponseError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('malformedResponse', message, options);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class SafetyBlockError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('safetyBlock', message, options);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+/**
+ * Request was cancelled through its AbortSignal. Callers should ignore it rather than show an error.
+ */
+export class AbortedError extends LLMError {
+  constructor(message: string = "Request was aborted") {
+    super('aborted', message);
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ */
+export const isAbortError = (error: unknown): boolean => {
+  if (error instanceof LLMError) return error.kind === 'aborted';
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Map an HTTP status to a normalized error (used by providers without typed SDK errors)
+ */
+export const errorFromStatus = (
+  status: number,
+  message: string,
+  options: LLMErrorOptions & { quotaExhausted?: boolean } = {}
+): LLMError => {
+  const withStatus = { ...options, status };
+  if (status === 401 || status === 403) return new InvalidApiKeyError(message, withStatus);
+  if (status === 429) return new RateLimitError(message, withStatus);
+  if (status === 408) return new NetworkError(message, withStatus);
+  if (status >= 500) return new ServerError(message, withStatus);
+  return new LLMError('unknown', message, withStatus);
+};
+
+/**
+ * Parse JSON model output, throwing MalformedResponseError instead of SyntaxError
+ */
+export const parseJSONResponse = <T>(text: string | null | undefined): T => {
+  if (!text) {
+    throw new MalformedResponseError("Empty response from AI");
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new MalformedResponseError("Response is not valid JSON", { cause: error });
+  }
+};
+
+// ============================================
+// Retry with exponential backoff
+// ============================================
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;   // Waits longer than this are not retried (error is surfaced instead)
+  normalizeError?: (error: unknown) => unknown;  // Provider-specific mapping to LLMError
+  signal?: AbortSignal;  // Stops further attempts and interrupts the backoff wait
+}
+
+const DEFAULT_RETRY_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20000,
+};
+
+// Wait for a delay, rejecting early with AbortedError if the signal fires
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AbortedError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Run an operation, retrying retryable LLMErrors with exponential backoff.
+ * A provider-supplied Retry-After takes precedence over the computed delay.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs, normalizeError, signal } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw new AbortedError();
+    }
+    try {
+      return await operation();
+    } catch (caught) {
+      // SDKs report aborts in different ways; normalize them all
+      if (signal?.aborted) {
+        throw new AbortedError();
+      }
+      const error = normalizeError ? normalizeError(caught) : caught;
+      if (!(error instanceof LLMError) || !error.retryable || attempt >= maxRetries) {
+        throw error;
+      }
+
+      // Jitter keeps parallel requests (e.g. preloading) from retrying in lockstep
+      const backoff = baseDelayMs * 2 ** attempt;
+      const delayMs = error.retryAfterMs ?? Math.round(backoff / 2 + Math.random() * backoff / 2);
+      if (delayMs > maxDelayMs) {
+        throw error;
+      }
+
+      console.warn(`${error.name} (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delayMs}ms:`, error.message);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+// ============================================
+// UI messages
+// ============================================
+
+/**
+ * Localized, actionable message for an error thrown by llmService
+ */
+export const getErrorMessage = (error: unknown, t: Translations): string => {
+  if (!(error instanceof LLMError)) {
+    return t.errors.unknown;
+  }
+  switch (error.kind) {
+    case 'configuration':
+      return t.errors.configuration;
+    case 'invalidKey':
+      return t.errors.invalidKey;
+    case 'rateLimit':
+      return error.retryAfterMs
+        ? t.errors.rateLimitRetryAfter.replace('{seconds}', String(Math.ceil(error.retryAfterMs / 1000)))
+        : t.errors.rateLimit;
+    case 'quota':
+      return t.errors.quota;
+    case 'network':
+      return t.errors.network;
+    case 'server':
+      return t.errors.server;
+    case 'malformedResponse':
+      return t.errors.malformedResponse;
+    case 'safetyBlock':
+      return t.errors.safetyBlock;
+    default:
+      return t.errors.unknown;
+  }
+};
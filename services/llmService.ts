@@ -1,82 +1,155 @@
 import { Language } from '../i18n/translations';
-import { Annotation, LLMProvider, PronunciationFeedback } from '../types';
-import * as geminiService from './geminiService';
-import * as openaiService from './openaiService';
+import { Annotation, LLMProvider, PronunciationFeedback, ProviderCapability, SentenceFeedback, TTSAudioResult } from '../types';
+import { ConfigurationError, MalformedResponseError } from './llmErrors';
+import { getProvider, LLMProviderDefinition, listProviders } from './providerRegistry';
+import { resolveProvider } from './providerSettings';
+import { validateSentenceFeedback } from './storage';
 
 // TTS audio result type (re-export)
-export interface TTSAudioResult {
-  data: ArrayBuffer;
-  mimeType: string;
+export type { TTSAudioResult };
+
+// Resolve the provider routed to a capability and make sure it supports it
+function requireCapability(capability: ProviderCapability): { definition: LLMProviderDefinition; apiKey: string } {
+  const resolved = resolveProvider(capability);
+  if (!resolved.definition.capabilities.includes(capability)) {
+    throw new ConfigurationError(`${resolved.definition.name} does not support ${capability}`);
+  }
+  return resolved;
 }
 
 /**
- * Unified interface for fetching TTS audio from any provider
+ * Fetch TTS audio from the provider configured for TTS.
+ * Every function here accepts an optional AbortSignal; aborted calls reject with AbortedError.
  */
 export const fetchTTSAudio = async (
   text: string,
-  apiKey: string,
-  provider: LLMProvider,
-  voice?: string
+  voice?: string,
+  signal?: AbortSignal
 ): Promise<TTSAudioResult> => {
-  if (provider === 'openai') {
-    return openaiService.fetchTTSAudio(text, apiKey, voice || 'alloy');
-  } else {
-    return geminiService.fetchTTSAudio(text, apiKey, voice || 'Puck');
-  }
+  const { definition, apiKey } = requireCapability('tts');
+  return definition.fetchTTSAudio!(text, apiKey, voice || definition.defaultVoice, signal);
 };
 
 /**
- * Unified interface for fetching word annotations from any provider
+ * Fetch a word annotation from the provider configured for annotations
  */
 export const fetchWordAnnotation = async (
   word: string,
   contextSentence: string,
-  apiKey: string,
-  provider: LLMProvider,
-  language: Language = 'zh'
+  language: Language = 'zh',
+  signal?: AbortSignal
 ): Promise<Annotation> => {
-  if (provider === 'openai') {
-    return openaiService.fetchWordAnnotation(word, contextSentence, apiKey, language);
-  } else {
-    return geminiService.fetchWordAnnotation(word, contextSentence, apiKey, language);
+  const { definition, apiKey } = requireCapability('annotation');
+  return definition.fetchWordAnnotation!(word, contextSentence, apiKey, language, signal);
+};
+
+// Max words per batch request, so responses stay well within output limits
+const MAX_BATCH_SIZE = 10;
+
+/**
+ * Annotate several words of one passage in as few model calls as possible.
+ * Falls back to single lookups for providers without batch support and for
+ * words a batch response skipped. Returns annotations keyed by lowercase word.
+ */
+export const fetchBatchAnnotations = async (
+  words: string[],
+  passage: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<Record<string, Annotation>> => {
+  const { definition, apiKey } = requireCapability('annotation');
+
+  // Deduplicate case-insensitively, keeping the first spelling
+  const uniqueWords = [...new Map(words.map(word => [word.toLowerCase(), word])).values()];
+  const results: Record<string, Annotation> = {};
+
+  if (definition.fetchBatchAnnotations) {
+    for (let i = 0; i < uniqueWords.length; i += MAX_BATCH_SIZE) {
+      const batch = uniqueWords.slice(i, i + MAX_BATCH_SIZE);
+      Object.assign(results, await definition.fetchBatchAnnotations(batch, passage, apiKey, language, signal));
+    }
   }
+
+  const remaining = uniqueWords.filter(word => !results[word.toLowerCase()]);
+  const single = await Promise.all(
+    remaining.map(word => definition.fetchWordAnnotation!(word, passage, apiKey, language, signal))
+  );
+  remaining.forEach((word, i) => {
+    results[word.toLowerCase()] = single[i];
+  });
+
+  return results;
+};
+
+/**
+ * Senses of a word cached by the annotation provider (empty if it keeps none)
+ */
+export const getKnownSenses = (word: string, language: Language = 'zh'): Annotation[] => {
+  const { definition } = resolveProvider('annotation');
+  return definition.getKnownSenses?.(word, language) || [];
 };
 
 /**
- * Unified interface for analyzing pronunciation from any provider
+ * Record the sense the user picked for a word, so the same context resolves to it next time
+ */
+export const chooseSense = (word: string, language: Language, senseIndex: number, contextSentence: string) => {
+  const { definition } = resolveProvider('annotation');
+  definition.chooseSense?.(word, language, senseIndex, contextSentence);
+};
+
+/**
+ * Analyze pronunciation with the provider configured for pronunciation
  */
 export const analyzePronunciation = async (
   audioBlob: Blob,
   originalText: string,
-  apiKey: string,
-  provider: LLMProvider,
-  language: Language = 'zh'
+  language: Language = 'zh',
+  signal?: AbortSignal
 ): Promise<PronunciationFeedback> => {
-  if (provider === 'openai') {
-    return openaiService.analyzePronunciation(audioBlob, originalText, apiKey, language);
-  } else {
-    return geminiService.analyzePronunciation(audioBlob, originalText, apiKey, language);
-  }
+  const { definition, apiKey } = requireCapability('pronunciation');
+  return definition.analyzePronunciation!(audioBlob, originalText, apiKey, language, signal);
 };
 
 /**
- * Clear TTS cache for specified provider
+ * Grade a sentence the learner wrote with a word, used in the given sense (its definition),
+ * with the provider configured for text generation. Explanations are in the given language.
  */
-export const clearTTSCache = (provider: LLMProvider) => {
-  if (provider === 'openai') {
-    openaiService.clearTTSCache();
-  } else {
-    geminiService.clearTTSCache();
+export const gradeSentence = async (
+  word: string,
+  sense: string,
+  sentence: string,
+  language: Language = 'zh',
+  signal?: AbortSignal
+): Promise<SentenceFeedback> => {
+  const { definition, apiKey } = requireCapability('textGeneration');
+  // Model output is checked like stored data: scores in range, missing lists empty
+  const feedback = validateSentenceFeedback(await definition.gradeSentence!(word, sense, sentence, apiKey, language, signal));
+  if (!feedback) {
+    throw new MalformedResponseError("Sentence feedback is missing scores");
   }
+  return feedback;
 };
 
 /**
- * Clear annotation cache for specified provider
+ * Free-form text generation with the provider configured for text generation
  */
-export const clearAnnotationCache = (provider: LLMProvider) => {
-  if (provider === 'openai') {
-    openaiService.clearAnnotationCache();
-  } else {
-    geminiService.clearAnnotationCache();
-  }
+export const generateText = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+  const { definition, apiKey } = requireCapability('textGeneration');
+  return definition.generateText!(prompt, apiKey, signal);
+};
+
+/**
+ * Clear TTS cache for specified provider (or all providers if omitted)
+ */
+export const clearTTSCache = (provider?: LLMProvider) => {
+  const targets = provider ? [getProvider(provider)] : listProviders();
+  targets.forEach(p => p.clearTTSCache?.());
+};
+
+/**
+ * Clear annotation cache for specified provider (or all providers if omitted)
+ */
+export const clearAnnotationCache = (provider?: LLMProvider) => {
+  const targets = provider ? [getProvider(provider)] : listProviders();
+  targets.forEach(p => p.clearAnnotationCache?.());
 };
@@ -0,0 +1,130 @@
+import { Language } from '../i18n/translations';
+import { Annotation, PronunciationFeedback, ProviderCapability, SentenceFeedback, TTSAudioResult } from '../types';
+import { ConfigurationError } from './llmErrors';
+import * as openaiService from './openaiService';
+import type { LLMProviderDefinition } from './providerRegistry';
+import { customProviderSettingsItem, readItem, writeItem } from './storage';
+
+// Most local servers ignore the Authorization header, but the SDK requires a value
+const PLACEHOLDER_API_KEY = 'not-needed';
+
+// Custom endpoint settings (base URL + per-capability model names)
+export interface OpenAICompatibleSettings {
+  baseURL: string;
+  chatModel: string;
+  ttsModel: string;
+  transcriptionModel: string;
+}
+
+const DEFAULT_SETTINGS: OpenAICompatibleSettings = {
+  baseURL: 'http://localhost:11434/v1',
+  chatModel: '',
+  ttsModel: '',
+  transcriptionModel: '',
+};
+
+/**
+ * Load custom endpoint settings
+ */
+export const loadSettings = (): OpenAICompatibleSettings => {
+  return { ...DEFAULT_SETTINGS, ...readItem(customProviderSettingsItem) };
+};
+
+/**
+ * Save custom endpoint settings
+ */
+export const saveSettings = (settings: Partial<OpenAICompatibleSettings>): void => {
+  const merged: OpenAICompatibleSettings = {
+    baseURL: (settings.baseURL ?? DEFAULT_SETTINGS.baseURL).trim().replace(/\/+$/, ''),
+    chatModel: (settings.chatModel ?? '').trim(),
+    ttsModel: (settings.ttsModel ?? '').trim(),
+    transcriptionModel: (settings.transcriptionModel ?? '').trim(),
+  };
+  writeItem(customProviderSettingsItem, { ...merged });
+};
+
+// Capabilities depend on which models are configured
+function getCapabilities(settings: OpenAICompatibleSettings): ProviderCapability[] {
+  const capabilities: ProviderCapability[] = [];
+  if (settings.ttsModel) capabilities.push('tts');
+  if (settings.chatModel) capabilities.push('annotation', 'textGeneration');
+  if (settings.chatModel && settings.transcriptionModel) capabilities.push('pronunciation');
+  return capabilities;
+}
+
+function getClientOptions(): openaiService.OpenAIClientOptions {
+  const settings = loadSettings();
+  if (!settings.baseURL) {
+    throw new ConfigurationError("Custom endpoint base URL is missing. Please configure it in settings.");
+  }
+  return settings;
+}
+
+export const fetchTTSAudio = (text: string, apiKey: string, voice: string, signal?: AbortSignal): Promise<TTSAudioResult> => {
+  return openaiService.fetchTTSAudio(text, apiKey || PLACEHOLDER_API_KEY, voice, getClientOptions(), signal);
+};
+
+export const fetchWordAnnotation = (word: string, contextSentence: string, apiKey: string, language: Language, signal?: AbortSignal): Promise<Annotation> => {
+  return openaiService.fetchWordAnnotation(word, contextSentence, apiKey || PLACEHOLDER_API_KEY, language, getClientOptions(), signal);
+};
+
+export const fetchBatchAnnotations = (words: string[], passage: string, apiKey: string, language: Language, signal?: AbortSignal): Promise<Record<string, Annotation>> => {
+  return openaiService.fetchBatchAnnotations(words, passage, apiKey || PLACEHOLDER_API_KEY, language, getClientOptions(), signal);
+};
+
+// Sense lookups only read the cache, so a missing base URL isn't an error here
+export const getKnownSenses = (word: string, language: Language): Annotation[] => {
+  return openaiService.getKnownSenses(word, language, loadSettings());
+};
+
+export const chooseSense = (word: string, language: Language, senseIndex: number, contextSentence: string): void => {
+  openaiService.chooseSense(word, language, senseIndex, contextSentence, loadSettings());
+};
+
+export const analyzePronunciation = (audioBlob: Blob, originalText: string, apiKey: string, language: Language, signal?: AbortSignal): Promise<PronunciationFeedback> => {
+  return openaiService.analyzePronunciation(audioBlob, originalText, apiKey || PLACEHOLDER_API_KEY, language, getClientOptions(), signal);
+};
+
+export const gradeSentence = (word: string, sense: string, sentence: string, apiKey: string, language: Language, signal?: AbortSignal): Promise<SentenceFeedback> => {
+  return openaiService.gradeSentence(word, sense, sentence, apiKey || PLACEHOLDER_API_KEY, language, getClientOptions(), signal);
+};
+
+export const generateText = (prompt: string, apiKey: string, signal?: AbortSignal): Promise<string> => {
+  return openaiService.generateText(prompt, apiKey || PLACEHOLDER_API_KEY, getClientOptions(), signal);
+};
+
+// ============================================
+// Provider definition
+// ============================================
+
+export const openaiCompatibleProvider: LLMProviderDefinition = {
+  id: 'custom',
+  name: 'Custom (OpenAI-compatible)',
+  vendor: 'your own',
+  get capabilities() {
+    return getCapabilities(loadSettings());
+  },
+  voices: openaiService.OPENAI_VOICES,
+  defaultVoice: 'alloy',
+  keyMode: 'optional',
+  keyPlaceholder: 'Optional',
+  settingFields: [
+    { id: 'baseURL', label: 'Base URL', placeholder: 'http://localhost:11434/v1', required: true },
+    { id: 'chatModel', label: 'Chat model (annotation, text generation, sentence grading)', placeholder: 'llama3.1' },
+    { id: 'ttsModel', label: 'TTS model', placeholder: 'tts-1' },
+    { id: 'transcriptionModel', label: 'Transcription model (pronunciation)', placeholder: 'whisper-1' },
+  ],
+  loadSettings: () => ({ ...loadSettings() }),
+  saveSettings,
+  fetchTTSAudio,
+  fetchWordAnnotation,
+  fetchBatchAnnotations,
+  getKnownSenses,
+  chooseSense,
+  analyzePronunciation,
+  gradeSentence,
+  generateText,
+  // Shares the OpenAI caches (entries are namespaced by endpoint and model)
+  clearTTSCache: openaiService.clearTTSCache,
+  clearAnnotationCache: openaiService.clearAnnotationCache,
+};
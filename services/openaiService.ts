@@ -1,200 +1,241 @@
 import OpenAI from 'openai';
 import { Language } from '../i18n/translations';
-import { Annotation, PronunciationFeedback, WordError } from '../types';
+import { Annotation, PronunciationFeedback, SentenceFeedback, TTSAudioResult, VoiceOption, WordError } from '../types';
+import { createTTSCache } from './audioCache';
+import { createAnnotationCache, getKnownSenseInstructions, SensedAnnotation } from './annotationCache';
 import { getTargetLanguageCode } from './i18nService';
-
-// TTS audio result type
-export interface TTSAudioResult {
-  data: ArrayBuffer;
-  mimeType: string;
+import {
+  AbortedError,
+  ConfigurationError,
+  errorFromStatus,
+  LLMError,
+  MalformedResponseError,
+  NetworkError,
+  parseRetryAfter,
+  RateLimitError,
+  SafetyBlockError,
+  withRetry,
+} from './llmErrors';
+import type { LLMProviderDefinition } from './providerRegistry';
+
+// Client options, so OpenAI-compatible servers (Ollama, LocalAI, vLLM, ...) can reuse this module
+export interface OpenAIClientOptions {
+  baseURL?: string;            // Defaults to api.openai.com
+  chatModel: string;
+  ttsModel: string;
+  transcriptionModel: string;
 }
 
-// LocalStorage cache entry (stores base64 for persistence)
-interface TTSCacheEntry {
-  base64: string;
-  mimeType: string;
-  timestamp: number;
+export const DEFAULT_OPENAI_OPTIONS: OpenAIClientOptions = {
+  chatModel: 'gpt-4o-mini',
+  ttsModel: 'tts-1',
+  transcriptionModel: 'whisper-1',
+};
+
+function createClient(apiKey: string, options: OpenAIClientOptions): OpenAI {
+  return new OpenAI({
+    apiKey,
+    baseURL: options.baseURL || undefined,
+    maxRetries: 0, // Retries are handled by withRetry so all providers back off the same way
+    dangerouslyAllowBrowser: true // Note: In production, use a backend proxy
+  });
 }
 
-// LocalStorage key prefix
-const TTS_CACHE_PREFIX = 'vocabflow_openai_tts_';
-const TTS_CACHE_INDEX_KEY = 'vocabflow_openai_tts_index';
+/**
+ * Map OpenAI SDK errors to normalized LLM errors
+ */
+function normalizeOpenAIError(error: unknown): unknown {
+  if (error instanceof LLMError) return error;
 
-// Max cache size
-const MAX_TTS_CACHE_SIZE = 20;
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return new AbortedError();
+  }
 
-// In-memory cache for fast access during session
-const memoryCache = new Map<string, TTSAudioResult>();
+  // Also covers timeouts (APIConnectionTimeoutError)
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new NetworkError(error.message, { cause: error });
+  }
 
-// Base64 decode helper for audio data
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  if (error instanceof OpenAI.APIError && error.status) {
+    // Prefer the millisecond header OpenAI sends alongside the standard Retry-After
+    const retryAfterMsHeader = Number(error.headers?.get('retry-after-ms'));
+    const retryAfterMs = retryAfterMsHeader > 0 ? retryAfterMsHeader : parseRetryAfter(error.headers?.get('retry-after'));
+    if (error.code === 'insufficient_quota') {
+      return new RateLimitError(error.message, { status: error.status, quotaExhausted: true, cause: error });
+    }
+    if (error.code === 'content_policy_violation' || error.code === 'content_filter') {
+      return new SafetyBlockError(error.message, { status: error.status, cause: error });
+    }
+    return errorFromStatus(error.status, error.message, { retryAfterMs, cause: error });
   }
-  return bytes.buffer;
-}
 
-// Helper: Convert ArrayBuffer to base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    binary += String.fromCharCode(bytes[i]);
+  if (error instanceof SyntaxError) {
+    return new MalformedResponseError("Response is not valid JSON", { cause: error });
   }
-  return btoa(binary);
+
+  return error;
 }
 
-// Generate a cache key from text
-function getCacheKey(text: string): string {
-  let hash = 0;
-  const str = text.trim();
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return TTS_CACHE_PREFIX + Math.abs(hash).toString(36);
+// Run an OpenAI request with normalized errors and automatic retries
+function withOpenAIRetry<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return withRetry(request, { normalizeError: normalizeOpenAIError, signal });
 }
 
-// Get cache index
-function getCacheIndex(): { key: string; text: string; timestamp: number }[] {
-  try {
-    const index = localStorage.getItem(TTS_CACHE_INDEX_KEY);
-    return index ? JSON.parse(index) : [];
-  } catch {
-    return [];
+// Extract the message text from a chat completion, surfacing safety refusals
+function getCompletionContent(response: OpenAI.Chat.Completions.ChatCompletion): string | null | undefined {
+  const choice = response.choices[0];
+  if (choice?.finish_reason === 'content_filter' || choice?.message?.refusal) {
+    throw new SafetyBlockError(choice.message?.refusal || "Response blocked by content filter");
   }
+  return choice?.message?.content;
 }
 
-// Save cache index
-function saveCacheIndex(index: { key: string; text: string; timestamp: number }[]): void {
-  try {
-    localStorage.setItem(TTS_CACHE_INDEX_KEY, JSON.stringify(index));
-  } catch (e) {
-    console.warn("Failed to save TTS cache index:", e);
-  }
+// Cache key suffix so different endpoints and models don't share cached results
+function getCacheNamespace(options: OpenAIClientOptions, model: string): string {
+  return options.baseURL ? `@${options.baseURL}#${model}` : '';
 }
 
-// Get cached TTS from localStorage
-function getFromLocalStorage(text: string): TTSAudioResult | null {
-  const cacheKey = getCacheKey(text);
+// Endpoints that rejected json_schema response formats (remembered for the session)
+const jsonSchemaUnsupportedEndpoints = new Set<string>();
 
-  if (memoryCache.has(text.trim())) {
-    return memoryCache.get(text.trim())!;
+// Parse model output as JSON, tolerating markdown code fences and surrounding prose
+function parseJSONContent<T>(content: string | null | undefined): T {
+  if (!content) {
+    throw new MalformedResponseError("No response from OpenAI");
   }
 
-  try {
-    const stored = localStorage.getItem(cacheKey);
-    if (!stored) return null;
-
-    const entry: TTSCacheEntry = JSON.parse(stored);
-    const data = base64ToArrayBuffer(entry.base64);
-    const result: TTSAudioResult = { data, mimeType: entry.mimeType };
-
-    memoryCache.set(text.trim(), result);
-    return result;
-  } catch (e) {
-    console.warn("Failed to read TTS from localStorage:", e);
-    return null;
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new MalformedResponseError("Response is not valid JSON");
   }
-}
-
-// Save TTS to localStorage
-function saveToLocalStorage(text: string, result: TTSAudioResult): void {
-  const cacheKey = getCacheKey(text);
-  const textKey = text.trim();
-
-  memoryCache.set(textKey, result);
 
   try {
-    const base64 = arrayBufferToBase64(result.data);
-    const entry: TTSCacheEntry = {
-      base64,
-      mimeType: result.mimeType,
-      timestamp: Date.now()
-    };
-
-    let index = getCacheIndex();
-    index = index.filter(e => e.text !== textKey);
+    return JSON.parse(candidate.slice(start, end + 1)) as T;
+  } catch (error) {
+    throw new MalformedResponseError("Response is not valid JSON", { cause: error });
+  }
+}
 
-    while (index.length >= MAX_TTS_CACHE_SIZE) {
-      const oldest = index.shift();
-      if (oldest) {
-        localStorage.removeItem(oldest.key);
-        memoryCache.delete(oldest.text);
+/**
+ * Run a chat completion that returns JSON matching a schema.
+ * Uses json_schema response formats where supported; for custom endpoints that
+ * reject them, falls back to describing the schema in the prompt.
+ */
+async function createJSONCompletion<T>(
+  openai: OpenAI,
+  options: OpenAIClientOptions,
+  prompt: string,
+  jsonSchema: { name: string; strict: boolean; schema: Record<string, unknown> },
+  signal?: AbortSignal
+): Promise<T> {
+  const endpoint = options.baseURL || '';
+
+  if (!jsonSchemaUnsupportedEndpoints.has(endpoint)) {
+    try {
+      const response = await withOpenAIRetry(() => openai.chat.completions.create({
+        model: options.chatModel,
+        messages: [
+          {
+            role: "user",
+            content: prompt
+          }
+        ],
+        response_format: {
+          type: "json_schema",
+          json_schema: jsonSchema
+        }
+      }, { signal }), signal);
+
+      return parseJSONContent<T>(getCompletionContent(response));
+    } catch (error) {
+      // Only degrade for custom endpoints, and only on request-shape errors (not auth/quota)
+      const isUnsupported = error instanceof LLMError
+        && (error.status === 400 || error.status === 404 || error.status === 422 || error.status === 501);
+      if (!options.baseURL || !isUnsupported) {
+        throw error;
       }
+      console.warn("Endpoint does not support json_schema, falling back to prompt-based JSON:", error);
+      jsonSchemaUnsupportedEndpoints.add(endpoint);
     }
+  }
 
-    index.push({ key: cacheKey, text: textKey, timestamp: Date.now() });
+  const response = await withOpenAIRetry(() => openai.chat.completions.create({
+    model: options.chatModel,
+    messages: [
+      {
+        role: "user",
+        content: `${prompt}
 
-    localStorage.setItem(cacheKey, JSON.stringify(entry));
-    saveCacheIndex(index);
+Respond with a single JSON object that matches this JSON schema, and nothing else:
+${JSON.stringify(jsonSchema.schema)}`
+      }
+    ]
+  }, { signal }), signal);
 
-    console.log("OpenAI TTS cached:", textKey.slice(0, 30) + "...");
-  } catch (e) {
-    console.warn("Failed to save TTS to localStorage:", e);
-  }
+  return parseJSONContent<T>(getCompletionContent(response));
 }
 
+// TTS audio cache: in-memory first tier, IndexedDB (shared audio store) second
+const ttsCache = createTTSCache('openai', { indexKey: 'vocabflow_openai_tts_index' });
+
 /**
- * Clear the TTS cache (both memory and localStorage)
+ * Clear the TTS cache (both memory and IndexedDB)
  */
 export const clearTTSCache = () => {
-  memoryCache.clear();
-
-  const index = getCacheIndex();
-  for (const entry of index) {
-    localStorage.removeItem(entry.key);
-  }
-  localStorage.removeItem(TTS_CACHE_INDEX_KEY);
-
-  console.log("OpenAI TTS cache cleared");
+  ttsCache.clear().then(() => console.log("OpenAI TTS cache cleared"));
 };
 
 /**
  * Fetch TTS audio from OpenAI API with caching
  */
-export const fetchTTSAudio = async (text: string, apiKey: string, voice: string = 'alloy'): Promise<TTSAudioResult> => {
+export const fetchTTSAudio = async (
+  text: string,
+  apiKey: string,
+  voice: string = 'alloy',
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
+): Promise<TTSAudioResult> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
-  // Include voice in cache key
-  const cacheKey = `${text}_${voice}`;
+  // Include voice (and endpoint/model for custom servers) in cache key
+  const cacheKey = `${text}_${voice}${getCacheNamespace(options, options.ttsModel)}`;
 
   // Check cache first
-  const cached = getFromLocalStorage(cacheKey);
+  const cached = await ttsCache.get(cacheKey);
   if (cached) {
     console.log("OpenAI TTS cache hit:", text.trim().slice(0, 30) + "...");
     return cached;
   }
 
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true // Note: In production, use a backend proxy
-  });
+  const openai = createClient(apiKey, options);
 
   try {
-    const mp3Response = await openai.audio.speech.create({
-      model: "tts-1",
-      voice: voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
-      input: text,
-      speed: 1.0
-    });
-
-    const arrayBuffer = await mp3Response.arrayBuffer();
+    const arrayBuffer = await withOpenAIRetry(async () => {
+      const mp3Response = await openai.audio.speech.create({
+        model: options.ttsModel,
+        voice,
+        input: text,
+        speed: 1.0
+      }, { signal });
+      return mp3Response.arrayBuffer();
+    }, signal);
     const result: TTSAudioResult = {
       data: arrayBuffer,
       mimeType: 'audio/mpeg'
     };
 
-    saveToLocalStorage(cacheKey, result);
+    // Persisting to IndexedDB continues in the background
+    ttsCache.set(cacheKey, result);
     return result;
   } catch (error) {
-    console.error("Error fetching OpenAI TTS audio:", error);
-    throw error;
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error fetching OpenAI TTS audio:", normalized);
+    throw normalized;
   }
 };
 
@@ -202,96 +243,125 @@ export const fetchTTSAudio = async (text: string, apiKey: string, voice: string
 // Word Annotation Cache
 // ============================================
 
-const ANNOTATION_CACHE_PREFIX = 'vocabflow_openai_annotation_';
-const ANNOTATION_CACHE_INDEX_KEY = 'vocabflow_openai_annotation_index';
 const MAX_ANNOTATION_CACHE_SIZE = 500;
 
-const annotationMemoryCache = new Map<string, Annotation>();
+// Keyed by word + language, with several senses per word
+const annotationCache = createAnnotationCache('vocabflow_openai_annotation_v2_', MAX_ANNOTATION_CACHE_SIZE, {
+  indexKey: 'vocabflow_openai_annotation_index'
+});
 
-function getAnnotationCacheKey(word: string): string {
-  return ANNOTATION_CACHE_PREFIX + word.toLowerCase().trim();
-}
-
-function getAnnotationCacheIndex(): { key: string; word: string; timestamp: number }[] {
-  try {
-    const index = localStorage.getItem(ANNOTATION_CACHE_INDEX_KEY);
-    return index ? JSON.parse(index) : [];
-  } catch {
-    return [];
-  }
-}
+/**
+ * Clear the annotation cache
+ */
+export const clearAnnotationCache = () => {
+  annotationCache.clear();
+  console.log("OpenAI annotation cache cleared");
+};
 
-function saveAnnotationCacheIndex(index: { key: string; word: string; timestamp: number }[]): void {
-  try {
-    localStorage.setItem(ANNOTATION_CACHE_INDEX_KEY, JSON.stringify(index));
-  } catch (e) {
-    console.warn("Failed to save annotation cache index:", e);
-  }
-}
+/**
+ * Known senses of a word in the cache (for the tooltip's sense switcher)
+ */
+export const getKnownSenses = (
+  word: string,
+  language: Language,
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS
+): Annotation[] => {
+  const cacheWord = word + getCacheNamespace(options, options.chatModel);
+  return annotationCache.getSenses(cacheWord, language).map(sense => sense.annotation);
+};
 
-function getAnnotationFromCache(word: string): Annotation | null {
-  const wordKey = word.toLowerCase().trim();
-  const cacheKey = getAnnotationCacheKey(word);
+/**
+ * Record the sense the user picked for a word in a context
+ */
+export const chooseSense = (
+  word: string,
+  language: Language,
+  senseIndex: number,
+  contextSentence: string,
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS
+): void => {
+  const cacheWord = word + getCacheNamespace(options, options.chatModel);
+  annotationCache.recordContext(cacheWord, language, senseIndex, contextSentence);
+};
 
-  if (annotationMemoryCache.has(wordKey)) {
-    return annotationMemoryCache.get(wordKey)!;
-  }
+// Annotation fields requested from the model (shared by single and batch lookups)
+function getAnnotationInstructions(targetLang: string): string {
+  return `Provide comprehensive information:
+1. IPA phonetic transcription (British or American)
+2. Concise definition in ${targetLang} (max 10 chars) for this context - translate to ${targetLang}
+3. English dictionary definition (concise, 1 sentence in English)
+4. Syllable breakdown (e.g., "hel-lo", "com-mu-ni-ca-tion")
+5. Word roots in English with explanations (e.g., "dict (say, speak)")
+6. Affixes in English with explanations (e.g., "pre- (before), -ion (noun suffix)")
+7. 2-4 synonyms in ENGLISH words (e.g., "happy, joyful, cheerful")
+8. Synonym analysis in ${targetLang} (brief explanation of differences between synonyms in ${targetLang})
+9. Antonyms in ENGLISH words (optional, if clear antonyms exist)
+10. Associated words in ENGLISH (optional, thematically related English words)
+11. Common phrases in English (optional, 2-3 common collocations or phrases)
 
-  try {
-    const stored = localStorage.getItem(cacheKey);
-    if (!stored) return null;
-
-    const annotation: Annotation = JSON.parse(stored);
-    annotationMemoryCache.set(wordKey, annotation);
-    return annotation;
-  } catch (e) {
-    console.warn("Failed to read annotation from localStorage:", e);
-    return null;
-  }
+IMPORTANT: Field 2 (definition) and field 8 (synonym analysis) should be in ${targetLang}. All other fields must be in English.
+Return complete JSON. Use empty string "" for missing text fields, empty array [] for missing list fields.`;
 }
 
-function saveAnnotationToCache(word: string, annotation: Annotation): void {
-  const wordKey = word.toLowerCase().trim();
-  const cacheKey = getAnnotationCacheKey(word);
-
-  annotationMemoryCache.set(wordKey, annotation);
-
-  try {
-    let index = getAnnotationCacheIndex();
-    index = index.filter(e => e.word !== wordKey);
-
-    while (index.length >= MAX_ANNOTATION_CACHE_SIZE) {
-      const oldest = index.shift();
-      if (oldest) {
-        localStorage.removeItem(oldest.key);
-        annotationMemoryCache.delete(oldest.word);
-      }
+// JSON schema for one Annotation plus the matched known sense
+const ANNOTATION_JSON_SCHEMA = {
+  type: "object",
+  properties: {
+    ipa: {
+      type: "string",
+      description: "IPA phonetic transcription"
+    },
+    definition: {
+      type: "string",
+      description: "Concise Chinese definition"
+    },
+    definitionEn: {
+      type: "string",
+      description: "English dictionary definition"
+    },
+    syllables: {
+      type: "string",
+      description: "Syllable breakdown"
+    },
+    roots: {
+      type: "string",
+      description: "Word roots"
+    },
+    affixes: {
+      type: "string",
+      description: "Prefixes and suffixes"
+    },
+    synonyms: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of synonyms"
+    },
+    synonymAnalysis: {
+      type: "string",
+      description: "Synonym analysis in Chinese"
+    },
+    antonyms: {
+      type: "array",
+      items: { type: "string" },
+      description: "List of antonyms"
+    },
+    associations: {
+      type: "array",
+      items: { type: "string" },
+      description: "Associated words for memory"
+    },
+    phrases: {
+      type: "array",
+      items: { type: "string" },
+      description: "Common phrases or collocations"
+    },
+    knownSense: {
+      type: "integer",
+      description: "Number of the matching known sense, or -1"
     }
-
-    index.push({ key: cacheKey, word: wordKey, timestamp: Date.now() });
-
-    localStorage.setItem(cacheKey, JSON.stringify(annotation));
-    saveAnnotationCacheIndex(index);
-
-    console.log("OpenAI annotation cached:", wordKey);
-  } catch (e) {
-    console.warn("Failed to save annotation to localStorage:", e);
-  }
-}
-
-/**
- * Clear the annotation cache
- */
-export const clearAnnotationCache = () => {
-  annotationMemoryCache.clear();
-
-  const index = getAnnotationCacheIndex();
-  for (const entry of index) {
-    localStorage.removeItem(entry.key);
-  }
-  localStorage.removeItem(ANNOTATION_CACHE_INDEX_KEY);
-
-  console.log("OpenAI annotation cache cleared");
+  },
+  required: ["ipa", "definition", "definitionEn", "syllables", "roots", "affixes", "synonyms", "synonymAnalysis", "antonyms", "associations", "phrases", "knownSense"],
+  additionalProperties: false
 };
 
 /**
@@ -301,127 +371,128 @@ export const fetchWordAnnotation = async (
   word: string,
   contextSentence: string,
   apiKey: string,
-  language: Language = 'zh'
+  language: Language = 'zh',
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
 ): Promise<Annotation> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
-  const cached = getAnnotationFromCache(word);
+  const cacheWord = word + getCacheNamespace(options, options.chatModel);
+  const cached = annotationCache.lookup(cacheWord, language, contextSentence);
   if (cached) {
     console.log("OpenAI annotation cache hit:", word);
     return cached;
   }
 
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true
-  });
+  const openai = createClient(apiKey, options);
 
   try {
     const targetLang = getTargetLanguageCode(language);
     const prompt = `Analyze the English word "${word}" in context: "${contextSentence}".
 
-Provide comprehensive information:
-1. IPA phonetic transcription (British or American)
-2. Concise definition in ${targetLang} (max 10 chars) for this context - translate to ${targetLang}
-3. English dictionary definition (concise, 1 sentence in English)
-4. Syllable breakdown (e.g., "hel-lo", "com-mu-ni-ca-tion")
-5. Word roots in English with explanations (e.g., "dict (say, speak)")
-6. Affixes in English with explanations (e.g., "pre- (before), -ion (noun suffix)")
-7. 2-4 synonyms in ENGLISH words (e.g., "happy, joyful, cheerful")
-8. Synonym analysis in ${targetLang} (brief explanation of differences between synonyms in ${targetLang})
-9. Antonyms in ENGLISH words (optional, if clear antonyms exist)
-10. Associated words in ENGLISH (optional, thematically related English words)
-11. Common phrases in English (optional, 2-3 common collocations or phrases)
+${getAnnotationInstructions(targetLang)}
 
-IMPORTANT: Field 2 (definition) and field 8 (synonym analysis) should be in ${targetLang}. All other fields must be in English.
-Return complete JSON. Use empty string "" for missing text fields, empty array [] for missing list fields.`;
+${getKnownSenseInstructions(annotationCache.getSenses(cacheWord, language))}`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "word_annotation",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              ipa: {
-                type: "string",
-                description: "IPA phonetic transcription"
-              },
-              definition: {
-                type: "string",
-                description: "Concise Chinese definition"
-              },
-              definitionEn: {
-                type: "string",
-                description: "English dictionary definition"
-              },
-              syllables: {
-                type: "string",
-                description: "Syllable breakdown"
-              },
-              roots: {
-                type: "string",
-                description: "Word roots"
-              },
-              affixes: {
-                type: "string",
-                description: "Prefixes and suffixes"
-              },
-              synonyms: {
-                type: "array",
-                items: { type: "string" },
-                description: "List of synonyms"
-              },
-              synonymAnalysis: {
-                type: "string",
-                description: "Synonym analysis in Chinese"
-              },
-              antonyms: {
-                type: "array",
-                items: { type: "string" },
-                description: "List of antonyms"
-              },
-              associations: {
-                type: "array",
-                items: { type: "string" },
-                description: "Associated words for memory"
+    const result = await createJSONCompletion<SensedAnnotation>(openai, options, prompt, {
+      name: "word_annotation",
+      strict: true,
+      schema: ANNOTATION_JSON_SCHEMA
+    }, signal);
+
+    // Returns the cached sense if the model matched a known one
+    return annotationCache.store(cacheWord, language, contextSentence, result);
+  } catch (error) {
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error fetching OpenAI annotation:", normalized);
+    throw normalized;
+  }
+};
+
+/**
+ * Annotate several words of one passage in a single request.
+ * Cached words are not requested again. Returns annotations keyed by lowercase word;
+ * words the model skipped are left out.
+ */
+export const fetchBatchAnnotations = async (
+  words: string[],
+  passage: string,
+  apiKey: string,
+  language: Language = 'zh',
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
+): Promise<Record<string, Annotation>> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
+  }
+
+  const namespace = getCacheNamespace(options, options.chatModel);
+  const results: Record<string, Annotation> = {};
+  const missing: string[] = [];
+  for (const word of words) {
+    const cached = annotationCache.lookup(word + namespace, language, passage);
+    if (cached) {
+      results[word.toLowerCase()] = cached;
+    } else {
+      missing.push(word);
+    }
+  }
+  if (missing.length === 0) return results;
+
+  const openai = createClient(apiKey, options);
+
+  try {
+    const targetLang = getTargetLanguageCode(language);
+    const prompt = `Read this passage:
+"${passage}"
+
+Analyze each of these English words as used in the passage: ${missing.map(w => `"${w}"`).join(', ')}.
+
+For each word:
+${getAnnotationInstructions(targetLang)}
+${missing.map(w => `For "${w}": ${getKnownSenseInstructions(annotationCache.getSenses(w + namespace, language))}`).join('\n')}
+Return one entry per word in "annotations", with "word" set exactly as given.`;
+
+    const { annotations } = await createJSONCompletion<{ annotations: (SensedAnnotation & { word: string })[] }>(openai, options, prompt, {
+      name: "word_annotations",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          annotations: {
+            type: "array",
+            items: {
+              ...ANNOTATION_JSON_SCHEMA,
+              properties: {
+                word: {
+                  type: "string",
+                  description: "The word exactly as given"
+                },
+                ...ANNOTATION_JSON_SCHEMA.properties
               },
-              phrases: {
-                type: "array",
-                items: { type: "string" },
-                description: "Common phrases or collocations"
-              }
-            },
-            required: ["ipa", "definition", "definitionEn", "syllables", "roots", "affixes", "synonyms", "synonymAnalysis", "antonyms", "associations", "phrases"],
-            additionalProperties: false
+              required: ["word", ...ANNOTATION_JSON_SCHEMA.required]
+            }
           }
-        }
+        },
+        required: ["annotations"],
+        additionalProperties: false
       }
-    });
+    }, signal);
 
-    const jsonText = response.choices[0]?.message?.content;
-    if (!jsonText) {
-      throw new Error("No response from OpenAI");
+    for (const { word, ...annotation } of annotations || []) {
+      // Ignore words the model added on its own
+      const requested = missing.find(w => w.toLowerCase() === word.toLowerCase().trim());
+      if (!requested) continue;
+      results[requested.toLowerCase()] = annotationCache.store(requested + namespace, language, passage, annotation);
     }
 
-    const annotation = JSON.parse(jsonText) as Annotation;
-    saveAnnotationToCache(word, annotation);
-
-    return annotation;
+    return results;
   } catch (error) {
-    console.error("Error fetching OpenAI annotation:", error);
-    throw error;
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error fetching OpenAI batch annotations:", normalized);
+    throw normalized;
   }
 };
 
@@ -432,23 +503,22 @@ export const analyzePronunciation = async (
   audioBlob: Blob,
   originalText: string,
   apiKey: string,
-  language: Language = 'zh'
+  language: Language = 'zh',
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
 ): Promise<PronunciationFeedback> => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please configure it in settings.");
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
   }
 
-  const openai = new OpenAI({
-    apiKey,
-    dangerouslyAllowBrowser: true
-  });
+  const openai = createClient(apiKey, options);
 
   try {
     // First, transcribe the audio using Whisper
-    const transcription = await openai.audio.transcriptions.create({
+    const transcription = await withOpenAIRetry(() => openai.audio.transcriptions.create({
       file: new File([audioBlob], "audio.webm", { type: audioBlob.type }),
-      model: "whisper-1",
-    });
+      model: options.transcriptionModel,
+    }, { signal }), signal);
 
     const transcribedText = transcription.text;
 
@@ -469,63 +539,44 @@ Analyze the pronunciation and provide feedback in JSON format with:
 
 Be encouraging but honest. If the pronunciation is good, return an empty errors array.`;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "pronunciation_feedback",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              score: {
-                type: "number",
-                description: "Pronunciation quality score from 0-100"
-              },
-              feedback: {
-                type: "string",
-                description: "Overall feedback comment in Chinese"
-              },
-              errors: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    word: {
-                      type: "string",
-                      description: "The mispronounced word"
-                    },
-                    issue: {
-                      type: "string",
-                      description: "Description of the pronunciation issue in Chinese"
-                    }
-                  },
-                  required: ["word", "issue"],
-                  additionalProperties: false
+    const result = await createJSONCompletion<{ score: number; feedback: string; errors: WordError[] }>(openai, options, prompt, {
+      name: "pronunciation_feedback",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          score: {
+            type: "number",
+            description: "Pronunciation quality score from 0-100"
+          },
+          feedback: {
+            type: "string",
+            description: "Overall feedback comment in Chinese"
+          },
+          errors: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                word: {
+                  type: "string",
+                  description: "The mispronounced word"
                 },
-                description: "Array of pronunciation errors"
-              }
+                issue: {
+                  type: "string",
+                  description: "Description of the pronunciation issue in Chinese"
+                }
+              },
+              required: ["word", "issue"],
+              additionalProperties: false
             },
-            required: ["score", "feedback", "errors"],
-            additionalProperties: false
+            description: "Array of pronunciation errors"
           }
-        }
+        },
+        required: ["score", "feedback", "errors"],
+        additionalProperties: false
       }
-    });
-
-    const jsonText = response.choices[0]?.message?.content;
-    if (!jsonText) {
-      throw new Error("No response from OpenAI");
-    }
-
-    const result = JSON.parse(jsonText) as { score: number; feedback: string; errors: WordError[] };
+    }, signal);
 
     return {
       id: `feedback-${Date.now()}`,
@@ -536,7 +587,190 @@ Be encouraging but honest. If the pronunciation is good, return an empty errors
       errors: result.errors || []
     };
   } catch (error) {
-    console.error("Error analyzing pronunciation with OpenAI:", error);
-    throw error;
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error analyzing pronunciation with OpenAI:", normalized);
+    throw normalized;
   }
 };
+
+/**
+ * Grade a sentence the student wrote with a vocabulary word: correctness, naturalness,
+ * whether the word is used in the given sense, and corrections
+ */
+export const gradeSentence = async (
+  word: string,
+  sense: string,
+  sentence: string,
+  apiKey: string,
+  language: Language = 'zh',
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
+): Promise<SentenceFeedback> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
+  }
+
+  const openai = createClient(apiKey, options);
+
+  try {
+    const targetLang = getTargetLanguageCode(language);
+    const prompt = `You are an English writing tutor. A student learning the word "${word}" (meaning: ${sense}) wrote this sentence to practice it:
+
+"${sentence}"
+
+Grade the sentence and provide feedback in JSON format with:
+1. correctness: A number from 0-100 rating grammar, spelling and word usage
+2. naturalness: A number from 0-100 rating how natural the sentence sounds to a native speaker
+3. senseMatches: true if "${word}" (in any form) is used with the meaning given above
+4. correctedSentence: The sentence with every error fixed and made natural (unchanged if it needs no changes)
+5. corrections: An array of changes, each with:
+   - original: the part of the student's sentence that was changed (must match the sentence exactly)
+   - corrected: the replacement
+   - explanation: why, in ${targetLang}
+6. explanation: A brief overall comment in ${targetLang} (1-2 sentences), saying whether the word was used in the right sense
+
+Be encouraging but honest. If the sentence doesn't use the word at all, set senseMatches to false and say so.`;
+
+    return await createJSONCompletion<SentenceFeedback>(openai, options, prompt, {
+      name: "sentence_feedback",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          correctness: {
+            type: "number",
+            description: "Grammar and usage score from 0-100"
+          },
+          naturalness: {
+            type: "number",
+            description: "Naturalness score from 0-100"
+          },
+          senseMatches: {
+            type: "boolean",
+            description: "Whether the word is used in the given sense"
+          },
+          correctedSentence: {
+            type: "string",
+            description: "The corrected sentence"
+          },
+          corrections: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                original: {
+                  type: "string",
+                  description: "Part of the student's sentence"
+                },
+                corrected: {
+                  type: "string",
+                  description: "Replacement"
+                },
+                explanation: {
+                  type: "string",
+                  description: "Why, in the target language"
+                }
+              },
+              required: ["original", "corrected", "explanation"],
+              additionalProperties: false
+            },
+            description: "Changes made to the sentence"
+          },
+          explanation: {
+            type: "string",
+            description: "Overall comment in the target language"
+          }
+        },
+        required: ["correctness", "naturalness", "senseMatches", "correctedSentence", "corrections", "explanation"],
+        additionalProperties: false
+      }
+    }, signal);
+  } catch (error) {
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error grading sentence with OpenAI:", normalized);
+    throw normalized;
+  }
+};
+
+/**
+ * Generate free-form text (e.g. practice passages) with OpenAI
+ */
+export const generateText = async (
+  prompt: string,
+  apiKey: string,
+  options: OpenAIClientOptions = DEFAULT_OPENAI_OPTIONS,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!apiKey) {
+    throw new ConfigurationError("API Key is missing. Please configure it in settings.");
+  }
+
+  const openai = createClient(apiKey, options);
+
+  try {
+    const response = await withOpenAIRetry(() => openai.chat.completions.create({
+      model: options.chatModel,
+      messages: [
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      max_tokens: 1000
+    }, { signal }), signal);
+
+    const text = getCompletionContent(response);
+    if (!text) {
+      throw new MalformedResponseError("No response from OpenAI");
+    }
+    return text.trim();
+  } catch (error) {
+    const normalized = normalizeOpenAIError(error);
+    console.error("Error generating text with OpenAI:", normalized);
+    throw normalized;
+  }
+};
+
+// ============================================
+// Provider definition
+// ============================================
+
+export const OPENAI_VOICES: VoiceOption[] = [
+  { id: 'alloy', name: 'Alloy' },
+  { id: 'echo', name: 'Echo' },
+  { id: 'fable', name: 'Fable' },
+  { id: 'onyx', name: 'Onyx' },
+  { id: 'nova', name: 'Nova' },
+  { id: 'shimmer', name: 'Shimmer' },
+];
+
+export const openaiProvider: LLMProviderDefinition = {
+  id: 'openai',
+  name: 'OpenAI',
+  vendor: 'OpenAI',
+  capabilities: ['tts', 'annotation', 'pronunciation', 'textGeneration'],
+  voices: OPENAI_VOICES,
+  defaultVoice: 'alloy',
+  keyMode: 'required',
+  keyPlaceholder: 'sk-...',
+  keyUrl: 'https://platform.openai.com/api-keys',
+  keyUrlLabel: 'OpenAI Platform',
+  // Client options sit before the signal in this module's signatures
+  fetchTTSAudio: (text, apiKey, voice, signal) =>
+    fetchTTSAudio(text, apiKey, voice, DEFAULT_OPENAI_OPTIONS, signal),
+  fetchWordAnnotation: (word, contextSentence, apiKey, language, signal) =>
+    fetchWordAnnotation(word, contextSentence, apiKey, language, DEFAULT_OPENAI_OPTIONS, signal),
+  fetchBatchAnnotations: (words, passage, apiKey, language, signal) =>
+    fetchBatchAnnotations(words, passage, apiKey, language, DEFAULT_OPENAI_OPTIONS, signal),
+  getKnownSenses: (word, language) => getKnownSenses(word, language),
+  chooseSense: (word, language, senseIndex, contextSentence) =>
+    chooseSense(word, language, senseIndex, contextSentence),
+  analyzePronunciation: (audioBlob, originalText, apiKey, language, signal) =>
+    analyzePronunciation(audioBlob, originalText, apiKey, language, DEFAULT_OPENAI_OPTIONS, signal),
+  gradeSentence: (word, sense, sentence, apiKey, language, signal) =>
+    gradeSentence(word, sense, sentence, apiKey, language, DEFAULT_OPENAI_OPTIONS, signal),
+  generateText: (prompt, apiKey, signal) =>
+    generateText(prompt, apiKey, DEFAULT_OPENAI_OPTIONS, signal),
+  clearTTSCache,
+  clearAnnotationCache,
+};
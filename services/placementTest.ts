@@ -0,0 +1,176 @@
+import { CefrLevel, PlacementRecord } from '../types';
+import { addKnownWords } from './knownWordsService';
+import { placementItem, readItem, writeItem } from './storage';
+import { CEFR_LEVELS, getWordsAtLevel } from './wordLevelService';
+
+// Adaptive yes/no vocabulary test. Words are sampled from the bands of the bundled word
+// list (A1 to C1); after each block of answers the test moves up a band if most words were
+// known and down if few were. Made-up words are mixed in: claiming to know them lowers the
+// estimate (hits minus false alarms), so over-claiming doesn't inflate the result.
+// Requires the word level data (loadWordLevels) to be loaded.
+
+const BANDS = CEFR_LEVELS.slice(0, -1);   // Levels with listed words
+const START_BAND = 1;                      // A2
+const BLOCK_SIZE = 5;                      // Real words asked in a band before deciding where to go
+const MAX_REAL_WORDS = 40;
+const PSEUDO_WORD_INTERVAL = 4;            // Every 4th question is a made-up word
+const PASS_RATE = 0.8;                     // Move up when at least this share of a band is known
+const FAIL_RATE = 0.5;                     // Move down when at most this share is known
+const SEED_RATE = 0.8;                     // Bands known this well are added to the known words in full
+const UNRELIABLE_FALSE_ALARM_RATE = 0.25;
+
+// Pronounceable strings that aren't English words
+const PSEUDO_WORDS = [
+  'blonter', 'crastic', 'prendle', 'mantiful', 'dorrish', 'glimber', 'fentical', 'brastle',
+  'wextor', 'crunion', 'sploven', 'tolvent', 'drissen', 'vornish', 'plarity', 'fremble',
+  'quintory', 'sladish', 'stravel', 'bontrage', 'clessary', 'dimlow', 'furbant', 'grastly',
+  'kelsome', 'lorvate', 'obstrain', 'quarnish', 'ristle', 'sorbage', 'undervail', 'vaspen',
+  'yarnish', 'zontal', 'hobsteal', 'perplenty',
+];
+
+export interface PlacementQuestion {
+  word: string;
+  band: number | null;   // Index into the bands, null for a made-up word
+}
+
+export interface PlacementAnswer extends PlacementQuestion {
+  known: boolean;
+}
+
+export interface PlacementState {
+  answers: PlacementAnswer[];
+  band: number;          // Band the next real word is taken from
+  isFinished: boolean;
+}
+
+export interface PlacementResult {
+  level: CefrLevel;
+  vocabularySize: number;
+  bandScores: number[];    // Estimated share of each band's words the learner knows (0-1)
+  pseudoWords: number;     // Made-up words asked
+  falseAlarms: number;     // Made-up words claimed as known
+  isReliable: boolean;     // False if too many made-up words were claimed
+}
+
+export const startPlacement = (): PlacementState => ({ answers: [], band: START_BAND, isFinished: false });
+
+const pickRandom = <T>(items: T[]): T | undefined => items[Math.floor(Math.random() * items.length)];
+
+// Known share of the real words answered in a band
+function bandStats(answers: PlacementAnswer[], band: number): { asked: number; rate: number } {
+  const inBand = answers.filter(a => a.band === band);
+  const known = inBand.filter(a => a.known).length;
+  return { asked: inBand.length, rate: inBand.length > 0 ? known / inBand.length : 0 };
+}
+
+/**
+ * The next word to ask, or null when the test is finished
+ */
+export const nextPlacementQuestion = (state: PlacementState): PlacementQuestion | null => {
+  if (state.isFinished) return null;
+  const asked = new Set(state.answers.map(a => a.word));
+
+  if ((state.answers.length + 1) % PSEUDO_WORD_INTERVAL === 0) {
+    const word = pickRandom(PSEUDO_WORDS.filter(w => !asked.has(w)));
+    if (word) return { word, band: null };
+  }
+
+  // Single letters and two-letter function words say nothing about vocabulary size
+  const word = pickRandom(getWordsAtLevel(BANDS[state.band]).filter(w => w.length > 2 && !asked.has(w)));
+  return word ? { word, band: state.band } : null;
+};
+
+/**
+ * Record an answer and decide where the test goes next
+ */
+export const answerPlacementQuestion = (state: PlacementState, question: PlacementQuestion, known: boolean): PlacementState => {
+  const answers = [...state.answers, { ...question, known }];
+  const next: PlacementState = { answers, band: state.band, isFinished: false };
+  if (question.band === null) return next;
+
+  if (answers.filter(a => a.band !== null).length >= MAX_REAL_WORDS) {
+    return { ...next, isFinished: true };
+  }
+
+  const { asked, rate } = bandStats(answers, state.band);
+  if (asked % BLOCK_SIZE !== 0) return next;
+
+  if (rate >= PASS_RATE) {
+    const above = state.band + 1;
+    // Known well at the top band, or the band above was already failed: the boundary is found
+    if (above >= BANDS.length) return { ...next, isFinished: asked >= 2 * BLOCK_SIZE };
+    const aboveStats = bandStats(answers, above);
+    if (aboveStats.asked > 0 && aboveStats.rate <= FAIL_RATE) return { ...next, isFinished: true };
+    return { ...next, band: above };
+  }
+
+  if (rate <= FAIL_RATE) {
+    const below = state.band - 1;
+    if (below < 0) return { ...next, isFinished: asked >= 2 * BLOCK_SIZE };
+    const belowStats = bandStats(answers, below);
+    if (belowStats.asked > 0 && belowStats.rate >= PASS_RATE) return { ...next, isFinished: true };
+    return { ...next, band: below };
+  }
+
+  // In between: this band is the learner's frontier once it has been sampled twice
+  return { ...next, isFinished: asked >= 2 * BLOCK_SIZE };
+};
+
+/**
+ * Estimate vocabulary size and level from the answers
+ */
+export const estimatePlacement = (answers: PlacementAnswer[]): PlacementResult => {
+  const pseudo = answers.filter(a => a.band === null);
+  const falseAlarms = pseudo.filter(a => a.known).length;
+  const falseAlarmRate = pseudo.length > 0 ? falseAlarms / pseudo.length : 0;
+
+  const tested = BANDS.map((_, band) => bandStats(answers, band));
+  const testedBands = tested.map((stats, band) => (stats.asked > 0 ? band : -1)).filter(band => band >= 0);
+  const lowest = testedBands.length > 0 ? Math.min(...testedBands) : 0;
+
+  // Hit rate corrected for guessing; bands below the tested ones count as known, above as unknown
+  const bandScores = tested.map(({ asked, rate }, band) => {
+    if (asked === 0) return band < lowest ? 1 : 0;
+    if (falseAlarmRate >= 1) return 0;
+    return Math.max(0, (rate - falseAlarmRate) / (1 - falseAlarmRate));
+  });
+
+  const vocabularySize = bandScores.reduce(
+    (sum, score, band) => sum + score * getWordsAtLevel(BANDS[band]).length, 0);
+
+  // Highest level whose words (and all easier ones) are mostly known
+  let levelIndex = 0;
+  for (let band = 0; band < BANDS.length && bandScores[band] >= FAIL_RATE; band++) {
+    levelIndex = band;
+  }
+  if (levelIndex === BANDS.length - 1 && bandScores[levelIndex] >= PASS_RATE) {
+    levelIndex = CEFR_LEVELS.length - 1; // Beyond the list: C2
+  }
+
+  return {
+    level: CEFR_LEVELS[levelIndex],
+    vocabularySize: Math.round(vocabularySize / 10) * 10,
+    bandScores,
+    pseudoWords: pseudo.length,
+    falseAlarms,
+    isReliable: falseAlarmRate < UNRELIABLE_FALSE_ALARM_RATE,
+  };
+};
+
+/**
+ * Save a result: the level becomes the default for text generation, and the words claimed
+ * as known plus every word of the bands known well are added to the known words.
+ * Returns the number of words added.
+ */
+export const applyPlacement = (result: PlacementResult, answers: PlacementAnswer[]): number => {
+  writeItem(placementItem, { level: result.level, vocabularySize: result.vocabularySize, takenAt: Date.now() });
+
+  const claimed = result.isReliable ? answers.filter(a => a.band !== null && a.known).map(a => a.word) : [];
+  const bandWords = BANDS.filter((_, band) => result.bandScores[band] >= SEED_RATE).flatMap(getWordsAtLevel);
+  return addKnownWords([...claimed, ...bandWords]);
+};
+
+/**
+ * The latest placement result, if the test was taken
+ */
+export const getPlacement = (): PlacementRecord | null => readItem(placementItem);
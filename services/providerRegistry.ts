@@ -0,0 +1,96 @@
+import { Language } from '../i18n/translations';
+import { Annotation, LLMProvider, PronunciationFeedback, ProviderCapability, SentenceFeedback, TTSAudioResult, VoiceOption } from '../types';
+import { demoProvider } from './demoService';
+import { geminiProvider } from './geminiService';
+import { openaiCompatibleProvider } from './openaiCompatibleService';
+import { openaiProvider } from './openaiService';
+
+// Extra provider-specific setting shown in ApiKeyModal (e.g. a custom base URL)
+export interface ProviderSettingField {
+  id: string;
+  label: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+/**
+ * A provider module. Each provider declares which capabilities it supports
+ * and implements the matching functions; llmService dispatches to them.
+ */
+export interface LLMProviderDefinition {
+  id: LLMProvider;
+  name: string;               // Display name, e.g. "Google Gemini"
+  vendor: string;             // Who receives the key, e.g. "Google"
+  capabilities: ProviderCapability[];
+  voices: VoiceOption[];
+  defaultVoice: string;
+  keyMode: 'required' | 'optional' | 'none';
+  keyPlaceholder?: string;    // Placeholder for the API key input
+  keyUrl?: string;            // Where to get a key
+  keyUrlLabel?: string;
+  settingFields?: ProviderSettingField[];
+  loadSettings?: () => Record<string, string>;
+  saveSettings?: (settings: Record<string, string>) => void;
+
+  fetchTTSAudio?: (text: string, apiKey: string, voice: string, signal?: AbortSignal) => Promise<TTSAudioResult>;
+  fetchWordAnnotation?: (word: string, contextSentence: string, apiKey: string, language: Language, signal?: AbortSignal) => Promise<Annotation>;
+  // Optional: annotate several words of a passage in one call (keyed by lowercase word)
+  fetchBatchAnnotations?: (words: string[], passage: string, apiKey: string, language: Language, signal?: AbortSignal) => Promise<Record<string, Annotation>>;
+  // Optional: cached senses of a word and recording the sense the user picked for a context
+  getKnownSenses?: (word: string, language: Language) => Annotation[];
+  chooseSense?: (word: string, language: Language, senseIndex: number, contextSentence: string) => void;
+  analyzePronunciation?: (audioBlob: Blob, originalText: string, apiKey: string, language: Language, signal?: AbortSignal) => Promise<PronunciationFeedback>;
+  // Grading of a sentence written with a word (routed with textGeneration)
+  gradeSentence?: (word: string, sense: string, sentence: string, apiKey: string, language: Language, signal?: AbortSignal) => Promise<SentenceFeedback>;
+  generateText?: (prompt: string, apiKey: string, signal?: AbortSignal) => Promise<string>;
+  clearTTSCache?: () => void;
+  clearAnnotationCache?: () => void;
+}
+
+// Registered providers, in display order. Adding a provider means adding its module here.
+const PROVIDERS: LLMProviderDefinition[] = [
+  geminiProvider,
+  openaiProvider,
+  openaiCompatibleProvider,
+  demoProvider,
+];
+
+export const DEFAULT_PROVIDER: LLMProvider = 'gemini';
+
+/**
+ * List all registered providers
+ */
+export const listProviders = (): LLMProviderDefinition[] => PROVIDERS;
+
+/**
+ * Look up a provider by id (undefined if not registered)
+ */
+export const findProvider = (id: LLMProvider): LLMProviderDefinition | undefined => {
+  return PROVIDERS.find(p => p.id === id);
+};
+
+/**
+ * Look up a provider by id, throwing if it is not registered
+ */
+export const getProvider = (id: LLMProvider): LLMProviderDefinition => {
+  const provider = findProvider(id);
+  if (!provider) {
+    throw new Error(`Unknown provider: ${id}`);
+  }
+  return provider;
+};
+
+/**
+ * Check whether a provider can be used with the given key
+ */
+export const hasRequiredKey = (id: LLMProvider, apiKey: string): boolean => {
+  const keyMode = findProvider(id)?.keyMode;
+  return !!apiKey || keyMode === 'optional' || keyMode === 'none';
+};
+
+/**
+ * Check whether a provider supports a capability
+ */
+export const supportsCapability = (id: LLMProvider, capability: ProviderCapability): boolean => {
+  return !!findProvider(id)?.capabilities.includes(capability);
+};
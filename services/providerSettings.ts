@@ -0,0 +1,67 @@
+import { LLMProvider, ProviderCapability } from '../types';
+import { DEFAULT_PROVIDER, findProvider, getProvider, hasRequiredKey, LLMProviderDefinition } from './providerRegistry';
+import { apiKeyItem, currentProviderItem, providerRoutingItem, readItem, removeItem, writeItem } from './storage';
+
+// Which provider handles each capability
+export type ProviderRouting = Record<ProviderCapability, LLMProvider>;
+
+// Capabilities that can be routed, in settings display order
+export const ROUTED_CAPABILITIES: ProviderCapability[] = ['annotation', 'tts', 'pronunciation', 'textGeneration'];
+
+// Providers explore.html can generate text with (it calls their APIs itself)
+const EXPLORE_TEXT_PROVIDERS: LLMProvider[] = ['gemini', 'openai', 'custom', 'demo'];
+
+export const loadApiKey = (provider: LLMProvider): string => {
+  return readItem(apiKeyItem(provider)) || '';
+};
+
+export const saveApiKey = (provider: LLMProvider, key: string): void => {
+  writeItem(apiKeyItem(provider), key);
+};
+
+/**
+ * Load per-capability routing. Capabilities without a stored route fall back to
+ * the single provider chosen before routing existed (or the default provider).
+ */
+export const loadRouting = (): ProviderRouting => {
+  const storedProvider = readItem(currentProviderItem);
+  const fallback = storedProvider && findProvider(storedProvider) ? storedProvider : DEFAULT_PROVIDER;
+
+  const stored: Partial<ProviderRouting> = readItem(providerRoutingItem) || {};
+
+  const routing = {} as ProviderRouting;
+  for (const capability of ROUTED_CAPABILITIES) {
+    const provider = stored[capability];
+    // Ignore providers that are no longer registered
+    routing[capability] = provider && findProvider(provider) ? provider : fallback;
+  }
+  return routing;
+};
+
+export const saveRouting = (routing: ProviderRouting): void => {
+  writeItem(providerRoutingItem, routing);
+  // Keep the legacy key in sync: explore.html uses it for text generation. A provider it
+  // can't call is never stored there, so explore.html never sends a key to the wrong API.
+  if (EXPLORE_TEXT_PROVIDERS.includes(routing.textGeneration)) {
+    writeItem(currentProviderItem, routing.textGeneration);
+  } else {
+    removeItem(currentProviderItem);
+  }
+};
+
+/**
+ * Check whether a capability is routed to a provider that supports it and has its key
+ */
+export const isCapabilityConfigured = (capability: ProviderCapability, routing: ProviderRouting = loadRouting()): boolean => {
+  const provider = findProvider(routing[capability]);
+  if (!provider || !provider.capabilities.includes(capability)) return false;
+  return hasRequiredKey(provider.id, loadApiKey(provider.id));
+};
+
+/**
+ * Resolve the provider and key to use for a capability
+ */
+export const resolveProvider = (capability: ProviderCapability): { definition: LLMProviderDefinition; apiKey: string } => {
+  const definition = getProvider(loadRouting()[capability]);
+  return { definition, apiKey: loadApiKey(definition.id) };
+};
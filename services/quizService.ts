@@ -0,0 +1,104 @@
+import { VocabularyEntry } from '../types';
+
+// Multiple-choice questions built from stored annotations: word to meaning, meaning to
+// word, pick the synonym and pick the antonym. Distractors are the learner's other
+// vocabulary words (and their meanings and synonyms), so no LLM call is needed.
+
+export type QuizQuestionType = 'wordToMeaning' | 'meaningToWord' | 'synonym' | 'antonym';
+
+export interface QuizQuestion {
+  word: string;           // Lemma of the word being tested
+  type: QuizQuestionType;
+  prompt: string;         // The word, or its definition for meaningToWord
+  options: string[];
+  answer: number;         // Index of the correct option
+}
+
+const OPTION_COUNT = 4;
+
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+// Up to count distinct candidates (ignoring case) that aren't excluded
+function pickDistractors(candidates: string[], exclude: string[], count: number): string[] {
+  const seen = new Set(exclude.map(normalize));
+  const picked: string[] = [];
+  for (const candidate of shuffle(candidates)) {
+    const key = normalize(candidate);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    picked.push(candidate);
+    if (picked.length === count) break;
+  }
+  return picked;
+}
+
+// Shuffle the correct option in with the distractors; null if there aren't enough distractors
+function buildQuestion(
+  entry: VocabularyEntry,
+  type: QuizQuestionType,
+  prompt: string,
+  correct: string,
+  distractors: string[]
+): QuizQuestion | null {
+  if (!correct.trim() || distractors.length < OPTION_COUNT - 1) return null;
+  const options = shuffle([correct, ...distractors]);
+  return { word: entry.word, type, prompt, options, answer: options.indexOf(correct) };
+}
+
+function createQuestionOfType(entry: VocabularyEntry, type: QuizQuestionType, pool: VocabularyEntry[]): QuizQuestion | null {
+  const others = pool.filter(other => other.word !== entry.word);
+  const { annotation } = entry;
+
+  switch (type) {
+    case 'wordToMeaning':
+      return buildQuestion(entry, type, entry.word, annotation.definition,
+        pickDistractors(others.map(other => other.annotation.definition), [annotation.definition], OPTION_COUNT - 1));
+
+    case 'meaningToWord':
+      return annotation.definition.trim()
+        ? buildQuestion(entry, type, annotation.definition, entry.word,
+          pickDistractors(others.map(other => other.word), [entry.word, ...entry.forms], OPTION_COUNT - 1))
+        : null;
+
+    case 'synonym':
+    case 'antonym': {
+      const related = type === 'synonym' ? annotation.synonyms : annotation.antonyms;
+      const correct = related[Math.floor(Math.random() * related.length)];
+      if (!correct) return null;
+      // Neither a synonym nor an antonym of the word may appear as a wrong option
+      const exclude = [entry.word, ...entry.forms, ...annotation.synonyms, ...annotation.antonyms];
+      const candidates = others.flatMap(other => [other.word, ...other.annotation.synonyms]);
+      return buildQuestion(entry, type, entry.word, correct, pickDistractors(candidates, exclude, OPTION_COUNT - 1));
+    }
+  }
+}
+
+/**
+ * A question about a word, of a random type its annotation and the other words can
+ * support. Null if the vocabulary is too small for any question.
+ */
+export const createQuizQuestion = (entry: VocabularyEntry, pool: VocabularyEntry[]): QuizQuestion | null => {
+  const types: QuizQuestionType[] = ['wordToMeaning', 'meaningToWord', 'synonym', 'antonym'];
+  for (const type of shuffle(types)) {
+    const question = createQuestionOfType(entry, type, pool);
+    if (question) return question;
+  }
+  return null;
+};
+
+/**
+ * One question per word, in random order; words no question can be built for are left out
+ */
+export const createQuiz = (entries: VocabularyEntry[], pool: VocabularyEntry[]): QuizQuestion[] =>
+  shuffle(entries)
+    .map(entry => createQuizQuestion(entry, pool))
+    .filter((question): question is QuizQuestion => question !== null);
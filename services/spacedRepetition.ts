@@ -0,0 +1,114 @@
+import { ReviewGrade, WordMastery } from '../types';
+
+// SM-2 spaced repetition: each review grades how well a word was recalled and
+// schedules the next review further out the better (and more often) it was known.
+
+export const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Words reviewed at this interval or longer count as mastered
+export const MASTERED_INTERVAL_DAYS = 21;
+
+// Reviews kept per word
+const MAX_REVIEW_LOG = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 recall quality (0-5) for each grade; below 3 counts as forgotten
+const QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export type Schedule = Pick<WordMastery, 'correctCount' | 'ease' | 'interval' | 'dueAt' | 'reviews'>;
+
+/**
+ * Schedule of a word that has never been reviewed (due right away)
+ */
+export const newSchedule = (now: number = Date.now()): Schedule => ({
+  correctCount: 0,
+  ease: DEFAULT_EASE,
+  interval: 0,
+  dueAt: now,
+  reviews: [],
+});
+
+/**
+ * Apply a review to a word and return its new schedule
+ */
+export const scheduleReview = (entry: Schedule, grade: ReviewGrade, now: number = Date.now()): Schedule => {
+  const quality = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, entry.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  let correctCount: number;
+  let interval: number;
+  if (quality < 3) {
+    // Forgotten: start over, due again today
+    correctCount = 0;
+    interval = 0;
+  } else {
+    correctCount = entry.correctCount + 1;
+    if (correctCount === 1) interval = 1;
+    else if (correctCount === 2) interval = 6;
+    else interval = Math.max(entry.interval + 1, Math.round(entry.interval * ease));
+  }
+
+  return {
+    correctCount,
+    ease,
+    interval,
+    dueAt: now + interval * DAY_MS,
+    reviews: [...entry.reviews, { reviewedAt: now, grade, interval }].slice(-MAX_REVIEW_LOG),
+  };
+};
+
+/**
+ * Whether a word is due for review by the end of today
+ */
+export const isDue = (entry: Pick<WordMastery, 'dueAt'>, now: number = Date.now()): boolean => {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(23, 59, 59, 999);
+  return entry.dueAt <= endOfToday.getTime();
+};
+
+export const isMastered = (entry: Pick<WordMastery, 'interval'>): boolean =>
+  entry.interval >= MASTERED_INTERVAL_DAYS;
+
+/**
+ * Whole days until a word is due (0 if due today or overdue)
+ */
+export const daysUntilDue = (entry: Pick<WordMastery, 'dueAt'>, now: number = Date.now()): number => {
+  const startOfToday = new Date(now);
+  startOfToday.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.floor((entry.dueAt - startOfToday.getTime()) / DAY_MS));
+};
+
+// Levenshtein distance between two strings
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Whether a wrong answer is close enough to count as a typo (one edit, two for long words, none for short ones)
+ */
+export const isNearMiss = (answer: string, word: string): boolean => {
+  const a = answer.trim().toLowerCase();
+  const w = word.toLowerCase();
+  if (!a || a === w) return false;
+  const tolerance = w.length < 4 ? 0 : w.length < 8 ? 1 : 2;
+  return editDistance(a, w) <= tolerance;
+};
@@ -0,0 +1,173 @@
+import { DailyActivity, StudyActivity, VocabularyEntry } from '../types';
+import { MASTERED_INTERVAL_DAYS } from './spacedRepetition';
+import { activityItem, emptyDailyActivity, readItem, toDateKey, vocabularyItem, writeItem } from './storage';
+
+// Learning statistics for the dashboard. Lookups, pronunciation scores and study time are
+// logged per day in the activity log; review accuracy and mastery over time are derived
+// from the vocabulary's review logs, forgotten words from VocabularyEntry.forgottenCount.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of activity kept
+const MAX_LOG_DAYS = 400;
+
+// A page left open in the foreground counts for at most this long at a time
+const MAX_STRETCH_MS = 30 * 60 * 1000;
+
+export interface DayStats {
+  date: string;                       // YYYY-MM-DD
+  lookups: number;
+  reviews: number;
+  correctReviews: number;             // Reviews not graded 'again'
+  pronunciationScore: number | null;  // Average score of the day's attempts
+  mastered: number;                   // Words mastered at the end of the day
+}
+
+export interface LearningStats {
+  days: DayStats[];                                   // One per day of the range, oldest first
+  studyTime: Partial<Record<StudyActivity, number>>;  // Milliseconds over the range
+  forgottenWords: VocabularyEntry[];                  // Most often looked up again first
+}
+
+// Apply a change to today's activity and save, dropping days past the retention window
+function updateToday(update: (day: DailyActivity) => void): void {
+  const now = Date.now();
+  const log = readItem(activityItem) || {};
+  const date = toDateKey(now);
+  const day = log[date] ?? emptyDailyActivity();
+  update(day);
+  log[date] = day;
+
+  const oldest = toDateKey(now - MAX_LOG_DAYS * DAY_MS);
+  for (const key of Object.keys(log)) {
+    if (key < oldest) delete log[key];
+  }
+  writeItem(activityItem, log);
+}
+
+/**
+ * Count a word lookup
+ */
+export const recordLookup = (): void => {
+  updateToday(day => {
+    day.lookups++;
+  });
+};
+
+/**
+ * Record the score (0-100) of a pronunciation attempt
+ */
+export const recordPronunciationScore = (score: number): void => {
+  updateToday(day => {
+    day.pronunciationAttempts++;
+    day.pronunciationScoreTotal += score;
+  });
+};
+
+const recordStudyTime = (activity: StudyActivity, ms: number): void => {
+  if (ms < 1000) return;
+  updateToday(day => {
+    day.studyTime[activity] = (day.studyTime[activity] ?? 0) + Math.min(ms, MAX_STRETCH_MS);
+  });
+};
+
+/**
+ * Count time spent on an activity while the page is visible, until the returned
+ * function is called. Meant as the body of an effect: useEffect(() => trackStudyTime(mode), [mode]).
+ */
+export const trackStudyTime = (activity: StudyActivity): (() => void) => {
+  let startedAt: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+
+  const flush = () => {
+    if (startedAt !== null) recordStudyTime(activity, Date.now() - startedAt);
+    startedAt = null;
+  };
+
+  // Hidden also covers closing the tab
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flush();
+    else startedAt ??= Date.now();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    flush();
+  };
+};
+
+// Changes of a word's mastered state, oldest first: each review sets it, each lookup resets it
+function masteryEvents(entry: VocabularyEntry): { at: number; mastered: boolean }[] {
+  return [
+    ...entry.reviews.map(review => ({ at: review.reviewedAt, mastered: review.interval >= MASTERED_INTERVAL_DAYS })),
+    ...entry.sources.map(source => ({ at: source.addedAt, mastered: false })),
+  ].sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Statistics of the last dayCount days, including today
+ */
+export const getLearningStats = (dayCount: number, now: number = Date.now()): LearningStats => {
+  const log = readItem(activityItem) || {};
+  const vocabulary = readItem(vocabularyItem) || [];
+
+  // Local days of the range, stepped by calendar date so DST changes don't skip a day
+  const first = new Date(now);
+  first.setHours(0, 0, 0, 0);
+  first.setDate(first.getDate() - (dayCount - 1));
+  const dayEnds: number[] = [];
+  const dates: string[] = [];
+  for (let i = 0; i < dayCount; i++) {
+    const day = new Date(first);
+    day.setDate(first.getDate() + i);
+    dates.push(toDateKey(day.getTime()));
+    day.setHours(23, 59, 59, 999);
+    dayEnds.push(day.getTime());
+  }
+
+  const reviews = new Map<string, { total: number; correct: number }>();
+  const mastered = new Array<number>(dayCount).fill(0);
+  for (const entry of vocabulary) {
+    for (const review of entry.reviews) {
+      const date = toDateKey(review.reviewedAt);
+      const counts = reviews.get(date) ?? { total: 0, correct: 0 };
+      counts.total++;
+      if (review.grade !== 'again') counts.correct++;
+      reviews.set(date, counts);
+    }
+
+    // Walk the word's mastery changes alongside the days
+    const events = masteryEvents(entry);
+    let next = 0;
+    let isMastered = false;
+    dayEnds.forEach((end, i) => {
+      while (next < events.length && events[next].at <= end) isMastered = events[next++].mastered;
+      if (isMastered) mastered[i]++;
+    });
+  }
+
+  const studyTime: Partial<Record<StudyActivity, number>> = {};
+  const days = dates.map((date, i): DayStats => {
+    const activity = log[date] ?? emptyDailyActivity();
+    for (const [mode, ms] of Object.entries(activity.studyTime) as [StudyActivity, number][]) {
+      studyTime[mode] = (studyTime[mode] ?? 0) + ms;
+    }
+    const counts = reviews.get(date);
+    return {
+      date,
+      lookups: activity.lookups,
+      reviews: counts?.total ?? 0,
+      correctReviews: counts?.correct ?? 0,
+      pronunciationScore: activity.pronunciationAttempts > 0
+        ? activity.pronunciationScoreTotal / activity.pronunciationAttempts
+        : null,
+      mastered: mastered[i],
+    };
+  });
+
+  const forgottenWords = vocabulary
+    .filter(entry => entry.forgottenCount > 0)
+    .sort((a, b) => b.forgottenCount - a.forgottenCount);
+
+  return { days, studyTime, forgottenWords };
+};
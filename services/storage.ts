@@ -0,0 +1,641 @@
+import { Language } from '../i18n/translations';
+import { lemmatize, wordFormsPattern } from './lemmatizer';
+import { DEFAULT_EASE, isMastered } from './spacedRepetition';
+import { CEFR_LEVELS } from './wordLevelService';
+import { Annotation, CefrLevel, ClozeDensity, ClozeSettings, ClozeStrategy, DailyActivity, DictationResult, HintLevel, LLMProvider, PlacementRecord, ReviewGrade, ReviewLogEntry, SentenceCorrection, SentenceFeedback, TextHistoryEntry, TextWordData, VocabularyEntry, VocabularySource, WordMastery, WrittenSentence } from '../types';
+
+// Typed access to everything the app persists in localStorage. Other modules read and
+// write through the items defined here, so every stored value is validated on read and
+// format changes go through a versioned migration instead of ad-hoc JSON.parse calls.
+//
+// Audio lives in IndexedDB instead (see audioCache.ts).
+//
+// public/explore.html is a static page and reads some keys directly (text history,
+// current provider, API keys, placement level). Keep those formats stable.
+
+/** Current schema version. Bump it and add a migration when a stored format changes. */
+export const STORAGE_VERSION = 8;
+const VERSION_KEY = 'philingo_storage_version';
+
+// Returns the (possibly repaired) value, or null if it can't be used
+export type Validator<T> = (value: unknown) => T | null;
+
+export interface StorageItem<T> {
+  key: string;
+  // 'string' values are stored as-is (keys read by explore.html or written before JSON was used)
+  format: 'json' | 'string';
+  validate: Validator<T>;
+}
+
+// ============================================
+// Validators
+// ============================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateString: Validator<string> = value => (typeof value === 'string' ? value : null);
+
+export const validateNumber: Validator<number> = value =>
+  (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+export const validateStringRecord: Validator<Record<string, string>> = value => {
+  if (!isRecord(value)) return null;
+  const result: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry === 'string') result[key] = entry;
+  }
+  return result;
+};
+
+/**
+ * Validate an array, dropping invalid entries instead of rejecting the whole value
+ */
+export const validateArray = <T>(validateEntry: Validator<T>): Validator<T[]> => value => {
+  if (!Array.isArray(value)) return null;
+  return value.map(validateEntry).filter((entry): entry is T => entry !== null);
+};
+
+const stringArray = (value: unknown): string[] => validateArray(validateString)(value) || [];
+const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+export const validateAnnotation: Validator<Annotation> = value => {
+  if (!isRecord(value) || typeof value.definition !== 'string') return null;
+  return {
+    ipa: text(value.ipa),
+    definition: value.definition,
+    definitionEn: text(value.definitionEn),
+    syllables: text(value.syllables),
+    roots: text(value.roots),
+    affixes: text(value.affixes),
+    synonyms: stringArray(value.synonyms),
+    synonymAnalysis: text(value.synonymAnalysis),
+    antonyms: stringArray(value.antonyms),
+    associations: stringArray(value.associations),
+    phrases: stringArray(value.phrases),
+  };
+};
+
+const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+const HINT_LEVELS: HintLevel[] = ['definition', 'ipa', 'length', 'firstLetter'];
+
+const validateHintLevel: Validator<HintLevel> = value =>
+  (HINT_LEVELS.includes(value as HintLevel) ? value as HintLevel : null);
+
+const CLOZE_STRATEGIES: ClozeStrategy[] = ['due', 'everyNth', 'aboveLevel', 'functionWords', 'collocations'];
+const CLOZE_DENSITIES: ClozeDensity[] = ['low', 'medium', 'high'];
+
+const validateClozeSettings: Validator<ClozeSettings> = value => {
+  if (!isRecord(value) || !CLOZE_STRATEGIES.includes(value.strategy as ClozeStrategy)) return null;
+  return {
+    strategy: value.strategy as ClozeStrategy,
+    density: CLOZE_DENSITIES.includes(value.density as ClozeDensity) ? value.density as ClozeDensity : 'medium',
+  };
+};
+
+const validateReviewLogEntry: Validator<ReviewLogEntry> = value => {
+  if (!isRecord(value) || !REVIEW_GRADES.includes(value.grade as ReviewGrade)) return null;
+  const entry: ReviewLogEntry = {
+    reviewedAt: validateNumber(value.reviewedAt) ?? 0,
+    grade: value.grade as ReviewGrade,
+    interval: validateNumber(value.interval) ?? 0,
+  };
+  const hintLevel = validateHintLevel(value.hintLevel);
+  if (hintLevel) entry.hintLevel = hintLevel;
+  return entry;
+};
+
+// Entries written before version 2 have no updatedAt and take their text's timestamp.
+// Entries written before version 4 have no review schedule: their correct answers
+// are treated as SM-2 reviews (1 -> 1 day, 2 or more -> 6 days after the last one).
+const validateWordMastery = (defaultUpdatedAt: number): Validator<WordMastery> => value => {
+  if (!isRecord(value) || typeof value.word !== 'string') return null;
+  const annotation = validateAnnotation(value.annotation);
+  if (!annotation) return null;
+  const correctCount = validateNumber(value.correctCount) ?? 0;
+  const updatedAt = validateNumber(value.updatedAt) ?? defaultUpdatedAt;
+  const lastCorrect = validateNumber(value.lastCorrect);
+  const interval = validateNumber(value.interval) ?? (correctCount === 0 ? 0 : correctCount === 1 ? 1 : 6);
+  const entry: WordMastery = {
+    word: value.word.toLowerCase(),
+    annotation,
+    correctCount,
+    ease: validateNumber(value.ease) ?? DEFAULT_EASE,
+    interval,
+    dueAt: validateNumber(value.dueAt) ?? (lastCorrect ?? updatedAt) + interval * 24 * 60 * 60 * 1000,
+    reviews: validateArray(validateReviewLogEntry)(value.reviews) || [],
+    updatedAt,
+  };
+  if (lastCorrect !== null) entry.lastCorrect = lastCorrect;
+  return entry;
+};
+
+export const validateTextWordData: Validator<TextWordData> = value => {
+  if (!isRecord(value) || typeof value.textHash !== 'string') return null;
+  const updatedAt = validateNumber(value.updatedAt) ?? Date.now();
+  return {
+    textHash: value.textHash,
+    words: validateArray(validateWordMastery(updatedAt))(value.words) || [],
+    updatedAt,
+  };
+};
+
+export const validateTextHistoryEntry: Validator<TextHistoryEntry> = value => {
+  if (!isRecord(value) || typeof value.text !== 'string') return null;
+  return {
+    text: value.text,
+    timestamp: validateNumber(value.timestamp) ?? 0,
+    preview: typeof value.preview === 'string' ? value.preview : value.text.substring(0, 100),
+  };
+};
+
+const validateVocabularySource: Validator<VocabularySource> = value => {
+  if (!isRecord(value) || typeof value.textHash !== 'string') return null;
+  return {
+    textHash: value.textHash,
+    preview: text(value.preview),
+    context: text(value.context),
+    addedAt: validateNumber(value.addedAt) ?? 0,
+  };
+};
+
+const validateSentenceCorrection: Validator<SentenceCorrection> = value => {
+  if (!isRecord(value) || typeof value.original !== 'string' || typeof value.corrected !== 'string') return null;
+  return { original: value.original, corrected: value.corrected, explanation: text(value.explanation) };
+};
+
+export const validateSentenceFeedback: Validator<SentenceFeedback> = value => {
+  if (!isRecord(value)) return null;
+  const correctness = validateNumber(value.correctness);
+  const naturalness = validateNumber(value.naturalness);
+  if (correctness === null || naturalness === null) return null;
+  return {
+    correctness: Math.max(0, Math.min(100, correctness)),
+    naturalness: Math.max(0, Math.min(100, naturalness)),
+    senseMatches: value.senseMatches === true,
+    correctedSentence: text(value.correctedSentence),
+    corrections: validateArray(validateSentenceCorrection)(value.corrections) || [],
+    explanation: text(value.explanation),
+  };
+};
+
+const validateWrittenSentence: Validator<WrittenSentence> = value => {
+  if (!isRecord(value) || typeof value.sentence !== 'string') return null;
+  const feedback = validateSentenceFeedback(value.feedback);
+  if (!feedback) return null;
+  return { sentence: value.sentence, writtenAt: validateNumber(value.writtenAt) ?? 0, feedback };
+};
+
+export const validateVocabularyEntry: Validator<VocabularyEntry> = value => {
+  const entry = validateWordMastery(Date.now())(value);
+  if (!entry || !isRecord(value)) return null;
+  const forms = validateArray(validateString)(value.forms) || [];
+  return {
+    ...entry,
+    forms: forms.length > 0 ? forms.map(form => form.toLowerCase()) : [entry.word],
+    addedAt: validateNumber(value.addedAt) ?? entry.updatedAt,
+    sources: validateArray(validateVocabularySource)(value.sources) || [],
+    forgottenCount: validateNumber(value.forgottenCount) ?? 0,
+    writtenSentences: validateArray(validateWrittenSentence)(value.writtenSentences) || [],
+  };
+};
+
+const validateNumberRecord = (value: unknown): Record<string, number> => {
+  const result: Record<string, number> = {};
+  if (!isRecord(value)) return result;
+  for (const [key, entry] of Object.entries(value)) {
+    const number = validateNumber(entry);
+    if (number !== null) result[key] = number;
+  }
+  return result;
+};
+
+const validateDailyActivity: Validator<DailyActivity> = value => {
+  if (!isRecord(value)) return null;
+  return {
+    lookups: validateNumber(value.lookups) ?? 0,
+    pronunciationAttempts: validateNumber(value.pronunciationAttempts) ?? 0,
+    pronunciationScoreTotal: validateNumber(value.pronunciationScoreTotal) ?? 0,
+    studyTime: validateNumberRecord(value.studyTime),
+  };
+};
+
+// Daily activity keyed by local date (YYYY-MM-DD)
+const validateActivityLog: Validator<Record<string, DailyActivity>> = value => {
+  if (!isRecord(value)) return null;
+  const result: Record<string, DailyActivity> = {};
+  for (const [date, entry] of Object.entries(value)) {
+    const day = /^\d{4}-\d{2}-\d{2}$/.test(date) ? validateDailyActivity(entry) : null;
+    if (day) result[date] = day;
+  }
+  return result;
+};
+
+const validateDictationResult: Validator<DictationResult> = value => {
+  if (!isRecord(value) || typeof value.sentence !== 'string') return null;
+  const lastScore = validateNumber(value.lastScore) ?? 0;
+  return {
+    sentence: value.sentence,
+    attempts: validateNumber(value.attempts) ?? 1,
+    bestScore: validateNumber(value.bestScore) ?? lastScore,
+    lastScore,
+    lastAttemptAt: validateNumber(value.lastAttemptAt) ?? 0,
+  };
+};
+
+// Dictation results keyed by sentence hash
+const validateDictationResults: Validator<Record<string, DictationResult>> = value => {
+  if (!isRecord(value)) return null;
+  const result: Record<string, DictationResult> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const validated = validateDictationResult(entry);
+    if (validated) result[key] = validated;
+  }
+  return result;
+};
+
+const validateLanguage: Validator<Language> = value =>
+  (value === 'zh' || value === 'ja' || value === 'vi' ? value : null);
+
+const validatePlacementRecord: Validator<PlacementRecord> = value => {
+  if (!isRecord(value) || !CEFR_LEVELS.includes(value.level as CefrLevel)) return null;
+  return {
+    level: value.level as CefrLevel,
+    vocabularySize: validateNumber(value.vocabularySize) ?? 0,
+    takenAt: validateNumber(value.takenAt) ?? 0,
+  };
+};
+
+// ============================================
+// Items
+// ============================================
+
+/**
+ * Define a JSON item (used by caches whose keys are built at runtime)
+ */
+export const jsonItem = <T>(key: string, validate: Validator<T>): StorageItem<T> => ({ key, format: 'json', validate });
+
+const stringItem = (key: string): StorageItem<string> => ({ key, format: 'string', validate: validateString });
+
+export const inputTextItem = stringItem('vocabflow_input_text');
+export const textHistoryItem = jsonItem('philingo_text_history', validateArray(validateTextHistoryEntry));
+export const languageItem: StorageItem<Language> = { key: 'philingo_language', format: 'string', validate: validateLanguage };
+
+// Provider settings (see providerSettings.ts)
+export const apiKeyItem = (provider: LLMProvider) => stringItem(`philingo_api_key_${provider}`);
+// Single provider used before per-capability routing (still read by explore.html)
+export const currentProviderItem = stringItem('philingo_current_provider');
+export const providerRoutingItem = jsonItem('philingo_provider_routing', validateStringRecord);
+export const voiceItem = (provider: LLMProvider) => stringItem(`philingo_${provider}_voice`);
+export const customProviderSettingsItem = jsonItem('philingo_custom_provider_settings', validateStringRecord);
+
+export const audioCacheBudgetItem = jsonItem('philingo_audio_cache_budget', validateNumber);
+
+// Hints each writing mode blank starts with (see WritingMode.tsx)
+export const writingHintLevelItem: StorageItem<HintLevel> = { key: 'philingo_writing_hint_level', format: 'string', validate: validateHintLevel };
+// Which words writing mode blanks, and how many (see clozeGenerator.ts)
+export const clozeSettingsItem = jsonItem('philingo_cloze_settings', validateClozeSettings);
+
+// Index of a cache kept in localStorage: one entry per stored key, least recently used first
+export interface CacheIndexEntry {
+  key: string;
+  timestamp: number;
+}
+
+const validateCacheIndexEntry: Validator<CacheIndexEntry> = value => {
+  if (!isRecord(value) || typeof value.key !== 'string') return null;
+  return { key: value.key, timestamp: validateNumber(value.timestamp) ?? 0 };
+};
+
+export const cacheIndexItem = (key: string) => jsonItem(key, validateArray(validateCacheIndexEntry));
+
+// Global vocabulary notebook, one entry per word (see wordMasteryService.ts)
+export const vocabularyItem = jsonItem('philingo_vocabulary', validateArray(validateVocabularyEntry));
+
+// Lemmas the learner already knows (see knownWordsService.ts)
+export const knownWordsItem = jsonItem('philingo_known_words', validateArray(validateString));
+
+// Latest placement test result; its level is the default for text generation (see placementTest.ts)
+export const placementItem = jsonItem('philingo_placement', validatePlacementRecord);
+
+// Lookups, pronunciation scores and study time per day (see statsService.ts)
+export const activityItem = jsonItem('philingo_activity', validateActivityLog);
+
+export const emptyDailyActivity = (): DailyActivity =>
+  ({ lookups: 0, pronunciationAttempts: 0, pronunciationScoreTotal: 0, studyTime: {} });
+
+// Results of dictated sentences, keyed by hashText of the sentence (see dictationService.ts)
+export const dictationItem = jsonItem('philingo_dictation', validateDictationResults);
+
+// Looked-up words per text, replaced by the vocabulary in version 3 (only read by that migration)
+const WORD_DATA_PREFIX = 'vocabflow_words_';
+const wordDataItem = (textHash: string) => jsonItem(WORD_DATA_PREFIX + textHash, validateTextWordData);
+
+/**
+ * Hash identifying a text (vocabulary sources, old per-text word data)
+ */
+export const hashText = (value: string): string => {
+  let hash = 0;
+  const str = value.trim();
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(36);
+};
+
+/**
+ * Local date of a timestamp (YYYY-MM-DD), the key of the activity log
+ */
+export const toDateKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Maximum number of source texts remembered per vocabulary word
+export const MAX_VOCABULARY_SOURCES = 20;
+export const MAX_WRITTEN_SENTENCES = 10;
+
+/**
+ * Combine two entries for the same word: progress and annotation come from whichever
+ * changed last, sources (one per text) and written sentences are joined, most recent first.
+ */
+export const mergeVocabularyEntries = (a: VocabularyEntry, b: VocabularyEntry): VocabularyEntry => {
+  const newer = b.updatedAt > a.updatedAt ? b : a;
+  const sources = new Map<string, VocabularySource>();
+  for (const source of [...a.sources, ...b.sources].sort((x, y) => y.addedAt - x.addedAt)) {
+    if (!sources.has(source.textHash)) sources.set(source.textHash, source);
+  }
+  return {
+    ...newer,
+    forms: [...new Set([...a.forms, ...b.forms])],
+    addedAt: Math.min(a.addedAt, b.addedAt),
+    sources: [...sources.values()].slice(0, MAX_VOCABULARY_SOURCES),
+    forgottenCount: Math.max(a.forgottenCount, b.forgottenCount),
+    writtenSentences: [...new Map([...a.writtenSentences, ...b.writtenSentences].map(s => [s.writtenAt, s])).values()]
+      .sort((x, y) => y.writtenAt - x.writtenAt)
+      .slice(0, MAX_WRITTEN_SENTENCES),
+  };
+};
+
+/**
+ * Convert per-text word data (storage version 2 and older backups) to vocabulary entries.
+ * The text itself is only known if it is still in the practice history.
+ */
+export const wordDataToEntries = (data: TextWordData, sourceText?: string): VocabularyEntry[] =>
+  data.words.map(word => ({
+    ...word,
+    word: lemmatize(word.word),
+    forms: [word.word],
+    addedAt: word.updatedAt,
+    sources: [{
+      textHash: data.textHash,
+      preview: sourceText ? sourceText.substring(0, 100) : '',
+      context: sourceText ? findSentence(sourceText, word.word) : '',
+      addedAt: word.updatedAt,
+    }],
+    forgottenCount: 0,
+    writtenSentences: [],
+  }));
+
+// First sentence of a text containing the word (whole word, any case)
+function findSentence(source: string, word: string): string {
+  const pattern = wordFormsPattern([word], 'i');
+  const sentence = source.split(/(?<=[.?!])\s+/).find(s => pattern.test(s));
+  return sentence?.trim() ?? '';
+}
+
+// ============================================
+// Read / write
+// ============================================
+
+/**
+ * Read and validate an item. Missing, unparsable or invalid values read as null.
+ */
+export const readItem = <T>(item: StorageItem<T>): T | null => {
+  let raw: string | null;
+  try {
+    raw = localStorage.getItem(item.key);
+  } catch (e) {
+    console.warn(`Failed to read "${item.key}" from storage:`, e);
+    return null;
+  }
+  if (raw === null) return null;
+
+  try {
+    const value = item.format === 'json' ? JSON.parse(raw) : raw;
+    const validated = item.validate(value);
+    if (validated === null) {
+      console.warn(`Ignoring invalid stored value for "${item.key}"`);
+    }
+    return validated;
+  } catch (e) {
+    console.warn(`Ignoring unparsable stored value for "${item.key}":`, e);
+    return null;
+  }
+};
+
+/**
+ * Write an item. Returns false if storage is unavailable or full.
+ */
+export const writeItem = <T>(item: StorageItem<T>, value: T): boolean => {
+  try {
+    const raw = item.format === 'json' ? JSON.stringify(value) : String(value);
+    localStorage.setItem(item.key, raw);
+    return true;
+  } catch (e) {
+    console.warn(`Failed to save "${item.key}" to storage (quota exceeded?):`, e);
+    return false;
+  }
+};
+
+export const removeItem = (item: StorageItem<unknown>): void => {
+  removeKey(item.key);
+};
+
+/**
+ * Remove a key directly (e.g. cache entries listed in an index)
+ */
+export const removeKey = (key: string): void => {
+  try {
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.warn(`Failed to remove "${key}" from storage:`, e);
+  }
+};
+
+/**
+ * Remove every entry listed in a cache index, then the index itself
+ */
+export const removeIndexedCache = (indexKey: string): void => {
+  const item = cacheIndexItem(indexKey);
+  (readItem(item) || []).forEach(entry => removeKey(entry.key));
+  removeItem(item);
+};
+
+/**
+ * All stored keys starting with a prefix
+ */
+export const listKeys = (prefix: string): string[] => {
+  const keys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+  } catch (e) {
+    console.warn("Failed to list storage keys:", e);
+  }
+  return keys;
+};
+
+// ============================================
+// Migrations
+// ============================================
+
+// Re-save every text's word data through validation
+function rewriteWordData(): void {
+  for (const key of listKeys(WORD_DATA_PREFIX)) {
+    const item = wordDataItem(key.slice(WORD_DATA_PREFIX.length));
+    const data = readItem(item);
+    if (data) writeItem(item, data);
+    else removeItem(item);
+  }
+}
+
+// Fold every text's word data into the global vocabulary and drop the per-text keys
+function migrateWordDataToVocabulary(): void {
+  const texts = new Map((readItem(textHistoryItem) || []).map(entry => [hashText(entry.text), entry.text]));
+  const currentText = readItem(inputTextItem);
+  if (currentText) texts.set(hashText(currentText), currentText);
+
+  const vocabulary = new Map((readItem(vocabularyItem) || []).map(entry => [entry.word, entry]));
+  const keys = listKeys(WORD_DATA_PREFIX);
+  for (const key of keys) {
+    const data = readItem(wordDataItem(key.slice(WORD_DATA_PREFIX.length)));
+    if (!data) continue;
+    for (const entry of wordDataToEntries(data, texts.get(data.textHash))) {
+      const existing = vocabulary.get(entry.word);
+      vocabulary.set(entry.word, existing ? mergeVocabularyEntries(existing, entry) : entry);
+    }
+  }
+
+  // Keep the old keys if the vocabulary couldn't be saved, so the migration can be retried
+  if (!writeItem(vocabularyItem, [...vocabulary.values()])) {
+    throw new Error("Failed to save vocabulary");
+  }
+  keys.forEach(removeKey);
+}
+
+// Key vocabulary entries by lemma, merging entries of forms of the same word
+function lemmatizeVocabulary(): void {
+  const entries = readItem(vocabularyItem);
+  if (!entries) return;
+
+  const vocabulary = new Map<string, VocabularyEntry>();
+  for (const entry of entries) {
+    const lemma = lemmatize(entry.word);
+    const keyed = { ...entry, word: lemma, forms: [...new Set([...entry.forms, entry.word])] };
+    const existing = vocabulary.get(lemma);
+    vocabulary.set(lemma, existing ? mergeVocabularyEntries(existing, keyed) : keyed);
+  }
+  writeItem(vocabularyItem, [...vocabulary.values()]);
+}
+
+// Start the activity log with the lookups the vocabulary remembers (one per word and text)
+function backfillLookups(): void {
+  const vocabulary = readItem(vocabularyItem);
+  if (!vocabulary) return;
+
+  const activity = readItem(activityItem) || {};
+  for (const source of vocabulary.flatMap(entry => entry.sources)) {
+    if (source.addedAt <= 0) continue;
+    const date = toDateKey(source.addedAt);
+    activity[date] ??= emptyDailyActivity();
+    activity[date].lookups++;
+  }
+  writeItem(activityItem, activity);
+  writeItem(vocabularyItem, vocabulary);
+}
+
+// MIGRATIONS[n] upgrades data from version n - 1 to n. Version 0 is data written before versioning.
+const MIGRATIONS: Record<number, () => void> = {
+  // Validate existing data once, dropping corrupted entries and filling missing fields
+  1: () => {
+    const history = readItem(textHistoryItem);
+    if (history) writeItem(textHistoryItem, history);
+    else removeItem(textHistoryItem);
+
+    rewriteWordData();
+  },
+  // WordMastery.updatedAt added (filled in by validation)
+  2: () => {
+    rewriteWordData();
+  },
+  // Per-text word data replaced by the global vocabulary
+  3: () => {
+    migrateWordDataToVocabulary();
+  },
+  // Review schedule (ease, interval, due date, review log) added (filled in by validation)
+  4: () => {
+    const vocabulary = readItem(vocabularyItem);
+    if (vocabulary) writeItem(vocabularyItem, vocabulary);
+  },
+  // Vocabulary keyed by lemma, with the forms looked up
+  5: () => {
+    lemmatizeVocabulary();
+  },
+  // Known words added, seeded with the mastered vocabulary
+  6: () => {
+    const mastered = (readItem(vocabularyItem) || []).filter(isMastered).map(entry => entry.word);
+    if (mastered.length > 0) writeItem(knownWordsItem, mastered);
+  },
+  // Activity log added; VocabularyEntry.forgottenCount added (filled in by validation)
+  7: () => {
+    backfillLookups();
+  },
+  // VocabularyEntry.writtenSentences added (filled in by validation)
+  8: () => {
+    const vocabulary = readItem(vocabularyItem);
+    if (vocabulary) writeItem(vocabularyItem, vocabulary);
+  },
+};
+
+/**
+ * Bring stored data up to STORAGE_VERSION. Call once before the app renders.
+ */
+export const runMigrations = (): void => {
+  let version: number;
+  try {
+    version = Number(localStorage.getItem(VERSION_KEY)) || 0;
+  } catch (e) {
+    console.warn("Storage unavailable, skipping migrations:", e);
+    return;
+  }
+
+  if (version > STORAGE_VERSION) {
+    // Written by a newer version of the app: leave it alone rather than downgrade
+    console.warn(`Stored data is version ${version}, newer than supported version ${STORAGE_VERSION}`);
+    return;
+  }
+
+  while (version < STORAGE_VERSION) {
+    const next = version + 1;
+    try {
+      MIGRATIONS[next]?.();
+    } catch (e) {
+      // Stop here so the failed step is retried on the next load
+      console.error(`Storage migration to version ${next} failed:`, e);
+      return;
+    }
+    version = next;
+    try {
+      localStorage.setItem(VERSION_KEY, String(version));
+    } catch (e) {
+      console.warn("Failed to save storage version:", e);
+      return;
+    }
+  }
+};
@@ -0,0 +1,455 @@
+import { CefrLevel } from '../types';
+
+// Offline CEFR word list (lemmas, lowercase), compiled from common learner word lists.
+// Within each level words are ordered roughly from most to least frequent, so a word's
+// position in the whole list doubles as an approximate frequency rank.
+//
+// Only loaded through wordLevelService.ts (dynamic import), so it is split out of the main bundle.
+
+export const WORD_LEVEL_DATA: Record<Exclude<CefrLevel, 'C2'>, string> = {
+  A1: `
+the be and of a to in have it you he for they not that we on with this i do as at she
+but from by will or say go so all if one would about can which there know more get who
+like when think make time see what up some other out good people year take no well because
+very just come could work use than now then also into only look want give first new way
+find over any after day where thing most should need much right how back mean even may here
+many such last child tell really call before life still feel man off down place old great
+home yes week school woman let name ask house world long family every help country play put
+home hand seem show try keep end talk eat big small little love live begin today friend book
+water money night morning evening car bus train city town street room door window table chair
+bed food drink coffee tea milk bread apple egg fish meat rice cake breakfast lunch dinner
+shop buy sell pay price cheap expensive open close start stop walk run sit stand sleep wake
+read write listen speak hear watch learn study teach class student teacher lesson word
+sentence question answer easy difficult hard happy sad tired hungry thirsty hot cold warm
+nice beautiful bad fine sorry please thank hello goodbye mother father brother sister son
+daughter husband wife baby boy girl parent grandmother grandfather uncle aunt cousin
+monday tuesday wednesday thursday friday saturday sunday weekend month january february march
+april june july august september october november december spring summer autumn winter
+weather rain snow sun wind cloud sky colour color red blue green yellow black white brown
+orange pink grey gray number two three four five six seven eight nine ten hundred thousand
+first second third half hour minute clock today tomorrow yesterday tonight always usually often
+sometimes never again early late soon ago every each both other another same different
+body head face eye ear nose mouth hair arm leg foot back heart doctor hospital ill sick
+animal dog cat horse cow bird tree flower garden park beach sea river mountain lake country
+job office factory shop restaurant hotel cinema museum library bank station airport
+phone computer email letter photo picture music song film movie game sport football tennis
+swim dance sing cook clean wash wear clothes shirt dress shoe hat coat bag key ticket
+kitchen bathroom bedroom floor wall flat apartment address map left right near far here there
+next between under above behind front inside outside top bottom middle
+question problem idea example fact story news party holiday trip travel visit
+like want need know understand remember forget think hope wait meet leave arrive return
+bring carry send get put take make do have can must
+young new old tall short long fast slow quick loud quiet full empty clean dirty
+favourite favorite best better more most less least much many few lot
+yes no ok okay maybe really very too also only just still already yet
+who what where when why how which whose whom
+because but and or so if than then
+boy girl man woman person people child baby friend
+student pupil classmate neighbour neighbor
+`,
+  A2: `
+able accept accident across act action activity actor actress add adult adventure advice
+afraid afternoon against age agree air alone along already although amazing among amount
+angry answer anything anyone anywhere appear area arm army around art article artist
+attention aunt autumn available away awful background bake balance ball band bar basket
+bath battery beach bear beat become bell belong below belt bicycle bike bill bit blood
+board boat boil bone border bored boring born borrow boss bottle box brain branch brave
+break bridge bright broken brush build building burn business busy butter button cafe
+calendar camera camp can captain card care careful carpet case castle catch cause celebrate
+centre center certain chance change channel chat cheap check cheese chicken choice choose
+church circle classical clear climb close cloth club coast collect college comfortable
+comment common company compare competition complete concert condition contact continue
+conversation cook cool copy corner correct cost cotton count couple course cover crazy
+cream create credit crime cross crowd cry culture cup curtain customer cut cycle damage
+danger dangerous dark date dead deal dear decide decision deep degree dentist department
+describe desert design desk detail dictionary die diet difference dinner direction dirty
+discover discuss disease dish distance double download draw dream drive driver drop dry
+during duty each ear earn earth east edge education effect either electric electricity
+else elephant empty end energy engine engineer enjoy enough enter entrance environment
+equipment escape especially even event ever everybody everyone everything everywhere exam
+excellent except exchange excited exciting exercise exist exit expect experience experiment
+expert explain explore express extra fail fair fall false famous fan fashion fat fear
+feature feed feeling festival field fight fill final finally finger finish fire fit fix
+flag flight float floor fly focus fold follow foreign forest form forward free freeze
+fresh fridge frighten fruit fun funny furniture future gallery gap gas gate general gift
+glad glass goal god gold golf grade grass ground group grow guess guest guide guitar gun
+gym habit hall hang happen hate health healthy heat heavy height helpful hero hide high
+hill hire history hit hobby hold hole hope horrible host hurry hurt ice identity ill
+imagine important improve include information injure insect instead instruction instrument
+interest interested interesting internet interview introduce invent invitation invite
+island item jacket jam jeans jewellery join joke journey juice jump kid kill kind king
+kiss knee knife knock lady lamp land language laptop large laugh law lay lazy lead leader
+leaf lend lesson level lie lift light line lion list litre local lock lonely lose loud
+lovely low luck lucky machine magazine main make manage manager market marry match matter
+meal meaning measure medicine medium member memory mention menu message metal method
+middle might mile mind mirror miss mistake mix model modern moment monkey moon motorbike
+mouse move movement museum nation natural nature navy nearly neck negative nervous net
+network noise noisy none normal north note notice novel nurse object ocean offer officer
+online onto opinion opportunity order ordinary organise organize original own owner pack
+page pain paint pair palace pan paper parking part partner pass passenger passport past
+path patient pattern peace pen pencil percent perfect perform perhaps period permission
+personal pet physical piano pick piece pilot pink pity plan plane planet plant plastic
+plate platform pleasant pleased plenty pocket poem poet point police polite pool poor
+popular population position positive possible post pot potato pound powerful practice
+practise prefer prepare present president press pretty prevent print prison private prize
+probably produce product professional programme program project promise protect proud
+provide public pull punish pupil purple purpose push quarter queen quickly quite race
+radio railway raise rather reach ready real reason receive recent recently recipe record
+recycle reduce relax religion remove rent repair repeat reply report rest result rich
+ride ring rise road rock role roof round route row rubbish rule sail salad salt sand save
+scared scary science scientist score screen search season seat secret section secure
+seem sense separate serious serve service set several shake shape share sharp shelf shine
+ship shock shoot shopping shore shout shower shut shy side sign signal silence silly
+silver similar simple since single sink site situation size skill skin skirt slice slowly
+smart smell smile smoke snake social sock soft soldier solve somebody somehow someone
+something somewhere soon sound soup south space special speed spell spend spoon spot
+square staff stage stair star state stay steal step stick stomach stone store storm
+straight strange stranger stress strong student stuff subject succeed success suddenly
+sugar suggest suit suitcase sunny supermarket support sure surprise surprised sweater
+sweet symbol system tail talent task taste taxi team technology teenager temperature tent
+term terrible test text theatre theater thick thin thought throat throw tidy tie till
+tiny tip title toe toilet tooth topic total touch tour tourist towel tower toy track
+tradition traffic tram transport treat trouble trousers truck true trust truth turn twice
+type typical ugly umbrella unfortunately uniform unit university unusual upset upstairs use
+useful usual vegetable view village violent voice vote wait waiter wake wall wallet war
+warn waste wave weak wedding weigh weight welcome west wet wheel whole wide wild win
+wing winner wish within without wonder wonderful wood wool worker worry worse wrong yard
+yet zero zone
+`,
+  B1: `
+absolutely academic access accommodation account accurate achieve achievement actual
+actually ad adapt addition additional admire admit advance advanced advantage advert
+advertise advertisement affect afford agency agent aggressive aim alarm album alive
+allow alternative amaze ambition ambulance ancient ankle announce announcement annoy
+annual anxious apart apologize apologise apparently appeal appearance application apply
+appointment appreciate approach appropriate approve approximately architect architecture
+argue argument arrange arrangement arrest arrival aspect assistant atmosphere attach
+attack attempt attend attitude attract attractive audience author automatic average avoid
+award aware awareness background backwards bake balance ban bargain base basic basically
+basis battle beauty behave behaviour behavior belief believe benefit bet beyond biology
+bit bite blame blind block blog bomb bond book booking boot border bother bottom bowl
+brand breath breathe brief brilliant broadcast budget bullet bunch burst bury cabin calm
+campaign campus cancel cancer candidate capable capital career carefully cash category
+ceiling celebration celebrity cell central century ceremony chain challenge champion
+championship character charge charity chart cheat chemical chemistry chest chief childhood
+chip chocolate citizen civil claim classic classroom clever client climate clinic closely
+coach code coin collection colleague combination combine comedy comfort command commercial
+commit committee communicate communication community comparison competitor complain
+complaint completely complex complicated concentrate concern concerned conclusion confidence
+confident confirm confuse confused confusing connect connection conscious consider
+consist constant construct construction consume consumer contain container content contest
+context continent contract contrast contribute control convenient convince cope correctly
+costume cottage cough council courage court crash creative creature crew criminal
+critic criticism criticize criticise crop crowded cruel cultural cure curious currency
+current currently curve cycling daily damage dare data database deadline deaf debate
+decade decline decorate decrease definitely definition deliver delivery demand demonstrate
+deny depend deposit depressed depth deserve desire despite destination destroy
+destruction detailed detective determine determined develop development device diagram
+diamond differ digital dinosaur direct directly director disadvantage disagree disappear
+disappoint disappointed disappointing disaster discount discovery discussion dislike
+display distant divide division document documentary domestic dot doubt downstairs dozen
+drama dramatic drawing drug due dust earthquake easily economic economy edit edition
+editor educate educational effective efficient effort elderly elect election element
+elsewhere embarrassed embarrassing emergency emotion emotional employ employee employer
+employment enable encourage enemy engage engineering enormous ensure entertain entertainment
+enthusiastic entire entirely entry envelope episode equal equally error essay essential
+establish estimate ethnic evaluate eventually evidence evil exact exactly examine excuse
+exhibition expand expectation expedition expense experienced explanation explosion export
+expression extend extraordinary extreme extremely facility factor fairly faith familiar
+fan fancy fantastic fare farm farming fault fee fellow female fiction figure file
+final finance financial firm fitness flat flavour flavor flood flow flu fluent fog
+folk fool forecast forever forgive formal former fortunately fortune found freedom
+frequent frequently friendship frightened frightening fuel fully fund fundamental
+funeral fur gain gallery gang garage generally generation generous gentle gentleman
+genuine ghost giant glance global glove goods government graduate grand grant graphic
+grateful grave greatly greet growth guarantee guard guilty hall handle harm harmful
+headline heal heating heaven highlight hilarious historic historical hole honest honour
+honor hook horror hug huge human humour humor hunt hunting hurricane ideal identify
+ignore illegal illness image imagination immediate immediately impact import impress
+impressed impression impressive incident income increase incredible indeed independent
+indicate individual indoor industry inform initial injury innocent insist inspire
+install instance institute insurance intelligent intend intention international
+interrupt invest investigate investigation investment invisible involve issue jail
+joint journalist judge judgement jungle junior justice justify keen label laboratory
+lack landscape largely last laughter launch layer lecture legal leisure length license
+licence lifestyle likely limit link liquid literature live load loan location logical
+loose lorry loss loyal luxury mad mainly maintain major majority male mall manner
+manufacture mark married mass massive master material mathematics maximum mayor meanwhile
+media medical meeting melt mental mess mild military mineral minimum minister minor
+minority mission mixture mobile mood moral mostly motivate motivation motor mountain
+murder muscle mystery narrow nationality native naturally navigate nearby neat necessarily
+necessary negotiate neighbourhood neighborhood neither nephew nest newspaper niece nightlife
+nightmare nobody nod nonsense nor norm notebook nuclear numerous nut obey obvious obviously
+occasion occasionally occupy occur odd offence offense official operate operation
+opponent oppose opposite option orchestra organisation organization origin otherwise
+outdoor outdoors outline output outstanding overall overseas owe pace package pale pan
+panel parade participant participate particular particularly partly passion passionate
+patience pause payment penalty per percentage permanent persuade phase phenomenon
+philosophy photograph photographer phrase physics pile pill pin pitch plain planning
+pleasure plot poetry poison political politician politics pollution portrait possess
+possession possibility possibly potential poverty powder practical praise precise predict
+prediction pregnant preparation presence presentation preserve press pressure previous
+previously priest primary prince princess principal principle printer priority prison
+prisoner privacy probable procedure proceed process producer production profession
+professor profit progress prominent proof proper properly property proposal propose
+prospect protection protest prove publish punishment purchase pursue qualification
+qualify quality quantity quarter quote racing range rank rare rarely rate raw reaction
+reader reality realise realize realistic reasonable recall receipt reception recognise
+recognize recommend recommendation recover reference reflect refuse regard region regular
+regularly reject relate relation relationship relative relatively release relevant
+reliable relief religious rely remain remark remarkable remind remote repeat replace
+represent representative request require requirement research reservation reserve resident
+resist resolve resort resource respect respond response responsibility responsible
+restore restrict restriction retire retirement reveal revenue review revolution reward
+rhythm rid risk rival robot romance romantic rope rough roughly routine royal rude ruin
+rural rush sack sadly safety sailor salary sale satellite satisfy scale scene schedule
+scheme scholarship sculpture seal secondary secretary security seek select selection
+senior sensible sentence sequence series settle severe sex shade shadow shame shelter
+shift shock shortly shot sight significant silent similarity sincerely skilled slave
+slide slightly slope smooth soap society software solar solid solution somewhat sort
+source spare speaker species specific spectator speech spicy spirit split sponsor spread
+stable stadium standard statement statistic status steady steel steep stir stock
+strategy stream strength stretch strict strike string struggle studio style submit
+substance suburb suffer sufficient suicide summary sunshine superb supply surface surgery
+survey survive suspect swing tackle tap target tax tear technical technique teen tend
+tension theme theory therapy therefore thief thinking thoroughly threat threaten thus
+tight tin tiring tissue tone tongue tool tough tournament trace trade trader trail
+transfer translate translation transportation trap treatment trend trial trick trip
+tropical trunk tune twin ultimately unable unemployment unexpected unfair union unique
+unite universe unknown unless unlike unlikely update upper urban urgent used user
+vacation valley valuable value variety various vary vast vehicle version victim victory
+virtual virus visible vision visual vital volume volunteer wage wander warning wealth
+wealthy weapon web website weird whatever whenever wherever whisper whistle wildlife
+willing wine wire wise witness workshop worth wound wrap yell youth
+`,
+  B2: `
+abandon abroad absence absent absolute absorb abstract abuse academy accent acceptable
+accidentally accompany accomplish accordance accordingly accountant accumulate accusation
+accuse acid acknowledge acquire acquisition adequate adjust administration administrative
+adopt adoption advocate aesthetic affair affection aftermath agenda agriculture aid
+aircraft airline alcohol alert alien align alliance allocate allowance ally alter
+ambiguous amendment analogy analyse analyze analysis analyst anchor angle anniversary
+anticipate anxiety apparent appetite applause applicant arbitrary arena arise array
+artificial assault assemble assembly assert assess assessment asset assign assignment
+assist assistance associate association assume assumption assure astonishing asylum
+athlete attribute auction authentic authority authorize authorise autonomy aware awkward
+backup badge ballet bankrupt barely barrier beam behalf bias bid bind biography blade
+blank blanket bless blend boast bold boom boost bounce boundary bow breed brick brilliant
+broad broadband brutal bubble bulk burden bureau cable calculate calculation canal
+capability capacity capture carbon cargo carve casual catalogue catalog cater caution
+cautious cease chamber chaos characteristic charm charter chase cheek chronic circuit
+circulate circumstance cite civilian clarify clash classify clause clay cling clinical
+closure cluster coalition code cognitive coincidence collapse collective colonial column
+combat comic commence commentary commentator commission commitment commodity companion
+comparable compassion compatible compel compensate compensation compete competence
+competent compile complement comply component compose composer composition compound
+comprehensive comprise compromise compulsory conceal concede conceive concentration
+concept conception concrete condemn conduct confer confess confession confine conflict
+confront confrontation congress consciousness consecutive consensus consent consequence
+consequently conservation conservative considerable consistent consistently conspiracy
+constitute constitution constraint consult consultant consultation contemporary
+contempt contend contradiction controversial controversy convention conventional
+conversion convert conviction cooperate cooperation coordinate cope copyright core
+corporate correlation correspond correspondent corridor corrupt corruption counter
+counterpart coverage crack craft crawl credibility creep crisis criterion crucial crush
+cue cultivate curriculum custody cute cynical dairy damn dawn debris debt decent deceive
+declaration declare dedicate dedication deed default defeat defect defence defense
+defend defendant deficit define definite delegate delegation delete deliberate
+deliberately delicate delight democracy democratic demonstration denial density deploy
+deprive deputy derive descend descent designate despair desperate desperately detect
+detention deteriorate devastate devote diagnose diagnosis dialogue differentiate dignity
+dilemma dimension diminish diplomat diplomatic disability disabled disagreement
+disappointment discipline disclose discourse discrimination dismiss disorder dispute
+disrupt distinct distinction distinctive distinguish distort distract distress distribute
+distribution district disturb diverse diversity divine divorce doctrine dominance
+dominant dominate donate donation donor dose draft drag drain dramatically drift drill
+drown dual dub dull dump duration dynamic eager echo ecological ecology efficiency
+elaborate elbow electoral elegant eliminate elite embark embarrassment embassy embrace
+emerge emergence emission empathy emphasis emphasize emphasise empire empirical
+enact encounter endanger endeavour endeavor endless endorse endure enforce enforcement
+enhance enormous enquiry enrich enrol enroll enterprise entity entitle entrepreneur
+envy epidemic equality equation equip equivalent era erect erupt escalate essence
+ethic ethical evacuate evident evolution evolve exaggerate exceed exception exceptional
+excess excessive exclude exclusive execute execution executive exemplify exert exhaust
+exhausted exile exotic expansion expenditure expertise expire explicit exploit
+exploitation exposure extension extensive extent external extract facilitate faculty
+fade faint fame fascinate fatal fate feast federal feedback fierce finite flame flaw
+flee flesh flexibility flexible fling flourish fluid forge format formation formula
+forthcoming foster fraction fragile fragment frame framework franchise fraud frustrate
+frustration fulfil fulfill function functional gallon gaze gender gene generic genetic
+genius genre gesture glimpse glory governor grab grace gradual gradually grain graph
+grasp gravity grief grip gross guideline guilt habitat halt handful harbour harbor
+hardship harsh hatred hazard headquarters heritage hierarchy highlight hint hollow
+homeland horizon hostage hostile hostility humanitarian humble hypothesis icon identical
+ideology ignorance ignorant illusion illustrate illustration imaginary immense immigrant
+immigration imminent immune implement implication implicit imply impose imprison
+incentive inclined incorporate incur index indication indicator induce indulge inequality
+inevitable inevitably infant infect infection infinite inflation influence influential
+infrastructure inhabitant inherent inherit inhibit initiative inject injustice inmate
+innovation innovative input inquiry insert insight inspect inspection inspector
+inspiration instinct institution institutional instruct integral integrate integrity
+intellectual intelligence intense intensity intensive interact interaction interfere
+interference interim intermediate internal interpret interpretation interval intervene
+intervention intimate invade invasion inventory invoke isolate isolation jealous joy
+judicial junction jurisdiction jury justification kidnap kit landmark lane lap lawsuit
+lawyer leak lean leap legacy legend legislation legislative legitimate lens liable
+liberal liberty lifelong lifetime likewise limb linear linger literacy literally
+litigation lobby log logic longstanding lottery lounge lump lyric magnificent magnitude
+mainland mainstream makeup mandate mandatory manifest manipulate manipulation manuscript
+margin marine marginal martial marvellous marvelous mature maximize maximise meaningful
+mechanism medal mediate medieval meditation memorable mentor merchant mercy merge merit
+metaphor migrant migration militant millennium mind mine minimal minimize minimise
+miracle misery mobility mock mode moderate modest modify molecule momentum monarch
+monitor monopoly monument morality mortgage motion motive mount mourn multiple municipal
+mutual myth naked narrative nasty naval negligence neglect negotiation nerve neutral
+nevertheless nominate nomination notable notion notorious novel novelist nursery
+nutrition obesity objection objective obligation oblige obscure observation observe
+observer obsess obsession obstacle obtain occasional occupation offender offensive
+offspring ongoing opera operational operator opposition optical optimism optimistic
+orbit organic orientation originate outbreak outcome outfit outlet outlook outrage
+overcome overlook overnight oversee overwhelm overwhelming ownership oxygen pact
+pad panic paradox parallel parameter parliament partial participation partnership
+passage passive patent pathway patrol patron peak peasant peculiar pedestrian peer
+pension perceive perception perfectly perform periodic peripheral permit persist
+persistent perspective petition petty pharmacy philosopher pioneer pipe pit plea plead
+pledge plug plunge pole poll ponder pop portfolio portion pose possess postpone pottery
+pour practitioner pray prayer precede precedent precious precisely predator predecessor
+predominantly pregnancy prejudice preliminary premature premier premise premium
+prescribe prescription presidency preside prestige presumably presume prevail prevalence
+prevention prey pride primarily prime privilege probe proclaim productive productivity
+profound programming prohibit projection proliferate prolong promising promote promotion
+prompt prone propaganda proportion prosecute prosecution prosecutor prosper prosperity
+protective protein protocol provision provoke psychiatric psychological psychology
+publication publicity punch pupil pursuit puzzle query quest questionnaire quota racism
+radar radiation radical rage raid rally random ratio rational readily realm rebel
+rebellion recession recipient reckon recommend reconcile recovery recruit recruitment
+redundancy referee referendum refine reflection reform refuge refugee regain regime
+regional register regulate regulation regulatory rehabilitation reign reinforce
+relieve reluctant remedy removal render renew renowned rental repay repeatedly
+replacement reproduce republic reputation rescue resemble resent reside residence
+residential resign resignation resistance resolution respective respectively restoration
+restrain retail retain retreat retrieve reunion revelation revenge reverse revise
+revival revive revolutionary rhetoric ridiculous rifle riot rip ritual robust rotate
+rotation rug rumour rumor sacred sacrifice saint sanction satisfaction scan scandal
+scarcely scatter scenario sceptical skeptical scholar scope scrap scratch scream script
+scrutiny sector secular seize selective seminar sensation sensitive sentiment
+separation sequel serial servant session setback settlement shallow shareholder shed
+sheer shield shortage shrink siege signature simulate simultaneously sin skeleton
+slam slap slogan slot snap soak sole solely solicitor solidarity sophisticated
+sovereign sovereignty spark specialist specify specimen spectacular spectrum speculate
+speculation sphere spill spine spiritual spite spokesman spontaneous spouse squad
+stability stake stall stance stark statute steer stem stereotype stimulate stimulus
+straightforward strain strand strap strive stroke structural stumble subsequent
+subsequently subsidy substantial substitute subtle succession successive successor
+suck sue suite summit superior supervise supervisor supplement suppress supreme surge
+surgeon surplus surrender surround surveillance susceptible suspend suspension suspicion
+suspicious sustain sustainable swallow swear sweep swell symbolic sympathetic sympathy
+symptom syndrome synthesis tactic tag tale tangible tackle teenage temple temporarily
+temporary tempt tenant tender terminal terrain terrific territory terror terrorism
+terrorist testify testimony textbook texture theft therapist thesis thorough threshold
+thrive thrust tide tighten timber toll torture toxic trademark trait transaction
+transcript transform transformation transit transition transmission transmit
+transparency transparent tremendous tribal tribe tribunal tribute trigger triumph troop
+trophy tuition turnout turnover twist undergo undergraduate underlying undermine
+undertake undoubtedly unify unprecedented unveil upcoming upgrade uphold utility utilize
+utilise vacuum valid validity vanish variable variation vein venture verdict verify
+versus vertical viable vibrant vice vicious villager violate violation virtue visa
+vocal voluntary vulnerable ward warehouse warfare warrant warrior weave welfare
+whereby widespread widow width wit withdraw withdrawal withstand workforce worship
+worthwhile worthy yield zone
+`,
+  C1: `
+abbreviation abide abolish abound abrupt abstain absurd abundance abundant accessible
+acclaim accolade accountable accuracy acquaint acute adamant adept adherence adjacent
+administer admiration adolescent adorn adverse adversity advisory affiliate affirm
+affluent aggravate aggregate agile agitate ailment alienate allege allegation alleviate
+allude ally altruism amass ambivalent amend amenity amid amplify anarchy anecdote
+animosity annex annihilate anomaly antagonism antidote antiquity apathy apex appease
+append applaud apprehend apprehension apprentice arbitrate archaic ardent arduous
+arrogance arrogant articulate ascend ascertain ascribe aspire assail assertive assimilate
+astute asymmetry atrocity attain attest attire audacious augment auspicious austerity
+authoritarian avid backlash banal barren batch bearing beckon befall belated belittle
+benevolent benign bequeath berate bestow betray bewilder bizarre blatant bleak blunder
+blunt bolster bombard boisterous bona bountiful brace breach brink brisk brittle brood
+brunt buoyant bureaucracy bureaucratic bygone cajole calamity callous camaraderie
+candid candour candor capitalize capricious captivate caricature catalyst categorical
+caveat censor censorship chronicle circumvent clamour clamor clandestine clarity
+coerce coercion cogent coherent cohesion collaborate collaboration collateral colloquial
+collusion commemorate commend commensurate commonplace complacent complacency
+complicity comprehend concise conclusive concur condone conducive configuration
+confiscate conform conformity congenial conjecture connotation conscientious conscript
+consolidate conspicuous constituency constituent contemplate contention contingency
+contingent contrary contrive convene converge conversely convey convoluted copious
+cordial corporation corroborate covert credible creditor crude culminate culpable
+curb cursory curtail daunting dearth debacle debilitate decipher decisive decree
+deduce deduction deem defer deference deficiency degrade deity delegate deliberation
+delinquent delusion demeanour demeanor demise demolish denote denounce deplete deplore
+depict deplete deride derogatory despicable destitute deter deterioration detrimental
+deviate devise devoid dexterity diatribe dichotomy diffuse digress dilapidated diligent
+dilute discern discerning disclosure discord discrepancy discreet discretion disdain
+disillusion disingenuous disparate disparity dispel disperse disposition disseminate
+dissent dissipate dissolve dissuade divergent divulge docile dogma dogmatic dormant
+dubious duplicity durable dwindle eccentric eclectic efficacy egalitarian elicit
+eloquent elucidate elusive emancipate embellish embezzle embody eminent empower emulate
+encompass encroach endemic enigma enigmatic enlighten enmity entail enthral enthrall
+entice entrench enumerate envisage envision ephemeral epitome equitable equivocal
+eradicate erode erratic erroneous erudite escalation espouse esteem ethos euphemism
+evade evasive exacerbate exasperate excerpt exemplary exempt exhaustive exhilarate
+exonerate exorbitant expedite expel explicate exponent exponential expound expulsion
+extol extradite extravagant exuberant fabricate facade facet fallacy fathom feasible
+feeble feign fervent fervour fervor fickle fidelity figurative finesse flagrant flair
+flamboyant flaunt fledgling flimsy flippant fluctuate fluctuation foment forbearance
+foresee forfeit formidable forthright fortify fortitude foster fraught frivolous frugal
+futile galvanize galvanise garner garrulous genesis germane gist glean glib gratify
+gratuitous gregarious grievance grim grotesque grudge gullible hackneyed hamper haphazard
+harbinger harrowing haughty hedonism hegemony heinous heresy hinder hindrance holistic
+homogeneous hone hypocrisy hypocritical hypothetical iconic idiosyncrasy idiosyncratic
+idyllic ignominious illicit illuminate imbalance immerse impair impartial impasse
+impeccable impede impediment imperative imperious impetus implausible implicate impoverish
+impromptu improvise impulsive inadvertent inadvertently inaugurate incentive incessant
+incidence incipient incisive incite inclination incoherent incompatible incongruous
+inconsistency incumbent indict indifference indifferent indigenous indignation indolent
+indispensable induce inept inertia infallible infer inference infiltrate infringe
+ingenious ingenuity inhibition inimical innate innocuous innuendo inquisitive insatiable
+insidious insinuate insipid instigate insular insurgent intangible intercept interrogate
+intractable intricate intrigue intrinsic introspection intuitive inundate invaluable
+inverse invincible irrational irrefutable irreversible irrevocable jeopardize jeopardise
+jeopardy judicious juxtapose kudos labyrinth lament latent laudable lavish lax lenient
+lethal lethargic levy liaison linchpin litany loathe lofty lucid lucrative ludicrous
+magnanimous malevolent malice malicious malleable mandate manifestation manifesto
+marginalize marginalise meagre meager mediocre melancholy menace meticulous milestone
+mitigate modicum momentous monotonous moratorium morose mundane myriad nascent nebulous
+nefarious negate negligible nemesis nepotism nonchalant nostalgia nostalgic notoriety
+novice nuance nullify obliterate oblivious obnoxious obsolete obstinate obstruct
+omen ominous omission omnipresent onerous onset onus opaque opportunist oppress
+oppression opulent ostensibly ostentatious ostracize ostracise oust outspoken overt
+overthrow palpable paradigm paramount pariah partisan patronize patronise paucity
+pedantic penchant perennial perfunctory peril perpetrate perpetrator perpetual perpetuate
+perplex persevere perseverance pertinent pervasive pessimism petulant philanthropy pivotal
+placate plausible plethora poignant polarize polarise pragmatic pragmatism preclude
+precarious precipitate preconception predicament predispose preempt prerequisite
+prerogative prevalent pristine proficiency proficient profess proficient prolific
+propagate propensity prophecy proponent propriety prosaic protagonist protracted proverbial
+provisional proximity prudent pseudonym pundit punitive quaint qualm quandary quell
+querulous quintessential rampant rancour rancor ratify rationale ravage rebuke rebuttal
+recede recipient reciprocal reckless reclaim reconcile rectify recuperate redeem
+redundant refute regress reiterate relegate relentless relinquish remnant remorse
+renaissance rendition renounce repercussion replete reprehensible repress reprimand
+reproach repudiate repugnant rescind resilience resilient resolute respite resurgence
+retaliate retaliation reticent retribution retrospect retrospective revere rhetorical
+rigorous rudimentary ruthless salient sanctity sanguine satire saturate scapegoat
+scathing scenic scrupulous scrutinize scrutinise secede seclusion sedentary semblance
+sensational serene servile shrewd simplistic skew solace solicit somber sombre
+sovereign sparse spurious squander stagnant stagnate staunch steadfast stifle stigma
+stipulate stoic strenuous stringent subdue subjugate sublime subordinate subsidiary
+subsidize subsidise substantiate subvert succinct succumb superficial superfluous
+supersede supplant surmount surreptitious surrogate susceptibility sycophant synergy
+taciturn tacit tangential tantamount tedious temperament tenacious tenacity tenet
+tentative tenuous terse thwart timid torrent tranquil transcend transient transitory
+trepidation trivial truce turbulent turmoil ubiquitous unanimous unassuming uncanny
+underscore undulate unequivocal unilateral unruly unscrupulous untenable upheaval
+usurp utilitarian utopia vacillate vehement venerable verbose verify vernacular
+versatile vex viability vicarious vigilant vigorous vilify vindicate virulent vitriolic
+vociferous volatile voracious wane wary wistful withhold zealous zenith
+`,
+};
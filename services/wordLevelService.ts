@@ -0,0 +1,122 @@
+import { CefrLevel } from '../types';
+import { lemmatize } from './lemmatizer';
+
+// CEFR level and approximate frequency rank of English words, from the bundled word list
+// (wordLevelData.ts). The list is loaded on first use so it stays out of the main bundle;
+// lookups return undefined until loadWordLevels() has resolved.
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+interface WordLevelInfo {
+  level: CefrLevel;
+  rank: number;   // 1 = most frequent
+}
+
+let wordLevels: Map<string, WordLevelInfo> | null = null;
+let wordsByLevel: Partial<Record<CefrLevel, string[]>> = {};
+let loadPromise: Promise<void> | null = null;
+
+/**
+ * Load the word list (once). Safe to call repeatedly.
+ */
+export const loadWordLevels = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = import('./wordLevelData')
+      .then(({ WORD_LEVEL_DATA }) => {
+        const levels = new Map<string, WordLevelInfo>();
+        const byLevel: Partial<Record<CefrLevel, string[]>> = {};
+        let rank = 0;
+        for (const [level, words] of Object.entries(WORD_LEVEL_DATA)) {
+          const listed: string[] = [];
+          for (const word of words.split(/\s+/)) {
+            // A word listed at several levels keeps the lowest one
+            if (word && !levels.has(word)) {
+              levels.set(word, { level: level as CefrLevel, rank: ++rank });
+              listed.push(word);
+            }
+          }
+          byLevel[level as CefrLevel] = listed;
+        }
+        wordLevels = levels;
+        wordsByLevel = byLevel;
+      })
+      .catch(error => {
+        loadPromise = null; // Retry on the next call
+        throw error;
+      });
+  }
+  return loadPromise;
+};
+
+export const isWordLevelDataLoaded = (): boolean => wordLevels !== null;
+
+// Possible base forms of comparatives and -ly adverbs, which the lemmatizer leaves alone
+function derivedBases(word: string): string[] {
+  if (word.endsWith('ier') || word.endsWith('ily')) return [word.slice(0, -3) + 'y'];
+  if (word.endsWith('er')) return [word.slice(0, -2), word.slice(0, -1), word.slice(0, -3)];
+  if (word.endsWith('ly')) return [word.slice(0, -2), word.slice(0, -1) + 'e'];
+  return [];
+}
+
+// Possible base forms of an -ed, -ing or -s form the lemmatizer got wrong or kept as is:
+// the stem, the stem with a final e and the stem with a doubled consonant undone
+function inflectedBases(word: string): string[] {
+  const suffix = ['ing', 'ed', 'es', 's'].find(s => word.endsWith(s) && word.length > s.length + 2);
+  if (!suffix) return [];
+  const stem = word.slice(0, -suffix.length);
+  const bases = [stem, stem + 'e'];
+  if (/([^aeiou])\1$/.test(stem)) bases.push(stem.slice(0, -1));
+  return bases;
+}
+
+// List entry of a word, as written, as its lemma ("clothes" is listed, "ran" is found as "run"),
+// as the base of a comparative or adverb ("bigger" -> "big", "quietly" -> "quiet")
+// or as a candidate stem of an inflected form ("practised" -> "practise")
+function lookup(word: string): WordLevelInfo | undefined {
+  if (!wordLevels) return undefined;
+  const lower = word.toLowerCase();
+  const info = wordLevels.get(lower) ?? wordLevels.get(lemmatize(lower));
+  if (info) return info;
+  for (const base of [...derivedBases(lower), ...inflectedBases(lower)]) {
+    const derived = wordLevels.get(base);
+    if (derived) return derived;
+  }
+  return undefined;
+}
+
+/**
+ * CEFR level of a word. Words missing from the list (in any candidate base form) are C2,
+ * except capitalized ones (most likely names). Numbers and contractions have no level.
+ */
+export const getWordLevel = (word: string): CefrLevel | undefined => {
+  if (!wordLevels) return undefined;
+  const base = word.replace(/['’]s$/i, '');
+  if (!/^[a-zA-Z-]+$/.test(base)) return undefined;
+
+  // Hyphenated compounds take the level of their hardest part
+  const parts = base.split('-').filter(Boolean);
+  if (parts.length > 1 && !lookup(base)) {
+    const levels = parts.map(getWordLevel).filter((level): level is CefrLevel => !!level);
+    return levels.length > 0 ? levels.reduce((a, b) => (compareLevels(a, b) >= 0 ? a : b)) : undefined;
+  }
+
+  const info = lookup(base);
+  if (info) return info.level;
+  return base[0] === base[0].toLowerCase() ? 'C2' : undefined;
+};
+
+/**
+ * Listed words of a level, most frequent first (empty for C2 or before the data has loaded)
+ */
+export const getWordsAtLevel = (level: CefrLevel): string[] => wordsByLevel[level] ?? [];
+
+/**
+ * Approximate frequency rank of a word (1 = most frequent), or undefined if it isn't listed
+ */
+export const getFrequencyRank = (word: string): number | undefined => lookup(word)?.rank;
+
+/**
+ * Order of two levels: negative if a is easier than b
+ */
+export const compareLevels = (a: CefrLevel, b: CefrLevel): number =>
+  CEFR_LEVELS.indexOf(a) - CEFR_LEVELS.indexOf(b);
@@ -1,154 +1,148 @@
-import { Annotation, TextWordData, WordMastery } from '../types';
-
-const STORAGE_KEY_PREFIX = 'vocabflow_words_';
-const MASTERY_THRESHOLD = 3; // Number of correct answers to master a word
-
-// Generate a hash for the text to use as a unique identifier
-function hashText(text: string): string {
-  let hash = 0;
-  const str = text.trim();
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(36);
+import { Annotation, HintLevel, ReviewGrade, SentenceFeedback, VocabularyEntry } from '../types';
+import { markWordKnown, unmarkWordKnown } from './knownWordsService';
+import { lemmatize } from './lemmatizer';
+import { recordLookup } from './statsService';
+import { isDue, isMastered, newSchedule, scheduleReview } from './spacedRepetition';
+import { hashText, MAX_VOCABULARY_SOURCES, MAX_WRITTEN_SENTENCES, readItem, vocabularyItem, writeItem } from './storage';
+
+// Global vocabulary notebook: one entry per looked-up word, shared by all texts.
+// Entries are keyed by lemma, so "ran" and "runs" both update "run".
+// Each entry remembers the texts (and sentences) it was looked up in, and its
+// review schedule (see spacedRepetition.ts).
+
+// Same word pattern the reader uses to split a text into tokens
+const WORD_PATTERN = /[a-zA-Z0-9'’-]+/g;
+
+// Load the whole vocabulary
+export function loadVocabulary(): VocabularyEntry[] {
+  return readItem(vocabularyItem) || [];
 }
 
-// Get the storage key for a text
-function getStorageKey(textHash: string): string {
-  return STORAGE_KEY_PREFIX + textHash;
+function saveVocabulary(entries: VocabularyEntry[]): void {
+  writeItem(vocabularyItem, entries);
 }
 
-// Load word data for a specific text
-export function loadWordData(text: string): TextWordData | null {
-  const textHash = hashText(text);
-  const key = getStorageKey(textHash);
-
-  try {
-    const stored = localStorage.getItem(key);
-    if (!stored) return null;
-    return JSON.parse(stored) as TextWordData;
-  } catch (e) {
-    console.warn("Failed to load word data:", e);
-    return null;
-  }
+// Apply a change to one word's entry and save. Returns the updated entry, or null if the word isn't in the vocabulary.
+function updateEntry(word: string, update: (entry: VocabularyEntry) => void): VocabularyEntry | null {
+  const entries = loadVocabulary();
+  const lemma = lemmatize(word);
+  const entry = entries.find(e => e.word === lemma);
+  if (!entry) return null;
+
+  update(entry);
+  entry.updatedAt = Date.now();
+  saveVocabulary(entries);
+  return entry;
 }
 
-// Save word data for a specific text
-function saveWordData(data: TextWordData): void {
-  const key = getStorageKey(data.textHash);
-
-  try {
-    localStorage.setItem(key, JSON.stringify(data));
-  } catch (e) {
-    console.warn("Failed to save word data:", e);
-  }
+// Get the entry of a word (any form)
+export function getVocabularyEntry(word: string): VocabularyEntry | null {
+  const lemma = lemmatize(word);
+  return loadVocabulary().find(e => e.word === lemma) ?? null;
 }
 
-// Add or update a looked-up word
-export function addLookedUpWord(text: string, word: string, annotation: Annotation): void {
-  const textHash = hashText(text);
-  let data = loadWordData(text);
-
-  if (!data) {
-    data = {
-      textHash,
-      words: [],
-      updatedAt: Date.now()
-    };
-  }
-
-  const wordLower = word.toLowerCase();
-  const existingIndex = data.words.findIndex(w => w.word === wordLower);
-
-  if (existingIndex === -1) {
-    // Add new word
-    data.words.push({
-      word: wordLower,
+// Add or update a looked-up word, recording the text and sentence it was looked up in.
+// A looked-up word is no longer treated as known. Lookups are counted for the statistics.
+export function addLookedUpWord(text: string, word: string, annotation: Annotation, context: string): void {
+  const entries = loadVocabulary();
+  const form = word.toLowerCase();
+  const lemma = lemmatize(word);
+  const now = Date.now();
+  const source = {
+    textHash: hashText(text),
+    preview: text.trim().substring(0, 100),
+    context: context.trim(),
+    addedAt: now
+  };
+
+  const existing = entries.find(e => e.word === lemma);
+  if (!existing) {
+    entries.push({
+      word: lemma,
       annotation,
-      correctCount: 0
+      ...newSchedule(now),
+      forms: [form],
+      updatedAt: now,
+      addedAt: now,
+      sources: [source],
+      forgottenCount: 0,
+      writtenSentences: []
     });
   } else {
-    // Word looked up again - reset progress (user forgot it)
-    data.words[existingIndex].annotation = annotation;
-    data.words[existingIndex].correctCount = 0;
-    delete data.words[existingIndex].lastCorrect;
+    // Word looked up again - reset progress (user forgot it), keeping ease and review log
+    existing.annotation = annotation;
+    existing.correctCount = 0;
+    existing.interval = 0;
+    existing.dueAt = now;
+    existing.updatedAt = now;
+    existing.forgottenCount++;
+    delete existing.lastCorrect;
+    if (!existing.forms.includes(form)) existing.forms.push(form);
+    existing.sources = [source, ...existing.sources.filter(s => s.textHash !== source.textHash)]
+      .slice(0, MAX_VOCABULARY_SOURCES);
   }
 
-  data.updatedAt = Date.now();
-  saveWordData(data);
+  saveVocabulary(entries);
+  unmarkWordKnown(lemma);
+  recordLookup();
 }
 
-// Get all looked-up words that are not yet mastered
-export function getUnmasteredWords(text: string): WordMastery[] {
-  const data = loadWordData(text);
-  if (!data) return [];
-
-  return data.words.filter(w => w.correctCount < MASTERY_THRESHOLD);
+// Replace a looked-up word's annotation (e.g. a different sense was picked), keeping its progress
+export function updateWordAnnotation(word: string, annotation: Annotation): void {
+  updateEntry(word, entry => {
+    entry.annotation = annotation;
+  });
 }
 
-// Get all looked-up words (including mastered)
-export function getAllLookedUpWords(text: string): WordMastery[] {
-  const data = loadWordData(text);
-  if (!data) return [];
-
-  return data.words;
+// Get all vocabulary words that occur in a text in any form (including mastered)
+export function getWordsInText(text: string): VocabularyEntry[] {
+  const lemmas = new Set((text.match(WORD_PATTERN) || []).map(lemmatize));
+  return loadVocabulary().filter(e => lemmas.has(e.word));
 }
 
-// Mark a word as correctly answered
-export function markWordCorrect(text: string, word: string): number {
-  const data = loadWordData(text);
-  if (!data) return 0;
-
-  const wordLower = word.toLowerCase();
-  const wordEntry = data.words.find(w => w.word === wordLower);
-
-  if (wordEntry) {
-    wordEntry.correctCount++;
-    wordEntry.lastCorrect = Date.now();
-    data.updatedAt = Date.now();
-    saveWordData(data);
-    return wordEntry.correctCount;
-  }
-
-  return 0;
+// Get all words due for review today, across all texts (most overdue first)
+export function getDueWords(now: number = Date.now()): VocabularyEntry[] {
+  return loadVocabulary()
+    .filter(e => isDue(e, now))
+    .sort((a, b) => a.dueAt - b.dueAt);
 }
 
-// Reset a word's correct count (when answered wrong)
-export function resetWordProgress(text: string, word: string): void {
-  const data = loadWordData(text);
-  if (!data) return;
-
-  const wordLower = word.toLowerCase();
-  const wordEntry = data.words.find(w => w.word === wordLower);
-
-  if (wordEntry) {
-    wordEntry.correctCount = 0;
-    data.updatedAt = Date.now();
-    saveWordData(data);
-  }
+// Get the vocabulary words in a text that are due for review today
+export function getDueWordsInText(text: string): VocabularyEntry[] {
+  const now = Date.now();
+  return getWordsInText(text).filter(e => isDue(e, now));
 }
 
-// Check if a word is mastered
-export function isWordMastered(text: string, word: string): boolean {
-  const data = loadWordData(text);
-  if (!data) return false;
-
-  const wordLower = word.toLowerCase();
-  const wordEntry = data.words.find(w => w.word === wordLower);
+// Record a review of a word and reschedule it, with the hints that were needed to answer;
+// a word that becomes mastered is added to the known words. Returns the updated entry.
+export function reviewWord(word: string, grade: ReviewGrade, hintLevel?: HintLevel): VocabularyEntry | null {
+  const entry = updateEntry(word, entry => {
+    const now = Date.now();
+    Object.assign(entry, scheduleReview(entry, grade, now));
+    if (hintLevel) entry.reviews[entry.reviews.length - 1].hintLevel = hintLevel;
+    if (grade !== 'again') entry.lastCorrect = now;
+  });
+  if (entry && isMastered(entry)) markWordKnown(entry.word);
+  return entry;
+}
 
-  return wordEntry ? wordEntry.correctCount >= MASTERY_THRESHOLD : false;
+// Record a graded sentence the learner wrote with a word (the review schedule is left alone).
+// Returns the updated entry.
+export function addWrittenSentence(word: string, sentence: string, feedback: SentenceFeedback): VocabularyEntry | null {
+  return updateEntry(word, entry => {
+    entry.writtenSentences = [{ sentence: sentence.trim(), writtenAt: Date.now(), feedback }, ...entry.writtenSentences]
+      .slice(0, MAX_WRITTEN_SENTENCES);
+  });
 }
 
-// Get the mastery threshold
-export function getMasteryThreshold(): number {
-  return MASTERY_THRESHOLD;
+// Check if a word is mastered
+export function isWordMastered(word: string): boolean {
+  const entry = getVocabularyEntry(word);
+  return entry ? isMastered(entry) : false;
 }
 
-// Clear all word data for a text
-export function clearWordData(text: string): void {
-  const textHash = hashText(text);
-  const key = getStorageKey(textHash);
-  localStorage.removeItem(key);
+// Remove a word (all its forms) from the vocabulary
+export function deleteVocabularyEntry(word: string): void {
+  const lemma = lemmatize(word);
+  saveVocabulary(loadVocabulary().filter(e => e.word !== lemma));
 }
@@ -1,26 +1,20 @@
-export type LLMProvider = 'gemini' | 'openai';
-
-// TTS Voice types for each provider
-export type GeminiVoice = 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Aoede';
-export type OpenAIVoice = 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
-
-// Voice display names
-export const GEMINI_VOICES: { id: GeminiVoice; name: string }[] = [
-  { id: 'Puck', name: 'Puck' },
-  { id: 'Charon', name: 'Charon' },
-  { id: 'Kore', name: 'Kore' },
-  { id: 'Fenrir', name: 'Fenrir' },
-  { id: 'Aoede', name: 'Aoede' },
-];
-
-export const OPENAI_VOICES: { id: OpenAIVoice; name: string }[] = [
-  { id: 'alloy', name: 'Alloy' },
-  { id: 'echo', name: 'Echo' },
-  { id: 'fable', name: 'Fable' },
-  { id: 'onyx', name: 'Onyx' },
-  { id: 'nova', name: 'Nova' },
-  { id: 'shimmer', name: 'Shimmer' },
-];
+// Provider identifier, as registered in services/providerRegistry.ts (e.g. 'gemini', 'openai')
+export type LLMProvider = string;
+
+// Capabilities a provider may implement
+export type ProviderCapability = 'tts' | 'annotation' | 'pronunciation' | 'textGeneration';
+
+// TTS voice option offered by a provider
+export interface VoiceOption {
+  id: string;
+  name: string;
+}
+
+// TTS audio result returned by every provider
+export interface TTSAudioResult {
+  data: ArrayBuffer;
+  mimeType: string;
+}
 
 export interface Annotation {
   ipa: string;
@@ -37,34 +31,141 @@ export interface Annotation {
   phrases?: string[];  // 常用词组（optional）
 }
 
+// CEFR level of a word (see wordLevelService.ts); C2 covers words beyond the bundled list
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+// Result of the placement test (see placementTest.ts)
+export interface PlacementRecord {
+  level: CefrLevel;
+  vocabularySize: number;   // Estimated number of known words (of the bundled word list)
+  takenAt: number;
+}
+
 export interface WordToken {
   id: string;
   text: string;
   isWord: boolean; // true if it's a clickable word, false if punctuation/whitespace
   status: 'idle' | 'loading' | 'success' | 'error';
   annotation?: Annotation;
+  senses?: Annotation[]; // Known senses of the word, for switching in the tooltip
   sentenceIndex: number; // Added for TTS sentence tracking
+  level?: CefrLevel; // Set once the word level data has loaded (none for names and numbers)
 }
 
-export type ViewMode = 'edit' | 'read';
+export type ViewMode = 'edit' | 'read' | 'vocabulary' | 'review' | 'placement' | 'stats' | 'sentences';
 
-export type InteractionMode = 'read' | 'listen' | 'pronounce' | 'write';
+export type InteractionMode = 'read' | 'listen' | 'pronounce' | 'write' | 'quiz' | 'dictate';
+
+// What the learner spends time on (reader modes and pages), for the statistics
+export type StudyActivity = InteractionMode | 'review' | 'vocabulary' | 'placement' | 'sentences';
+
+// Learning activity of one day (see statsService.ts)
+export interface DailyActivity {
+  lookups: number;                  // Words looked up, including repeats
+  pronunciationAttempts: number;
+  pronunciationScoreTotal: number;  // Sum of the attempts' scores (0-100 each)
+  studyTime: Partial<Record<StudyActivity, number>>;  // Milliseconds per activity
+}
 
 // Word mastery tracking for writing mode
+// How well a word was recalled in a review (see spacedRepetition.ts)
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Help shown for a blank in writing mode, from least to most
+export type HintLevel = 'definition' | 'ipa' | 'length' | 'firstLetter';
+
+// Which words writing mode blanks (see clozeGenerator.ts)
+export type ClozeStrategy = 'due' | 'everyNth' | 'aboveLevel' | 'functionWords' | 'collocations';
+export type ClozeDensity = 'low' | 'medium' | 'high';
+
+export interface ClozeSettings {
+  strategy: ClozeStrategy;
+  density: ClozeDensity;  // Share of the text blanked (all strategies but 'due')
+}
+
+export interface ReviewLogEntry {
+  reviewedAt: number;
+  grade: ReviewGrade;
+  interval: number;       // Days until the next review, as scheduled by this review
+  hintLevel?: HintLevel;  // Help needed to answer (writing mode only)
+}
+
 export interface WordMastery {
   word: string;           // The word (lowercase)
   annotation: Annotation; // The annotation for this word
-  correctCount: number;   // Number of times answered correctly
+  correctCount: number;   // Consecutive successful reviews
   lastCorrect?: number;   // Timestamp of last correct answer
+  ease: number;           // SM-2 ease factor
+  interval: number;       // Current review interval in days (0 = still learning)
+  dueAt: number;          // When the word is next due for review
+  reviews: ReviewLogEntry[]; // Most recent last
+  updatedAt: number;      // Last change to this entry (resolves conflicts when importing a backup)
+}
+
+// A text a vocabulary word was looked up in
+export interface VocabularySource {
+  textHash: string;       // Hash of the text (same hash as the old per-text storage)
+  preview: string;        // First 100 characters of the text
+  context: string;        // Sentence the word was looked up in
+  addedAt: number;
+}
+
+// Entry of the global vocabulary notebook (one per word, across all texts)
+export interface VocabularyEntry extends WordMastery {
+  // word is the lemma (see lemmatizer.ts)
+  forms: string[];                // Forms looked up in texts (lowercase)
+  addedAt: number;                // First lookup
+  sources: VocabularySource[];    // Most recent first
+  forgottenCount: number;         // Times looked up again after being added (progress reset)
+  writtenSentences: WrittenSentence[]; // Sentences the learner wrote with the word, most recent first
+}
+
+// A change the grader made to a sentence the learner wrote
+export interface SentenceCorrection {
+  original: string;     // Part of the learner's sentence
+  corrected: string;
+  explanation: string;  // In the user's language
+}
+
+// AI grading of a sentence written with a vocabulary word
+export interface SentenceFeedback {
+  correctness: number;    // 0-100: grammar, spelling and usage
+  naturalness: number;    // 0-100: how natural it sounds to a native speaker
+  senseMatches: boolean;  // The word is used in the sense being learned
+  correctedSentence: string;
+  corrections: SentenceCorrection[];
+  explanation: string;    // Overall comment, in the user's language
 }
 
-// Storage structure for a text's looked-up words
+export interface WrittenSentence {
+  sentence: string;
+  writtenAt: number;
+  feedback: SentenceFeedback;
+}
+
+// Per-text storage of looked-up words, used before the global vocabulary (kept for migration and old backups)
 export interface TextWordData {
   textHash: string;       // Hash of the text to identify it
   words: WordMastery[];   // All looked-up words for this text
   updatedAt: number;      // Last update timestamp
 }
 
+// Saved results of dictating one sentence (see dictationService.ts)
+export interface DictationResult {
+  sentence: string;
+  attempts: number;
+  bestScore: number;      // Share of the sentence typed correctly (0-1)
+  lastScore: number;
+  lastAttemptAt: number;
+}
+
+// Entry of the saved text history (also read by explore.html)
+export interface TextHistoryEntry {
+  text: string;
+  timestamp: number;
+  preview: string;        // First 100 characters
+}
+
 export interface WordError {
   word: string;
   issue: string; // e.g., "发音不准", "重音错误"
@@ -77,5 +178,6 @@ export interface PronunciationFeedback {
   score: number; // 0-100
   feedback: string;
   errors: WordError[];
-  audioUrl?: string; // URL for playback of recorded audio
+  audioUrl?: string; // URL for playback of recorded audio (used if the recording couldn't be stored)
+  recordingKey?: string; // Audio cache key of the recorded audio
 }
\ No newline at end of file